@@ -29,24 +29,31 @@ export class PointFactory {
   /**
    * Longueurs de brides par défaut (en mètres)
    */
-  private static readonly DEFAULT_BRIDLE_LENGTHS: BridleLengths = {
+  static readonly DEFAULT_BRIDLE_LENGTHS: BridleLengths = {
     nez: 0.68,     // 68cm du NEZ au CTRL
     inter: 0.5,    // 50cm du INTER au CTRL
     centre: 0.5,   // 50cm du CENTRE au CTRL
   };
 
   /**
-   * Calcule la position du point de contrôle (CTRL) par trilatération 3D analytique
-   * Résout l'intersection de 3 sphères centrées en NEZ, INTER, CENTRE
+   * Trilatération 3D analytique : intersection de 3 sphères centrées en NEZ, INTER, CENTRE
    * avec rayons = longueurs de brides respectives
+   * Retourne le repère local (origine NEZ) et les coordonnées x, y, z² du point CTRL
    */
-  private static calculateControlPoint(
+  private static trilaterate(
     nez: [number, number, number],
     inter: [number, number, number],
     centre: [number, number, number],
-    bridleLengths: BridleLengths,
-    side: 'left' | 'right'
-  ): [number, number, number] {
+    bridleLengths: BridleLengths
+  ): {
+    origin: THREE.Vector3;
+    ex: THREE.Vector3;
+    ey: THREE.Vector3;
+    ez: THREE.Vector3;
+    x: number;
+    y: number;
+    zSquared: number;
+  } {
     // Convertir en Vector3
     const p1 = new THREE.Vector3(...nez);      // Point 1 : NEZ
     const p2 = new THREE.Vector3(...inter);    // Point 2 : INTER
@@ -56,7 +63,6 @@ export class PointFactory {
     const r2 = bridleLengths.inter;   // Rayon sphère 2
     const r3 = bridleLengths.centre;  // Rayon sphère 3
 
-    // Trilatération 3D analytique
     // Étape 1 : Créer un repère local avec p1 à l'origine
     const ex = new THREE.Vector3().subVectors(p2, p1).normalize(); // axe X : direction p1->p2
     const d = p2.distanceTo(p1); // distance entre p1 et p2
@@ -89,6 +95,26 @@ export class PointFactory {
     // z² = r1² - x² - y²
     const zSquared = r1 * r1 - x * x - y * y;
 
+    return { origin: p1, ex, ey, ez, x, y, zSquared };
+  }
+
+  /**
+   * Calcule la position du point de contrôle (CTRL) par trilatération 3D analytique
+   */
+  private static calculateControlPoint(
+    nez: [number, number, number],
+    inter: [number, number, number],
+    centre: [number, number, number],
+    bridleLengths: BridleLengths,
+    side: 'left' | 'right'
+  ): [number, number, number] {
+    const { origin, ex, ey, ez, x, y, zSquared } = PointFactory.trilaterate(
+      nez,
+      inter,
+      centre,
+      bridleLengths
+    );
+
     // Si z² < 0, les sphères ne se croisent pas (configuration impossible)
     let z: number;
     if (zSquared < 0) {
@@ -103,7 +129,7 @@ export class PointFactory {
 
     // Étape 6 : Convertir les coordonnées locales en coordonnées globales
     const result = new THREE.Vector3();
-    result.copy(p1); // Partir de p1
+    result.copy(origin); // Partir de p1 (NEZ)
     result.addScaledVector(ex, x); // Ajouter x * ex
     result.addScaledVector(ey, y); // Ajouter y * ey
     result.addScaledVector(ez, z); // Ajouter z * ez
@@ -111,6 +137,41 @@ export class PointFactory {
     return [result.x, result.y, result.z];
   }
 
+  /**
+   * Points d'ancrage des brides sur la structure (NEZ, CENTRE, INTER gauche/droit)
+   */
+  private static getBridleAnchors(width: number, height: number): {
+    nezPos: [number, number, number];
+    centrePos: [number, number, number];
+    interGauchePos: [number, number, number];
+    interDroitPos: [number, number, number];
+  } {
+    const centreY = height / 4;
+    const ratio = (height - centreY) / height;
+    return {
+      nezPos: [0, height, 0],
+      centrePos: [0, centreY, 0],
+      interGauchePos: [ratio * (-width / 2), centreY, 0],
+      interDroitPos: [ratio * (width / 2), centreY, 0],
+    };
+  }
+
+  /**
+   * z² du point CTRL issu de la trilatération (le plus petit des deux côtés)
+   * Négatif : les trois sphères ne se croisent pas, les longueurs de brides sont
+   * incompatibles et CTRL serait approximé dans le plan des ancrages
+   */
+  static calculateControlPointDepthSquared(params: KiteParams): number {
+    const { width, height, bridleLengths = PointFactory.DEFAULT_BRIDLE_LENGTHS } = params;
+    const { nezPos, centrePos, interGauchePos, interDroitPos } =
+      PointFactory.getBridleAnchors(width, height);
+
+    return Math.min(
+      PointFactory.trilaterate(nezPos, interGauchePos, centrePos, bridleLengths).zSquared,
+      PointFactory.trilaterate(nezPos, interDroitPos, centrePos, bridleLengths).zSquared
+    );
+  }
+
   /**
    * Calcule toutes les positions des points anatomiques d'un cerf-volant delta
    */
@@ -119,16 +180,11 @@ export class PointFactory {
 
     // Logique métier extraite de Kite.ts
     const centreY = height / 4;
-    const ratio = (height - centreY) / height;
-    const interGaucheX = ratio * (-width / 2);
-    const interDroitX = ratio * (width / 2);
     const fixRatio = 2 / 3;
 
     // Points d'ancrage fixes des brides
-    const nezPos: [number, number, number] = [0, height, 0];
-    const centrePos: [number, number, number] = [0, height / 4, 0];
-    const interGauchePos: [number, number, number] = [interGaucheX, centreY, 0];
-    const interDroitPos: [number, number, number] = [interDroitX, centreY, 0];
+    const { nezPos, centrePos, interGauchePos, interDroitPos } =
+      PointFactory.getBridleAnchors(width, height);
 
     // Calculer les positions des points de contrôle depuis les longueurs de brides
     const ctrlGauche = PointFactory.calculateControlPoint(
@@ -163,8 +219,8 @@ export class PointFactory {
       ["INTER_DROIT", interDroitPos],
 
       // Points de fixation whiskers
-      ["FIX_GAUCHE", [fixRatio * interGaucheX, centreY, 0]],
-      ["FIX_DROIT", [fixRatio * interDroitX, centreY, 0]],
+      ["FIX_GAUCHE", [fixRatio * interGauchePos[0], centreY, 0]],
+      ["FIX_DROIT", [fixRatio * interDroitPos[0], centreY, 0]],
 
       // Points des whiskers
       ["WHISKER_GAUCHE", [-width / 4, 0.1, -depth]],
@@ -15,4 +15,10 @@ try {
   });
 } catch (error) {
   console.error("❌ Erreur lors de l'initialisation de la simulation:", error);
+  // Ex: configuration refusée par ConfigValidator, avec la liste des problèmes
+  const errorDiv = document.getElementById("error");
+  if (errorDiv) {
+    errorDiv.style.display = "block";
+    errorDiv.textContent = `Erreur: ${(error as Error).message}`;
+  }
 }
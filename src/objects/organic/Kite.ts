@@ -417,6 +417,14 @@ export class Kite extends StructuredObject implements ICreatable {
     return { ...this.bridleLengths };
   }
 
+  /**
+   * Retourne les dimensions de la structure (envergure, hauteur, profondeur)
+   */
+  public getDimensions(): { width: number; height: number; depth: number } {
+    const { width, height, depth } = this.params;
+    return { width, height, depth };
+  }
+
   /**
    * Ajoute des marqueurs visuels aux points importants
    */
@@ -0,0 +1,292 @@
+/**
+ * HeadlessSimulation.ts - Cœur de simulation sans DOM, fenêtre ni WebGL
+ *
+ * Rôle :
+ *   - Construit le Kite, le PhysicsEngine et les commandes de barre uniquement en mémoire
+ *   - Permet de faire avancer la simulation pas à pas depuis Node (batchs, tests automatisés)
+ *   - Sert de noyau commun à SimulationApp, qui y ajoute le rendu et les entrées utilisateur
+ *
+ * Dépendances principales :
+ *   - Kite.ts : Modèle du cerf-volant (aucun accès DOM tant que les labels sont désactivés)
+ *   - PhysicsEngine.ts : Moteur physique complet
+ *   - SimulationConfig.ts : Paramètres par défaut (longueur de lignes, position du pilote)
+ *   - ConfigValidator.ts : Vérifie la configuration avant chaque (re)démarrage
+ *
+ * Relation avec les fichiers adjacents :
+ *   - SimulationApp.ts : Utilise HeadlessSimulation et se charge uniquement de l'affichage
+ *   - MultiKiteSimulation.ts : Fait voler plusieurs HeadlessSimulation dans le même vent
+ *   - InputHandler.ts : N'est PAS utilisé ici, la rotation de barre est fournie par l'appelant
+ *
+ * Utilisation typique :
+ *   const sim = new HeadlessSimulation({ windParams: { speed: 20 } });
+ *   sim.setBarRotation(0.2);
+ *   sim.run(10); // 10 secondes simulées au pas fixe
+ *   console.log(sim.getState().position);
+ *
+ * Voir aussi :
+ *   - src/simulation/SimulationApp.ts
+ *   - src/simulation/physics/PhysicsEngine.ts
+ */
+import * as THREE from "three";
+import { Kite } from "../objects/organic/Kite";
+import { PhysicsEngine } from "./physics/PhysicsEngine";
+import { CONFIG } from "./config/SimulationConfig";
+import { ConfigValidator } from "./config/ConfigValidator";
+import {
+  KiteState,
+  PhysicsFrame,
+  StepInputs,
+  StepListener,
+  WindParams,
+  WindScenario,
+} from "./types";
+
+/**
+ * Options de construction de la simulation headless
+ */
+export interface HeadlessSimulationOptions {
+  /** Longueur des lignes en mètres (défaut : CONFIG.lines.defaultLength) */
+  lineLength?: number;
+  /** Paramètres de vent initiaux (défaut : CONFIG.wind) */
+  windParams?: Partial<WindParams>;
+  /** Kite existant à piloter (défaut : un nouveau Kite) */
+  kite?: Kite;
+  /** Position de la barre du pilote (défaut : CONFIG.controlBar.position) */
+  pilotPosition?: THREE.Vector3;
+  /** Graine des turbulences (défaut : CONFIG.wind.turbulenceSeed) */
+  seed?: number;
+  /** Scénario de vent joué dès t = 0 (remplace windParams) */
+  windScenario?: WindScenario;
+}
+
+/**
+ * Simulation sans rendu
+ *
+ * Possède le kite, le moteur physique et la commande de barre courante.
+ * Aucune dépendance à window, document ou WebGL.
+ */
+export class HeadlessSimulation {
+  /** Altitude de départ du kite (m) */
+  static readonly INITIAL_KITE_HEIGHT = 7;
+
+  private kite: Kite;
+  private pilotPosition: THREE.Vector3;
+  private physicsEngine!: PhysicsEngine;
+  private lineLength: number;
+  private windParams: Partial<WindParams>;
+  private windScenario: WindScenario | null;
+  private seed: number;
+  private barRotation: number = 0;
+  private time: number = 0;
+  private stepCount: number = 0;
+  private stepListeners: StepListener[] = [];
+
+  constructor(options: HeadlessSimulationOptions = {}) {
+    this.kite = options.kite ?? new Kite();
+    this.pilotPosition = (
+      options.pilotPosition ?? CONFIG.controlBar.position
+    ).clone();
+    this.lineLength = options.lineLength ?? CONFIG.lines.defaultLength;
+    this.windParams = { ...options.windParams };
+    this.windScenario = options.windScenario ?? null;
+    this.seed = options.seed ?? CONFIG.wind.turbulenceSeed;
+    this.reset();
+  }
+
+  /**
+   * Calcule la position de départ du kite : à INITIAL_KITE_HEIGHT, face au vent,
+   * à 95% de la longueur de ligne du pilote
+   */
+  static computeInitialKitePosition(
+    pilotPosition: THREE.Vector3,
+    lineLength: number
+  ): THREE.Vector3 {
+    const initialDistance = lineLength * 0.95;
+    const dy = HeadlessSimulation.INITIAL_KITE_HEIGHT - pilotPosition.y;
+    const horizontal = Math.max(
+      0.1,
+      Math.sqrt(Math.max(0, initialDistance * initialDistance - dy * dy))
+    );
+
+    return new THREE.Vector3(
+      pilotPosition.x,
+      HeadlessSimulation.INITIAL_KITE_HEIGHT,
+      pilotPosition.z - horizontal
+    );
+  }
+
+  /**
+   * Replace le kite en position initiale et recrée le moteur physique
+   * La longueur de ligne, les paramètres de vent et le scénario de vent
+   * courants sont conservés (le scénario repart de son début)
+   * @param seed - Nouvelle graine des turbulences (défaut : la graine courante,
+   *   la même séquence de rafales est rejouée)
+   * @throws ConfigValidationError si CONFIG, les brides du kite, la longueur
+   *   de ligne ou les paramètres de vent sont invalides
+   */
+  reset(seed: number = this.seed): void {
+    if (this.physicsEngine) {
+      this.lineLength = this.physicsEngine.getLineSystem().lineLength;
+      this.windParams = this.physicsEngine.getWindSimulator().getParams();
+      this.windScenario = this.physicsEngine.getWindSimulator().getScenario();
+    }
+
+    // Refuser de démarrer une simulation physiquement impossible
+    ConfigValidator.assertValid([
+      ...ConfigValidator.validate(this.kite),
+      ...ConfigValidator.validateFlightSetup(this.lineLength, {
+        speed: CONFIG.wind.defaultSpeed,
+        direction: CONFIG.wind.defaultDirection,
+        turbulence: CONFIG.wind.defaultTurbulence,
+        ...this.windParams,
+      }),
+    ]);
+
+    this.seed = seed;
+
+    this.kite.position.copy(
+      HeadlessSimulation.computeInitialKitePosition(
+        this.pilotPosition,
+        this.lineLength
+      )
+    );
+    this.kite.rotation.set(0, 0, 0);
+    this.kite.quaternion.identity();
+
+    this.physicsEngine = new PhysicsEngine(this.kite, this.pilotPosition);
+    this.physicsEngine.setLineLength(this.lineLength);
+    this.physicsEngine.setWindParams(this.windParams);
+    this.physicsEngine.getWindSimulator().setSeed(this.seed);
+    this.physicsEngine.setWindScenario(this.windScenario);
+
+    this.barRotation = 0;
+    this.time = 0;
+    this.stepCount = 0;
+  }
+
+  /**
+   * Définit la rotation de barre demandée (radians) pour les pas suivants
+   */
+  setBarRotation(rotation: number): void {
+    this.barRotation = rotation;
+  }
+
+  getBarRotation(): number {
+    return this.barRotation;
+  }
+
+  /**
+   * Pas réellement appliqué par PhysicsEngine.update, qui borne tout pas à
+   * CONFIG.physics.deltaTimeMax
+   */
+  static appliedTimeStep(deltaTime: number): number {
+    return Math.min(deltaTime, CONFIG.physics.deltaTimeMax);
+  }
+
+  /**
+   * Avance la simulation d'un pas de temps
+   * Un pas plus long que CONFIG.physics.deltaTimeMax est ramené à ce maximum :
+   * le temps simulé (getTime, événements de pas) avance du pas appliqué.
+   */
+  step(deltaTime: number): KiteState {
+    const inputs = this.stepListeners.length > 0 ? this.getInputs() : null;
+
+    deltaTime = HeadlessSimulation.appliedTimeStep(deltaTime);
+    this.physicsEngine.update(deltaTime, this.barRotation, false);
+    this.time += deltaTime;
+    this.stepCount++;
+    const state = this.getState();
+
+    const frame = this.physicsEngine.getLastFrame();
+    if (inputs && frame) {
+      const event = {
+        stepIndex: this.stepCount - 1,
+        time: this.time,
+        deltaTime,
+        inputs,
+        state,
+        frame,
+      };
+      this.stepListeners.forEach((listener) => listener(event));
+    }
+    return state;
+  }
+
+  /**
+   * Entrées qui seront appliquées au prochain pas
+   */
+  getInputs(): StepInputs {
+    const windSimulator = this.physicsEngine.getWindSimulator();
+    return {
+      barRotation: this.barRotation,
+      windParams: windSimulator.getParams(),
+      lineLength: this.physicsEngine.getLineSystem().lineLength,
+      windScenario: windSimulator.getScenario(),
+    };
+  }
+
+  /**
+   * Abonne un observateur appelé après chaque pas (conservé lors des reset)
+   * @returns Fonction de désabonnement
+   */
+  addStepListener(listener: StepListener): () => void {
+    this.stepListeners.push(listener);
+    return () => {
+      this.stepListeners = this.stepListeners.filter((l) => l !== listener);
+    };
+  }
+
+  /**
+   * Avance la simulation de `duration` secondes par pas de `deltaTime`
+   * (par défaut le pas fixe CONFIG.physics.fixedTimeStep, comme l'application ;
+   * un pas trop long est ramené à CONFIG.physics.deltaTimeMax)
+   * @param onStep - Appelé après chaque pas (ex: pour changer la commande de barre)
+   */
+  run(
+    duration: number,
+    deltaTime: number = CONFIG.physics.fixedTimeStep,
+    onStep?: (state: KiteState, time: number) => void
+  ): void {
+    deltaTime = HeadlessSimulation.appliedTimeStep(deltaTime);
+    const steps = Math.round(duration / deltaTime);
+    for (let i = 0; i < steps; i++) {
+      const state = this.step(deltaTime);
+      onStep?.(state, this.time);
+    }
+  }
+
+  getState(): KiteState {
+    return this.physicsEngine.getKiteController().getState();
+  }
+
+  /** Instantané du dernier pas physique (null juste après un reset) */
+  getLastFrame(): PhysicsFrame | null {
+    return this.physicsEngine.getLastFrame();
+  }
+
+  /** Temps simulé écoulé depuis le dernier reset (s) */
+  getTime(): number {
+    return this.time;
+  }
+
+  /** Graine des turbulences utilisée depuis le dernier reset */
+  getSeed(): number {
+    return this.seed;
+  }
+
+  getStepCount(): number {
+    return this.stepCount;
+  }
+
+  getKite(): Kite {
+    return this.kite;
+  }
+
+  getPilotPosition(): THREE.Vector3 {
+    return this.pilotPosition.clone();
+  }
+
+  getPhysicsEngine(): PhysicsEngine {
+    return this.physicsEngine;
+  }
+}
@@ -0,0 +1,366 @@
+/**
+ * MultiKiteSimulation.ts - Plusieurs pilotes et kites dans le même vent
+ *
+ * Rôle :
+ *   - Fait voler N ensembles pilote + kite indépendants, chacun avec sa source
+ *     d'entrée, ses brides, sa longueur de lignes, sa position de pilote et ses
+ *     propres réglages (masse, aérodynamique, lignes, barre)
+ *   - Garde le même vent pour tous : paramètres, scénario, graine et temps des
+ *     turbulences sont recopiés du premier kite, qui sert de référence
+ *
+ * Chaque kite a son propre moteur physique. Les rafales ne dépendent que du temps
+ * et de la graine (TurbulenceGenerator) et le vent moyen de la position
+ * (WindField) : des moteurs réinitialisés ensemble et avancés des mêmes pas
+ * voient donc exactement le même champ de vent, chacun à l'endroit où vole son kite.
+ * Un reset du premier kite (bouton, enregistrement, profil) entraîne les autres.
+ *
+ * CONFIG reste un objet unique : les réglages propres à un kite (KiteRig.config)
+ * y sont écrits le temps de ses pas et de ses resets, puis les valeurs communes
+ * sont remises. Le premier kite vole avec CONFIG tel quel. Le vent et le pas de
+ * temps (sections wind et physics) restent communs à toute la scène ; les kites
+ * ne se percutent pas entre eux.
+ *
+ * Relation avec les fichiers adjacents :
+ *   - HeadlessSimulation.ts : Un kite et son moteur physique
+ *   - KiteRigView.ts : Affiche un ensemble pilote + kite dans la scène
+ *   - MirrorInput.ts : Source qui recopie la barre du premier kite
+ *
+ * Utilisation typique :
+ *   const rigs = new MultiKiteSimulation({
+ *     windParams: { speed: 25, turbulence: 20 },
+ *     rigs: [
+ *       { name: "Réglage A" },
+ *       { name: "Réglage B", bridles: { nez: 0.6 }, config: { kite: { mass: 0.2 } } },
+ *     ],
+ *   });
+ *   rigs.getRig(1).input = new MirrorInput(rigs.getLead());
+ *   rigs.run(30);
+ *
+ * Voir aussi :
+ *   - src/simulation/HeadlessSimulation.ts
+ */
+import * as THREE from "three";
+import { Kite } from "../objects/organic/Kite";
+import { HeadlessSimulation } from "./HeadlessSimulation";
+import { CONFIG } from "./config/SimulationConfig";
+import {
+  InputSource,
+  KiteState,
+  WindParams,
+  WindScenario,
+} from "./types";
+import { BridleLengths } from "./types/BridleTypes";
+
+/** Sections de CONFIG qu'un kite peut régler pour lui seul */
+const RIG_CONFIG_SECTIONS = ["aero", "lines", "kite", "controlBar"] as const;
+
+/**
+ * Réglages propres à un kite, superposés à CONFIG section par section
+ * (valeurs scalaires, les clés inconnues de CONFIG sont ignorées)
+ */
+export type RigConfigOverride = Partial<
+  Record<(typeof RIG_CONFIG_SECTIONS)[number], Record<string, number>>
+>;
+
+/**
+ * Réglages propres à un ensemble pilote + kite
+ */
+export interface KiteRigOptions {
+  /** Nom affiché (défaut : "Kite n") */
+  name?: string;
+  /** Position de la barre (défaut : première place libre à droite du premier pilote) */
+  pilotPosition?: THREE.Vector3;
+  /** Longueur des lignes en mètres (défaut : celle du premier kite) */
+  lineLength?: number;
+  /** Longueurs de brides, appliquées au kite avant le premier reset */
+  bridles?: Partial<BridleLengths>;
+  /** Source d'entrée (défaut : aucune, la barre reste où l'appelant la met) */
+  input?: InputSource | null;
+  /** Réglages propres à ce kite (sans effet sur le premier, qui vole avec CONFIG) */
+  config?: RigConfigOverride;
+  /** Kite existant à piloter (défaut : un nouveau Kite) */
+  kite?: Kite;
+}
+
+/**
+ * Options de construction de la scène à plusieurs kites
+ */
+export interface MultiKiteSimulationOptions {
+  /** Ensembles pilote + kite, le premier sert de référence (défaut : un seul) */
+  rigs?: KiteRigOptions[];
+  /** Paramètres de vent initiaux, communs à tous (défaut : CONFIG.wind) */
+  windParams?: Partial<WindParams>;
+  /** Graine des turbulences, commune à tous (défaut : CONFIG.wind.turbulenceSeed) */
+  seed?: number;
+  /** Scénario de vent joué dès t = 0 */
+  windScenario?: WindScenario;
+  /** Écart entre deux pilotes placés automatiquement (m) */
+  spacing?: number;
+}
+
+/**
+ * Un ensemble pilote + kite
+ */
+export interface KiteRig {
+  readonly name: string;
+  readonly simulation: HeadlessSimulation;
+  /** Source d'entrée lue par applyInputs() (null : barre laissée telle quelle) */
+  input: InputSource | null;
+  /** Réglages propres, appliqués à ses prochains pas (reset pour ceux lus à la création des lignes) */
+  config: RigConfigOverride;
+}
+
+/**
+ * Scène à plusieurs kites dans le même vent
+ */
+export class MultiKiteSimulation {
+  /** Écart par défaut entre deux pilotes voisins (m) */
+  static readonly DEFAULT_SPACING = 8;
+
+  private rigs: KiteRig[] = [];
+  private readonly spacing: number;
+  private rigCount = 0;
+
+  constructor(options: MultiKiteSimulationOptions = {}) {
+    this.spacing = options.spacing ?? MultiKiteSimulation.DEFAULT_SPACING;
+    const [leadOptions = {}, ...others] = options.rigs ?? [];
+
+    this.rigs.push(
+      this.createRig({ ...leadOptions, config: undefined }, {
+        lineLength: leadOptions.lineLength,
+        windParams: options.windParams,
+        seed: options.seed,
+        windScenario: options.windScenario,
+      })
+    );
+    others.forEach((rigOptions) => this.addRig(rigOptions));
+  }
+
+  /**
+   * Ajoute un ensemble pilote + kite, synchronisé sur le vent du premier
+   * Il part d'un reset : ses rafales ne coïncident avec celles des autres
+   * qu'à partir du prochain reset commun (reset()).
+   * @throws ConfigValidationError si ses brides ou ses réglages sont invalides
+   */
+  addRig(options: KiteRigOptions = {}): KiteRig {
+    const lead = this.getLead();
+    const inputs = lead.getInputs();
+    const rig = this.createRig(options, {
+      lineLength: options.lineLength ?? inputs.lineLength,
+      windParams: inputs.windParams,
+      seed: lead.getSeed(),
+      windScenario: inputs.windScenario ?? undefined,
+    });
+    this.rigs.push(rig);
+    return rig;
+  }
+
+  /**
+   * Retire un ensemble pilote + kite
+   * @throws Error pour le premier, qui sert de référence au vent
+   */
+  removeRig(rig: KiteRig): void {
+    if (rig === this.rigs[0]) {
+      throw new Error("Le premier kite sert de référence et ne peut pas être retiré");
+    }
+    this.rigs = this.rigs.filter((r) => r !== rig);
+  }
+
+  getRigs(): KiteRig[] {
+    return [...this.rigs];
+  }
+
+  getRig(index: number): KiteRig {
+    return this.rigs[index];
+  }
+
+  getRigCount(): number {
+    return this.rigs.length;
+  }
+
+  /** Simulation du premier kite, référence du vent et du temps */
+  getLead(): HeadlessSimulation {
+    return this.rigs[0].simulation;
+  }
+
+  setWindParams(params: Partial<WindParams>): void {
+    this.rigs.forEach((rig) =>
+      rig.simulation.getPhysicsEngine().setWindParams(params)
+    );
+  }
+
+  setWindScenario(scenario: WindScenario | null): void {
+    this.rigs.forEach((rig) =>
+      rig.simulation.getPhysicsEngine().setWindScenario(scenario)
+    );
+  }
+
+  /**
+   * Remet tous les kites en position de départ, avec la même graine
+   * @throws ConfigValidationError si la configuration d'un kite (réglages
+   *   propres compris) est invalide
+   */
+  reset(seed?: number): void {
+    this.getLead().reset(seed);
+    this.synchronize();
+  }
+
+  /**
+   * Recopie le vent du premier kite sur les autres, et les remet à zéro si le
+   * premier a été réinitialisé ou a changé de graine depuis le dernier pas
+   */
+  synchronize(): void {
+    const lead = this.getLead();
+    const leadWind = lead.getPhysicsEngine().getWindSimulator();
+    const params = leadWind.getParams();
+
+    this.rigs.slice(1).forEach(({ simulation, config }) => {
+      const engine = simulation.getPhysicsEngine();
+      const wind = engine.getWindSimulator();
+      if (wind.getScenario() !== leadWind.getScenario()) {
+        engine.setWindScenario(leadWind.getScenario());
+      }
+      if (!MultiKiteSimulation.sameWind(wind.getParams(), params)) {
+        engine.setWindParams(params);
+      }
+      if (
+        simulation.getTime() > lead.getTime() ||
+        simulation.getSeed() !== lead.getSeed()
+      ) {
+        MultiKiteSimulation.withConfig(config, () =>
+          simulation.reset(lead.getSeed())
+        );
+      }
+    });
+  }
+
+  /**
+   * Lit la source d'entrée de chaque kite et règle sa barre
+   * (une fois par frame dans l'application, avant les pas physiques)
+   * Une source partagée par plusieurs kites n'est mise à jour qu'une fois.
+   */
+  applyInputs(deltaTime: number): void {
+    const updated = new Set<InputSource>();
+    this.rigs.forEach(({ simulation, input }) => {
+      if (!input) return;
+      if (!updated.has(input)) {
+        input.update(deltaTime);
+        updated.add(input);
+      }
+      simulation.setBarRotation(input.getTargetBarRotation());
+    });
+  }
+
+  /**
+   * Avance tous les kites d'un pas de temps
+   * @returns L'état de chaque kite, dans l'ordre des ensembles
+   */
+  step(deltaTime: number): KiteState[] {
+    this.synchronize();
+    return this.rigs.map((rig) =>
+      MultiKiteSimulation.withConfig(rig.config, () =>
+        rig.simulation.step(deltaTime)
+      )
+    );
+  }
+
+  /**
+   * Avance la scène de `duration` secondes, entrées relues à chaque pas
+   * @param onStep - Appelé après chaque pas avec l'état de chaque kite
+   */
+  run(
+    duration: number,
+    deltaTime: number = CONFIG.physics.fixedTimeStep,
+    onStep?: (states: KiteState[], time: number) => void
+  ): void {
+    deltaTime = HeadlessSimulation.appliedTimeStep(deltaTime);
+    const steps = Math.round(duration / deltaTime);
+    for (let i = 0; i < steps; i++) {
+      this.applyInputs(deltaTime);
+      const states = this.step(deltaTime);
+      onStep?.(states, this.getTime());
+    }
+  }
+
+  /** Temps simulé du premier kite depuis le dernier reset (s) */
+  getTime(): number {
+    return this.getLead().getTime();
+  }
+
+  private createRig(
+    options: KiteRigOptions,
+    wind: {
+      lineLength?: number;
+      windParams?: Partial<WindParams>;
+      seed?: number;
+      windScenario?: WindScenario;
+    }
+  ): KiteRig {
+    const kite = options.kite ?? new Kite();
+    if (options.bridles) kite.setBridleLengths(options.bridles);
+
+    const config = options.config ?? {};
+    const pilotPosition = options.pilotPosition ?? this.freePilotPosition();
+    const simulation = MultiKiteSimulation.withConfig(
+      config,
+      () => new HeadlessSimulation({ ...wind, kite, pilotPosition })
+    );
+
+    this.rigCount++;
+    return {
+      name: options.name ?? `Kite ${this.rigCount}`,
+      simulation,
+      input: options.input ?? null,
+      config,
+    };
+  }
+
+  /**
+   * Exécute `action` avec les réglages propres d'un kite écrits dans CONFIG,
+   * puis remet les valeurs communes, même si `action` lève une exception
+   */
+  private static withConfig<T>(config: RigConfigOverride, action: () => T): T {
+    const saved: { target: Record<string, unknown>; key: string; value: unknown }[] = [];
+    RIG_CONFIG_SECTIONS.forEach((section) => {
+      const target = CONFIG[section] as Record<string, unknown>;
+      Object.entries(config[section] ?? {}).forEach(([key, value]) => {
+        if (!(key in target) || typeof target[key] !== typeof value) return;
+        saved.push({ target, key, value: target[key] });
+        target[key] = value;
+      });
+    });
+    try {
+      return action();
+    } finally {
+      saved.forEach(({ target, key, value }) => {
+        target[key] = value;
+      });
+    }
+  }
+
+  /**
+   * Première place libre sur la ligne des pilotes, vers la droite du premier
+   */
+  private freePilotPosition(): THREE.Vector3 {
+    const origin = CONFIG.controlBar.position;
+    for (let slot = 0; ; slot++) {
+      const position = origin
+        .clone()
+        .add(new THREE.Vector3(slot * this.spacing, 0, 0));
+      const taken = this.rigs.some(
+        (rig) =>
+          rig.simulation.getPilotPosition().distanceTo(position) <
+          this.spacing / 2
+      );
+      if (!taken) return position;
+    }
+  }
+
+  private static sameWind(a: WindParams, b: WindParams): boolean {
+    return (
+      a.speed === b.speed &&
+      a.direction === b.direction &&
+      a.turbulence === b.turbulence
+    );
+  }
+}
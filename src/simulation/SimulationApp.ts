@@ -8,24 +8,100 @@ import * as THREE from "three";
 import { Kite } from "../objects/organic/Kite";
 import { RenderManager } from "./rendering/RenderManager";
 import { DebugRenderer } from "./rendering/DebugRenderer";
-import { PhysicsEngine } from "./physics/PhysicsEngine";
+import { HeadlessSimulation } from "./HeadlessSimulation";
+import { KiteRig, MultiKiteSimulation } from "./MultiKiteSimulation";
+import { FixedTimestepLoop } from "./physics/FixedTimestepLoop";
+import { KiteRigView } from "./rendering/KiteRigView";
+import { WindWindowOverlay } from "./rendering/WindWindowOverlay";
 import { InputHandler } from "./controllers/InputHandler";
+import { KeyboardInput } from "./controllers/KeyboardInput";
+import { KeyBindings } from "./controllers/KeyBindings";
+import { GamepadInput } from "./controllers/GamepadInput";
+import { PointerSteeringInput } from "./controllers/PointerSteeringInput";
+import { Autopilot } from "./controllers/Autopilot";
 import { UIManager } from "./ui/UIManager";
-import { CONFIG } from "./config/SimulationConfig";
+import { RecorderPanel } from "./ui/RecorderPanel";
+import { TelemetryPanel } from "./ui/TelemetryPanel";
+import { ChartPanel } from "./ui/ChartPanel";
+import { ProfilePanel } from "./ui/ProfilePanel";
+import { TuningPanel } from "./ui/TuningPanel";
+import { GamepadPanel } from "./ui/GamepadPanel";
+import { SteeringWidget } from "./ui/SteeringWidget";
+import { KeyBindingsPanel } from "./ui/KeyBindingsPanel";
+import { AutopilotPanel } from "./ui/AutopilotPanel";
+import { WindWindowPanel } from "./ui/WindWindowPanel";
+import { FlightEventsPanel } from "./ui/FlightEventsPanel";
+import { TrickPanel } from "./ui/TrickPanel";
+import { RigsPanel } from "./ui/RigsPanel";
+import { ConfigSnapshot } from "./config/ConfigSnapshot";
+import { ConfigProfiles } from "./config/ConfigProfiles";
+import { ConfigValidationError } from "./config/ConfigValidator";
+import { FlightRecorder } from "./recording/FlightRecorder";
+import { FlightReplay } from "./recording/FlightReplay";
+import { FlightEventDetector } from "./events/FlightEventDetector";
+import { FlightOutcomePolicy } from "./events/FlightOutcomePolicy";
+import { TrickRecognizer } from "./tricks/TrickRecognizer";
+import {
+  ConfigProfile,
+  ConfigSnapshotData,
+  FlightRecording,
+  InputSource,
+  StepInputs,
+} from "./types";
+
+/**
+ * Kites ajoutés à côté du premier : nom affiché et couleur du pilote
+ */
+const RIG_PALETTE = [
+  { name: "Kite bleu", color: 0x1e88e5 },
+  { name: "Kite rouge", color: 0xe53935 },
+  { name: "Kite vert", color: 0x43a047 },
+];
 
 export class Simulation {
   private renderManager: RenderManager;
   private debugRenderer: DebugRenderer;
-  private physicsEngine!: PhysicsEngine;
-  private inputHandler: InputHandler;
+  private core!: HeadlessSimulation;
+  private rigs!: MultiKiteSimulation;
+  private rigViews: KiteRigView[] = [];
+  private inputHandler = new InputHandler();
+  private keyboardInput!: KeyboardInput;
+  private gamepadInput!: GamepadInput;
+  /** Second pilote : touches J / L et deuxième manette, pour les kites ajoutés */
+  private secondKeyboard!: KeyboardInput;
+  private secondGamepad!: GamepadInput;
+  private autopilot!: Autopilot;
+  private pointerInput: PointerSteeringInput | null = null;
+  private steeringWidget: SteeringWidget | null = null;
   private uiManager!: UIManager;
   private kite!: Kite;
-  private controlBar!: THREE.Group;
   private clock: THREE.Clock;
+  private fixedLoop: FixedTimestepLoop;
   private isPlaying: boolean = true;
-  private leftLine: THREE.Line | null = null;
-  private rightLine: THREE.Line | null = null;
+  private windWindowOverlay = new WindWindowOverlay();
   private frameCount: number = 0;
+  private recorder = new FlightRecorder();
+  private replay: FlightReplay | null = null;
+  private recorderPanel!: RecorderPanel;
+  private telemetryPanel!: TelemetryPanel;
+  private chartPanel!: ChartPanel;
+  private profilePanel!: ProfilePanel;
+  private tuningPanel!: TuningPanel;
+  private gamepadPanel!: GamepadPanel;
+  private keyBindingsPanel!: KeyBindingsPanel;
+  private autopilotPanel!: AutopilotPanel;
+  private windWindowPanel!: WindWindowPanel;
+  private flightEventsPanel!: FlightEventsPanel;
+  private flightEvents = new FlightEventDetector();
+  private outcomePolicy = new FlightOutcomePolicy(() => this.resetSimulation());
+  private trickPanel!: TrickPanel;
+  private rigsPanel!: RigsPanel;
+  private tricks = new TrickRecognizer();
+  // Réglages en vigueur avant le replay, restaurés à sa sortie
+  private preReplaySettings: {
+    config: ConfigSnapshotData;
+    inputs: StepInputs;
+  } | null = null;
 
   constructor() {
     console.log("🚀 Démarrage de la Simulation V8 - Version modulaire");
@@ -38,17 +114,13 @@ export class Simulation {
 
       this.renderManager = new RenderManager(container);
       this.debugRenderer = new DebugRenderer(this.renderManager);
-      this.inputHandler = new InputHandler();
       this.clock = new THREE.Clock();
+      this.fixedLoop = new FixedTimestepLoop();
 
-      this.setupControlBar();
       this.setupKite();
-      this.physicsEngine = new PhysicsEngine(
-        this.kite,
-        this.controlBar.position
-      );
+      this.setupInput();
       this.setupUI();
-      this.createControlLines();
+      this.loadProfileFromURL();
       this.animate();
     } catch (error) {
       console.error(
@@ -60,158 +132,276 @@ export class Simulation {
   }
 
   private setupKite(): void {
-    this.kite = new Kite();
-    const pilot = this.controlBar.position.clone();
-    const initialDistance = CONFIG.lines.defaultLength * 0.95;
-
-    const kiteY = 7;
-    const dy = kiteY - pilot.y;
-    const horizontal = Math.max(
-      0.1,
-      Math.sqrt(Math.max(0, initialDistance * initialDistance - dy * dy))
-    );
-
-    this.kite.position.set(pilot.x, kiteY, pilot.z - horizontal);
-    this.kite.rotation.set(0, 0, 0);
-    this.kite.quaternion.identity();
+    // Le cœur headless possède le kite et le moteur physique,
+    // l'application ne fait que les afficher. Le premier kite est celui du
+    // pilote ; les autres s'ajoutent depuis le panneau des kites
+    this.rigs = new MultiKiteSimulation({ rigs: [{ name: "Votre kite" }] });
+    this.core = this.rigs.getLead();
+    this.kite = this.core.getKite();
+    this.flightEvents.start(this.core);
+    this.flightEvents.addListener((event) => this.outcomePolicy.handle(event));
+    this.tricks.start(this.core);
 
     console.log(
       `📍 Position initiale du kite: ${this.kite.position.toArray()}`
     );
-    this.renderManager.addObject(this.kite);
+    const view = new KiteRigView(this.core);
+    view.addTo(this.renderManager);
+    this.rigViews.push(view);
+    this.renderManager.addObject(this.windWindowOverlay.getObject());
   }
 
-  private setupControlBar(): void {
-    this.controlBar = new THREE.Group();
-    this.controlBar.position.copy(CONFIG.controlBar.position);
-
-    const barGeometry = new THREE.CylinderGeometry(
-      0.02,
-      0.02,
-      CONFIG.controlBar.width
-    );
-    const barMaterial = new THREE.MeshStandardMaterial({
-      color: 0x333333,
-      metalness: 0.7,
-      roughness: 0.3,
-    });
-    const bar = new THREE.Mesh(barGeometry, barMaterial);
-    bar.rotation.z = Math.PI / 2;
-    this.controlBar.add(bar);
-
-    const handleGeometry = new THREE.CylinderGeometry(0.03, 0.03, 0.15);
-    const handleMaterial = new THREE.MeshStandardMaterial({
-      color: 0x8b4513,
-      roughness: 0.6,
-    });
+  /**
+   * Sources d'entrée, de la plus prioritaire à la moins prioritaire :
+   * pilote automatique (engagé), clavier (touche enfoncée), zone tactile
+   * (geste en cours), manette (branchée)
+   */
+  private setupInput(): void {
+    const maxRotation = InputHandler.MAX_BAR_ROTATION;
+    this.autopilot = new Autopilot(this.core);
+    this.inputHandler.addSource(this.autopilot);
+    this.keyboardInput = new KeyboardInput(KeyBindings.load(), maxRotation);
+    this.gamepadInput = new GamepadInput(maxRotation);
+    this.inputHandler.addSource(this.keyboardInput);
+
+    const steeringZone = document.getElementById("steering-widget");
+    if (steeringZone) {
+      this.pointerInput = new PointerSteeringInput(steeringZone, maxRotation);
+      this.steeringWidget = new SteeringWidget(steeringZone, maxRotation);
+      this.inputHandler.addSource(this.pointerInput);
+    }
+    this.inputHandler.addSource(this.gamepadInput);
+    this.rigs.getRig(0).input = this.inputHandler;
 
-    const halfWidth = CONFIG.controlBar.width / 2;
-    const leftHandle = new THREE.Mesh(handleGeometry, handleMaterial);
-    leftHandle.position.set(-halfWidth, 0, 0);
-    this.controlBar.add(leftHandle);
+    this.secondKeyboard = new KeyboardInput(KeyBindings.SECOND_PILOT, maxRotation);
+    this.secondGamepad = new GamepadInput(maxRotation, 1);
+  }
 
-    const rightHandle = new THREE.Mesh(handleGeometry, handleMaterial);
-    rightHandle.position.set(halfWidth, 0, 0);
-    this.controlBar.add(rightHandle);
+  private setupUI(): void {
+    this.uiManager = new UIManager(
+      () => this.core.getPhysicsEngine(),
+      this.debugRenderer,
+      () => this.resetSimulation(),
+      () => this.togglePlayPause()
+    );
 
-    const pilotGeometry = new THREE.BoxGeometry(0.4, 1.6, 0.3);
-    const pilotMaterial = new THREE.MeshStandardMaterial({
-      color: 0x4a4a4a,
-      roughness: 0.8,
+    this.recorderPanel = new RecorderPanel({
+      startRecording: () => this.startRecording(),
+      stopRecording: () => this.recorder.stop(),
+      isRecording: () => this.recorder.isRecording(),
+      getRecordedDuration: () => this.recorder.getDuration(),
+      startReplay: (recording) => this.startReplay(recording),
+      seekReplay: (stepIndex) => this.seekReplay(stepIndex),
+      stopReplay: () => this.stopReplay(),
+      getReplay: () => this.replay,
     });
-    const pilot = new THREE.Mesh(pilotGeometry, pilotMaterial);
-    pilot.position.set(0, 0.8, 8.5);
-    pilot.castShadow = true;
 
-    this.renderManager.addObject(this.controlBar);
-    this.renderManager.addObject(pilot);
-  }
+    this.telemetryPanel = new TelemetryPanel(this.core);
+    this.chartPanel = new ChartPanel(this.core);
 
-  private createControlLines(): void {
-    const lineMaterial = new THREE.LineBasicMaterial({
-      color: 0x333333,
-      linewidth: 2,
+    this.profilePanel = new ProfilePanel({
+      captureProfile: (name) => ConfigProfiles.capture(this.core, name),
+      applyProfile: (profile) => this.applyProfile(profile),
     });
 
-    const leftGeometry = new THREE.BufferGeometry();
-    const rightGeometry = new THREE.BufferGeometry();
-
-    this.leftLine = new THREE.Line(leftGeometry, lineMaterial);
-    this.rightLine = new THREE.Line(rightGeometry, lineMaterial);
+    this.tuningPanel = new TuningPanel(this.core, () =>
+      this.uiManager.refreshControls()
+    );
+    this.gamepadPanel = new GamepadPanel(this.gamepadInput, this.inputHandler);
+    this.keyBindingsPanel = new KeyBindingsPanel(this.keyboardInput);
+    this.autopilotPanel = new AutopilotPanel(this.autopilot);
+    this.windWindowPanel = new WindWindowPanel(
+      this.core,
+      this.windWindowOverlay
+    );
+    this.flightEventsPanel = new FlightEventsPanel(
+      this.core,
+      this.flightEvents,
+      this.outcomePolicy
+    );
+    this.trickPanel = new TrickPanel(this.tricks);
+    this.rigsPanel = new RigsPanel(this.rigs, {
+      addRig: (createInput) => this.addRig(createInput),
+      removeRig: (rig) => this.removeRig(rig),
+      secondKeyboard: this.secondKeyboard,
+      secondGamepad: this.secondGamepad,
+    });
+  }
 
-    this.renderManager.addObject(this.leftLine);
-    this.renderManager.addObject(this.rightLine);
+  /**
+   * Ajoute un kite à côté du premier, piloté dès sa création par la source
+   * choisie dans le panneau. Toute la scène repart d'un reset pour que les
+   * kites voient les mêmes rafales
+   * @returns null s'il n'y a plus de place
+   */
+  private addRig(
+    createInput: (simulation: HeadlessSimulation) => InputSource
+  ): KiteRig | null {
+    const names = new Set(this.rigs.getRigs().map((rig) => rig.name));
+    const slot = RIG_PALETTE.find(({ name }) => !names.has(name));
+    if (!slot) return null;
+
+    const rig = this.rigs.addRig({ name: slot.name });
+    rig.input = createInput(rig.simulation);
+    const view = new KiteRigView(rig.simulation, slot.color);
+    view.addTo(this.renderManager);
+    this.rigViews.push(view);
+    this.resetSimulation();
+    return rig;
   }
 
-  private updateControlLines(): void {
-    if (!this.leftLine || !this.rightLine) return;
+  private removeRig(rig: KiteRig): void {
+    const view = this.rigViews.find(
+      (v) => v.getSimulation() === rig.simulation
+    );
+    view?.removeFrom(this.renderManager);
+    this.rigViews = this.rigViews.filter((v) => v !== view);
+    this.rigs.removeRig(rig);
+  }
 
-    const ctrlLeft = this.kite.getPoint("CTRL_GAUCHE");
-    const ctrlRight = this.kite.getPoint("CTRL_DROIT");
+  /**
+   * Remet chaque kite dans son dernier état physique (annule l'interpolation affichée)
+   */
+  private restoreKites(): void {
+    this.rigViews.forEach((view) => view.restore());
+  }
 
-    if (!ctrlLeft || !ctrlRight) return;
+  /**
+   * Démarre un enregistrement : la simulation repart d'un reset
+   */
+  private startRecording(): void {
+    this.restoreKites();
+    if (!this.restartCore(() => this.recorder.start(this.core))) return;
+    this.afterSimulationRestart();
+    console.log(`⏺️ Enregistrement démarré (graine ${this.core.getSeed()})`);
+  }
 
-    const kiteLeftWorld = ctrlLeft.clone();
-    const kiteRightWorld = ctrlRight.clone();
-    this.kite.localToWorld(kiteLeftWorld);
-    this.kite.localToWorld(kiteRightWorld);
+  /**
+   * Rejoue un vol dans la scène : les entrées clavier sont ignorées jusqu'à la sortie
+   */
+  private startReplay(recording: FlightRecording): FlightReplay {
+    this.recorder.stop();
+    this.restoreKites();
+
+    if (!this.preReplaySettings) {
+      this.preReplaySettings = {
+        config: ConfigSnapshot.capture(this.kite),
+        inputs: this.core.getInputs(),
+      };
+    }
+    this.replay = new FlightReplay(recording, this.core);
+    this.afterSimulationRestart();
+    return this.replay;
+  }
 
-    const handles = this.physicsEngine
-      .getControlBarManager()
-      .getHandlePositions(this.kite.position);
+  private seekReplay(stepIndex: number): void {
+    if (!this.replay) return;
+    // Le seek rejoue la physique : partir de l'état physique, pas de la pose interpolée
+    this.restoreKites();
+    this.replay.seek(stepIndex);
+    this.afterSimulationRestart();
+  }
 
-    const leftPoints = this.physicsEngine
-      .getLineSystem()
-      .calculateCatenary(handles.left, kiteLeftWorld);
-    const rightPoints = this.physicsEngine
-      .getLineSystem()
-      .calculateCatenary(handles.right, kiteRightWorld);
+  private stopReplay(): void {
+    if (!this.replay) return;
+    this.replay = null;
+
+    // Revenir aux réglages de l'utilisateur (ceux affichés par l'UI)
+    if (this.preReplaySettings) {
+      const { config, inputs } = this.preReplaySettings;
+      ConfigSnapshot.apply(config, this.kite);
+      const engine = this.core.getPhysicsEngine();
+      engine.setLineLength(inputs.lineLength);
+      engine.setWindParams(inputs.windParams);
+      engine.setWindScenario(inputs.windScenario);
+      this.preReplaySettings = null;
+    }
+    this.resetSimulation();
+  }
 
-    this.leftLine.geometry.setFromPoints(leftPoints);
-    this.rightLine.geometry.setFromPoints(rightPoints);
+  /**
+   * Applique un profil de configuration : la simulation repart d'un reset
+   */
+  private applyProfile(profile: ConfigProfile): void {
+    if (this.replay) this.stopReplay();
 
-    this.physicsEngine
-      .getControlBarManager()
-      .updateVisual(this.controlBar, this.kite);
+    this.restoreKites();
+    ConfigProfiles.apply(profile, this.core);
+    if (this.recorder.isRecording()) {
+      this.recorder.start(this.core);
+    }
+    this.afterSimulationRestart();
+    this.uiManager.refreshControls();
+    console.log(`🗂️ Profil « ${profile.name} » appliqué`);
   }
 
-  private setupUI(): void {
-    this.uiManager = new UIManager(
-      this.physicsEngine,
-      this.debugRenderer,
-      () => this.resetSimulation(),
-      () => this.togglePlayPause()
-    );
+  /**
+   * Applique le profil partagé par lien (#profile=...), s'il y en a un
+   */
+  private loadProfileFromURL(): void {
+    try {
+      const profile = ConfigProfiles.fromURL(window.location.hash);
+      if (profile) this.applyProfile(profile);
+    } catch (error) {
+      console.error("❌ Profil de l'URL illisible:", error);
+    }
   }
 
   private resetSimulation(): void {
-    const currentLineLength =
-      this.physicsEngine.getLineSystem().lineLength ||
-      CONFIG.lines.defaultLength;
-    const initialDistance = currentLineLength * 0.95;
-
-    const pilot = this.controlBar.position.clone();
-    const kiteY = 7;
-    const dy = kiteY - pilot.y;
-    const horizontal = Math.max(
-      0.1,
-      Math.sqrt(Math.max(0, initialDistance * initialDistance - dy * dy))
-    );
-    this.kite.position.set(pilot.x, kiteY, pilot.z - horizontal);
+    if (this.replay) {
+      this.seekReplay(0);
+      this.replay.play();
+      return;
+    }
 
-    this.kite.rotation.set(0, 0, 0);
-    this.kite.quaternion.identity();
-    this.controlBar.quaternion.identity();
+    this.restoreKites();
+    const restarted = this.restartCore(() => {
+      if (this.recorder.isRecording()) {
+        // Un vol enregistré commence toujours d'un reset : on recommence l'enregistrement
+        this.recorder.start(this.core);
+      } else {
+        this.core.reset();
+      }
+    });
+    if (!restarted) return;
+    this.afterSimulationRestart();
+    console.log(`🔄 Simulation réinitialisée`);
+  }
 
-    this.physicsEngine = new PhysicsEngine(this.kite, this.controlBar.position);
-    this.physicsEngine.setLineLength(currentLineLength);
+  /**
+   * Exécute un redémarrage du cœur ; une configuration invalide est affichée
+   * et la simulation en cours continue avec l'ancien moteur
+   * @returns true si le redémarrage a eu lieu
+   */
+  private restartCore(restart: () => void): boolean {
+    const errorDiv = document.getElementById("error");
+    try {
+      restart();
+    } catch (error) {
+      if (!(error instanceof ConfigValidationError)) throw error;
+      console.error("❌", error.message);
+      if (errorDiv) {
+        errorDiv.textContent = error.message;
+        errorDiv.style.display = "block";
+      }
+      return false;
+    }
+    if (errorDiv) errorDiv.style.display = "none";
+    return true;
+  }
 
-    this.updateControlLines();
-    console.log(`🔄 Simulation réinitialisée`);
+  private afterSimulationRestart(): void {
+    // Les autres kites repartent avec le premier
+    this.rigs.synchronize();
+    this.rigViews.forEach((view) => view.snap());
+    this.fixedLoop.reset();
   }
 
   private togglePlayPause(): void {
     this.isPlaying = !this.isPlaying;
+    // Ne pas rattraper le temps passé en pause
+    this.clock.getDelta();
+    this.fixedLoop.reset();
     this.uiManager.updatePlayButton(this.isPlaying);
   }
 
@@ -222,13 +412,52 @@ export class Simulation {
 
     if (this.isPlaying) {
       try {
-        const deltaTime = this.clock.getDelta();
-        this.inputHandler.update(deltaTime);
-        const targetRotation = this.inputHandler.getTargetBarRotation();
-
-        this.physicsEngine.update(deltaTime, targetRotation, false);
-        this.updateControlLines();
-        this.debugRenderer.updateDebugArrows(this.kite, this.physicsEngine);
+        const frameDelta = this.clock.getDelta();
+
+        // Physique à pas fixe : l'état affiché est interpolé entre les deux derniers pas
+        this.restoreKites();
+        if (this.replay) {
+          // Replay : les entrées enregistrées remplacent le clavier,
+          // seul le premier kite rejoue, les autres attendent
+          this.replay.advance(frameDelta, () =>
+            this.rigViews.forEach((view) => view.beforeStep())
+          );
+          const alpha = this.replay.getAlpha();
+          this.rigViews.forEach((view) => view.present(alpha));
+        } else {
+          this.rigs.applyInputs(frameDelta);
+          this.fixedLoop.advance(frameDelta, (fixedDelta) => {
+            this.rigViews.forEach((view) => view.beforeStep());
+            this.rigs.step(fixedDelta);
+          });
+          const alpha = this.fixedLoop.getAlpha();
+          this.rigViews.forEach((view) => view.present(alpha));
+          // Reset automatique après un crash, selon la politique choisie
+          this.outcomePolicy.update(this.core.getTime());
+        }
+
+        this.rigViews.forEach((view) => view.update());
+        this.debugRenderer.updateDebugArrows(
+          this.kite,
+          this.core.getLastFrame()
+        );
+        this.recorderPanel.update();
+        this.telemetryPanel.update();
+        this.chartPanel.update();
+        this.tuningPanel.update();
+        this.gamepadPanel.update();
+        this.autopilotPanel.update();
+        this.windWindowPanel.update();
+        this.flightEventsPanel.update();
+        this.trickPanel.update();
+        this.rigsPanel.update();
+        this.steeringWidget?.update(
+          this.replay
+            ? this.core.getBarRotation()
+            : this.inputHandler.getTargetBarRotation(),
+          this.core.getLastFrame()?.barRotation ?? 0,
+          this.pointerInput?.isDragging() ?? false
+        );
       } catch (error) {
         console.error("❌ Erreur dans la boucle d'animation:", error);
         this.isPlaying = false;
@@ -244,22 +473,11 @@ export class Simulation {
 
     this.debugRenderer.clearDebugArrows();
 
-    if (this.leftLine) {
-      this.renderManager.removeObject(this.leftLine);
-      this.leftLine = null;
-    }
-    if (this.rightLine) {
-      this.renderManager.removeObject(this.rightLine);
-      this.rightLine = null;
-    }
+    this.rigViews.forEach((view) => view.removeFrom(this.renderManager));
+    this.rigViews = [];
 
-    if (this.kite) {
-      this.renderManager.removeObject(this.kite);
-    }
-
-    if (this.controlBar) {
-      this.renderManager.removeObject(this.controlBar);
-    }
+    this.renderManager.removeObject(this.windWindowOverlay.getObject());
+    this.windWindowOverlay.dispose();
 
     console.log("✅ Simulation nettoyée");
   }
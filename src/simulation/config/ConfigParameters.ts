@@ -0,0 +1,677 @@
+/**
+ * ConfigParameters.ts - Métadonnées et accès aux paramètres réglables
+ *
+ * Rôle :
+ *   - Décrit chaque valeur scalaire de CONFIG et chaque longueur de bride :
+ *     libellé, unité, plage, pas, description, moment où le changement prend effet
+ *   - Lit et écrit un paramètre par son chemin ("physics.gravity", "bridles.nez")
+ *   - Conserve les valeurs par défaut (CONFIG au chargement du module)
+ *   - Refuse un changement qui rendrait la configuration invalide
+ *
+ * Moment d'application (voir ParameterApplyMode) :
+ *   - "live" : lu à chaque pas (CONFIG.physics, aero, wind.*, kite.mass…)
+ *   - "reset" : lu à la création des lignes (LineFactory), donc au prochain reset
+ *   - "startup" : lu une seule fois (boucle à pas fixe, rendu, position de la barre,
+ *     valeurs initiales des curseurs) : affiché en lecture seule
+ *
+ * La forme du tenseur d'inertie (Matrix3) découle de la géométrie et n'est pas
+ * exposée : « Inertie » en règle l'échelle (voir KiteController).
+ *
+ * Relation avec les fichiers adjacents :
+ *   - SimulationConfig.ts : Objet CONFIG lu et modifié
+ *   - ConfigValidator.ts : Contrôle de la configuration après chaque changement
+ *   - PointFactory.ts : Longueurs de brides par défaut
+ *
+ * Utilisation typique :
+ *   const issues = ConfigParameters.set("aero.liftScale", 1.2, kite);
+ *   ConfigParameters.reset("aero.liftScale", kite);
+ *
+ * Voir aussi :
+ *   - src/simulation/types/ParameterTypes.ts
+ *   - src/simulation/ui/TuningPanel.ts
+ */
+import { Kite } from "../../objects/organic/Kite";
+import { PointFactory } from "../../factories/PointFactory";
+import { IntegratorFactory } from "../physics/integrators/IntegratorFactory";
+import { ConfigIssue, ParameterMetadata, ParameterValue } from "../types";
+import { BridleLengths } from "../types/BridleTypes";
+import { CONFIG } from "./SimulationConfig";
+import { ConfigValidator } from "./ConfigValidator";
+
+const BRIDLE_PREFIX = "bridles.";
+
+const PARAMETERS: ReadonlyArray<ParameterMetadata> = [
+  // === Physique ===
+  {
+    kind: "number",
+    path: "physics.gravity",
+    label: "Gravité",
+    unit: "m/s²",
+    min: 0.5,
+    max: 20,
+    step: 0.01,
+    apply: "live",
+    description: "Accélération de la pesanteur",
+  },
+  {
+    kind: "number",
+    path: "physics.airDensity",
+    label: "Densité de l'air",
+    unit: "kg/m³",
+    min: 0.5,
+    max: 1.5,
+    step: 0.005,
+    apply: "live",
+    description: "Masse volumique de l'air : portance et traînée y sont proportionnelles",
+  },
+  {
+    kind: "number",
+    path: "physics.deltaTimeMax",
+    label: "Pas max",
+    unit: "s",
+    min: 0.005,
+    max: 0.05,
+    step: 0.001,
+    apply: "live",
+    description: "Pas maximal accepté par PhysicsEngine.update (garde-fou de stabilité)",
+  },
+  {
+    kind: "number",
+    path: "physics.fixedTimeStep",
+    label: "Pas fixe",
+    unit: "s",
+    min: 0.004,
+    max: 0.05,
+    step: 0.001,
+    apply: "startup",
+    description: "Pas physique de la boucle à pas fixe, choisi à sa création",
+  },
+  {
+    kind: "number",
+    path: "physics.maxSubSteps",
+    label: "Sous-pas max",
+    unit: "",
+    min: 1,
+    max: 20,
+    step: 1,
+    apply: "startup",
+    description: "Nombre maximal de pas physiques par frame affichée",
+  },
+  {
+    kind: "number",
+    path: "physics.angularDampingRate",
+    label: "Amortissement angulaire",
+    unit: "s⁻¹",
+    min: 0,
+    max: 30,
+    step: 0.1,
+    apply: "live",
+    description: "Taux k de ω(t+dt) = ω(t)·e^(-k·dt)",
+  },
+  {
+    kind: "number",
+    path: "physics.linearDampingRate",
+    label: "Amortissement linéaire",
+    unit: "s⁻¹",
+    min: 0,
+    max: 30,
+    step: 0.1,
+    apply: "live",
+    description: "Taux k de v(t+dt) = v(t)·e^(-k·dt)",
+  },
+  {
+    kind: "number",
+    path: "physics.forceSmoothingTime",
+    label: "Lissage des forces",
+    unit: "s",
+    min: 0,
+    max: 0.2,
+    step: 0.005,
+    apply: "live",
+    description: "Constante de temps du filtre passe-bas sur forces et couple",
+  },
+  {
+    kind: "enum",
+    path: "physics.integrator",
+    label: "Intégrateur",
+    options: IntegratorFactory.AVAILABLE.map(({ type, label }) => ({
+      value: type,
+      label,
+    })),
+    apply: "live",
+    description: "Schéma d'intégration du corps rigide",
+  },
+  {
+    kind: "number",
+    path: "physics.angularDragCoeff",
+    label: "Traînée angulaire",
+    unit: "",
+    min: 0,
+    max: 1,
+    step: 0.01,
+    apply: "live",
+    description: "Amortissement rotationnel artificiel, en plus de celui dû au vent apparent",
+  },
+
+  // === Aérodynamique ===
+  {
+    kind: "number",
+    path: "aero.liftScale",
+    label: "Échelle de portance",
+    unit: "×",
+    min: 0,
+    max: 2,
+    step: 0.05,
+    apply: "live",
+    description: "Multiplicateur du coefficient de portance",
+  },
+  {
+    kind: "number",
+    path: "aero.dragScale",
+    label: "Échelle de traînée",
+    unit: "×",
+    min: 0,
+    max: 2,
+    step: 0.05,
+    apply: "live",
+    description: "Multiplicateur du coefficient de traînée",
+  },
+
+  // === Kite ===
+  {
+    kind: "number",
+    path: "kite.mass",
+    label: "Masse",
+    unit: "kg",
+    min: 0.05,
+    max: 1,
+    step: 0.001,
+    apply: "live",
+    description: "Masse du kite (calculée depuis la géométrie par défaut ; l'inertie se règle à part)",
+  },
+  {
+    kind: "number",
+    path: "kite.area",
+    label: "Surface",
+    unit: "m²",
+    min: 0.1,
+    max: 5,
+    step: 0.01,
+    apply: "startup",
+    description: "Surface totale, calculée depuis la géométrie (les forces sont calculées par surface)",
+  },
+  {
+    kind: "number",
+    path: "kite.inertia",
+    label: "Inertie",
+    unit: "kg·m²",
+    min: 0.001,
+    max: 0.2,
+    step: 0.001,
+    apply: "live",
+    description: "Moment d'inertie : échelle du tenseur des équations d'Euler et inertie du solveur de contraintes",
+  },
+  {
+    kind: "number",
+    path: "kite.minHeight",
+    label: "Hauteur min",
+    unit: "m",
+    min: 0,
+    max: 5,
+    step: 0.1,
+    apply: "live",
+    description: "Altitude minimale imposée par le solveur (le sol)",
+  },
+
+  // === Lignes ===
+  {
+    kind: "number",
+    path: "lines.defaultLength",
+    label: "Longueur initiale",
+    unit: "m",
+    min: 5,
+    max: 50,
+    step: 1,
+    apply: "startup",
+    description: "Longueur des lignes au démarrage (réglable ensuite avec le curseur de ligne)",
+  },
+  {
+    kind: "number",
+    path: "lines.stiffness",
+    label: "Rigidité",
+    unit: "N/m",
+    min: 100,
+    max: 10000,
+    step: 50,
+    apply: "reset",
+    description: "Rigidité axiale EA/L des lignes",
+  },
+  {
+    kind: "number",
+    path: "lines.preTension",
+    label: "Pré-tension",
+    unit: "N",
+    min: 0,
+    max: 300,
+    step: 5,
+    apply: "reset",
+    description: "Tension minimale toujours présente",
+  },
+  {
+    kind: "number",
+    path: "lines.maxTension",
+    label: "Tension max",
+    unit: "N",
+    min: 100,
+    max: 3000,
+    step: 10,
+    apply: "reset",
+    description: "Tension maximale avant rupture",
+  },
+  {
+    kind: "number",
+    path: "lines.dampingCoeff",
+    label: "Amortissement",
+    unit: "",
+    min: 0,
+    max: 1,
+    step: 0.01,
+    apply: "reset",
+    description: "Coefficient d'amortissement interne des lignes",
+  },
+  {
+    kind: "number",
+    path: "lines.linearMassDensity",
+    label: "Masse linéique",
+    unit: "kg/m",
+    min: 0,
+    max: 0.005,
+    step: 0.0001,
+    apply: "reset",
+    description: "Masse par mètre de ligne, pour le calcul de la caténaire",
+  },
+
+  // === Vent ===
+  {
+    kind: "number",
+    path: "wind.defaultSpeed",
+    label: "Vitesse initiale",
+    unit: "km/h",
+    min: 0,
+    max: 100,
+    step: 1,
+    apply: "startup",
+    description: "Vitesse du vent au démarrage (réglable ensuite avec le curseur de vent)",
+  },
+  {
+    kind: "number",
+    path: "wind.defaultDirection",
+    label: "Direction initiale",
+    unit: "°",
+    min: 0,
+    max: 360,
+    step: 1,
+    apply: "startup",
+    description: "Direction du vent au démarrage",
+  },
+  {
+    kind: "number",
+    path: "wind.defaultTurbulence",
+    label: "Turbulence initiale",
+    unit: "%",
+    min: 0,
+    max: 100,
+    step: 1,
+    apply: "startup",
+    description: "Turbulence au démarrage",
+  },
+  {
+    kind: "enum",
+    path: "wind.profile",
+    label: "Profil vertical",
+    options: [
+      { value: "uniform", label: "Uniforme" },
+      { value: "log", label: "Logarithmique" },
+      { value: "power", label: "Loi de puissance" },
+    ],
+    apply: "live",
+    description: "Variation de la vitesse du vent avec l'altitude",
+  },
+  {
+    kind: "number",
+    path: "wind.referenceHeight",
+    label: "Hauteur de référence",
+    unit: "m",
+    min: 1,
+    max: 50,
+    step: 0.5,
+    apply: "live",
+    description: "Hauteur à laquelle s'applique la vitesse affichée",
+  },
+  {
+    kind: "number",
+    path: "wind.roughnessLength",
+    label: "Rugosité z0",
+    unit: "m",
+    min: 0.0002,
+    max: 1,
+    step: 0.0001,
+    apply: "live",
+    description: "Longueur de rugosité (0.0002 mer, 0.03 herbe rase, 0.1 cultures)",
+  },
+  {
+    kind: "number",
+    path: "wind.powerLawExponent",
+    label: "Exposant α",
+    unit: "",
+    min: 0.05,
+    max: 0.5,
+    step: 0.01,
+    apply: "live",
+    description: "Exposant du profil en loi de puissance",
+  },
+  {
+    kind: "number",
+    path: "wind.horizontalWavelength",
+    label: "Longueur d'onde",
+    unit: "m",
+    min: 0,
+    max: 500,
+    step: 5,
+    apply: "live",
+    description: "Longueur d'onde des variations horizontales (0 = champ homogène)",
+  },
+  {
+    kind: "number",
+    path: "wind.horizontalSpeedVariation",
+    label: "Variation de vitesse",
+    unit: "",
+    min: 0,
+    max: 0.5,
+    step: 0.01,
+    apply: "live",
+    description: "Amplitude relative des variations horizontales de vitesse",
+  },
+  {
+    kind: "number",
+    path: "wind.horizontalDirectionVariation",
+    label: "Variation de direction",
+    unit: "°",
+    min: 0,
+    max: 30,
+    step: 0.5,
+    apply: "live",
+    description: "Amplitude des variations horizontales de direction",
+  },
+  {
+    kind: "number",
+    path: "wind.turbulenceMaxIntensity",
+    label: "Intensité max",
+    unit: "σu/U",
+    min: 0,
+    max: 1,
+    step: 0.01,
+    apply: "live",
+    description: "Intensité de turbulence quand le curseur est à 100%",
+  },
+  {
+    kind: "number",
+    path: "wind.turbulenceVerticalRatio",
+    label: "Ratio vertical",
+    unit: "σw/σu",
+    min: 0,
+    max: 1,
+    step: 0.05,
+    apply: "live",
+    description: "Part verticale de la turbulence",
+  },
+  {
+    kind: "number",
+    path: "wind.turbulenceLengthScale",
+    label: "Échelle horizontale",
+    unit: "m",
+    min: 5,
+    max: 300,
+    step: 5,
+    apply: "live",
+    description: "Échelle de longueur des rafales horizontales (Dryden)",
+  },
+  {
+    kind: "number",
+    path: "wind.turbulenceVerticalLengthScale",
+    label: "Échelle verticale",
+    unit: "m",
+    min: 1,
+    max: 100,
+    step: 1,
+    apply: "live",
+    description: "Échelle de longueur des rafales verticales (Dryden)",
+  },
+  {
+    kind: "number",
+    path: "wind.turbulenceSeed",
+    label: "Graine",
+    unit: "",
+    min: 0,
+    max: 9999,
+    step: 1,
+    apply: "startup",
+    description: "Graine par défaut des rafales (la graine courante passe par les profils)",
+  },
+
+  // === Barre ===
+  {
+    kind: "number",
+    path: "controlBar.width",
+    label: "Largeur",
+    unit: "m",
+    min: 0.3,
+    max: 1,
+    step: 0.01,
+    apply: "live",
+    description: "Écart des attaches de lignes sur la barre (la barre affichée garde sa taille)",
+  },
+  ...(["x", "y", "z"] as const).map(
+    (axis): ParameterMetadata => ({
+      kind: "number",
+      path: `controlBar.position.${axis}`,
+      label: `Position ${axis.toUpperCase()}`,
+      unit: "m",
+      min: -20,
+      max: 20,
+      step: 0.1,
+      apply: "startup",
+      description: "Position du pilote, fixée à la création de la scène",
+    })
+  ),
+
+  // === Brides ===
+  ...(
+    [
+      ["nez", "NEZ"],
+      ["inter", "INTER"],
+      ["centre", "CENTRE"],
+    ] as const
+  ).map(
+    ([key, name]): ParameterMetadata => ({
+      kind: "number",
+      path: `${BRIDLE_PREFIX}${key}`,
+      label: `Bride ${name}`,
+      unit: "m",
+      min: 0.2,
+      max: 1.5,
+      step: 0.01,
+      apply: "live",
+      description: `Longueur de la bride ${name} (les points de contrôle sont recalculés)`,
+    })
+  ),
+
+  // === Rendu ===
+  {
+    kind: "number",
+    path: "rendering.shadowMapSize",
+    label: "Carte d'ombres",
+    unit: "px",
+    min: 256,
+    max: 8192,
+    step: 256,
+    apply: "startup",
+    description: "Résolution de la carte d'ombres",
+  },
+  {
+    kind: "boolean",
+    path: "rendering.antialias",
+    label: "Anticrénelage",
+    apply: "startup",
+    description: "Anticrénelage du rendu WebGL",
+  },
+  {
+    kind: "number",
+    path: "rendering.fogStart",
+    label: "Début du brouillard",
+    unit: "m",
+    min: 0,
+    max: 1000,
+    step: 10,
+    apply: "startup",
+    description: "Distance où commence le brouillard",
+  },
+  {
+    kind: "number",
+    path: "rendering.fogEnd",
+    label: "Fin du brouillard",
+    unit: "m",
+    min: 10,
+    max: 5000,
+    step: 10,
+    apply: "startup",
+    description: "Distance où le brouillard devient opaque",
+  },
+  {
+    kind: "boolean",
+    path: "debugVectors",
+    label: "Vecteurs de debug",
+    apply: "startup",
+    description: "État initial du mode debug (basculable ensuite avec le bouton Debug)",
+  },
+];
+
+/** Valeurs de CONFIG au chargement du module (avant tout réglage) */
+const DEFAULTS = new Map<string, ParameterValue>(
+  PARAMETERS.filter(({ path }) => !path.startsWith(BRIDLE_PREFIX)).map(
+    ({ path }) => [path, readConfig(path)]
+  )
+);
+
+function readConfig(path: string): ParameterValue {
+  return path
+    .split(".")
+    .reduce<unknown>(
+      (node, key) => (node as Record<string, unknown>)[key],
+      CONFIG
+    ) as ParameterValue;
+}
+
+function writeConfig(path: string, value: ParameterValue): void {
+  const keys = path.split(".");
+  const last = keys.pop()!;
+  const parent = keys.reduce<Record<string, unknown>>(
+    (node, key) => node[key] as Record<string, unknown>,
+    CONFIG as unknown as Record<string, unknown>
+  );
+  parent[last] = value;
+}
+
+/**
+ * Paramètres réglables
+ */
+export class ConfigParameters {
+  static readonly ALL = PARAMETERS;
+
+  /**
+   * @throws Error si le chemin n'est pas un paramètre connu
+   */
+  static get(path: string): ParameterMetadata {
+    const parameter = PARAMETERS.find((p) => p.path === path);
+    if (!parameter) {
+      throw new Error(`Paramètre inconnu: ${path}`);
+    }
+    return parameter;
+  }
+
+  /**
+   * Valeur courante (CONFIG ou brides du kite)
+   */
+  static read(path: string, kite: Kite): ParameterValue {
+    this.get(path);
+    if (path.startsWith(BRIDLE_PREFIX)) {
+      return kite.getBridleLengths()[this.bridleKey(path)];
+    }
+    return readConfig(path);
+  }
+
+  static getDefault(path: string): ParameterValue {
+    this.get(path);
+    if (path.startsWith(BRIDLE_PREFIX)) {
+      return PointFactory.DEFAULT_BRIDLE_LENGTHS[this.bridleKey(path)];
+    }
+    return DEFAULTS.get(path)!;
+  }
+
+  static isDefault(path: string, kite: Kite): boolean {
+    return this.read(path, kite) === this.getDefault(path);
+  }
+
+  /**
+   * Modifie un paramètre puis revalide la configuration : si le changement
+   * introduit une erreur, l'ancienne valeur est rétablie.
+   * Les paramètres "startup" sont refusés (ils ne seraient jamais relus).
+   *
+   * @returns Les erreurs qui ont fait refuser le changement (vide si accepté)
+   */
+  static set(path: string, value: ParameterValue, kite: Kite): ConfigIssue[] {
+    const parameter = this.get(path);
+    if (parameter.apply === "startup") {
+      return [
+        {
+          path,
+          message: "fixé au chargement, non modifiable en cours de simulation",
+          severity: "error",
+        },
+      ];
+    }
+
+    const errorsOf = () =>
+      ConfigValidator.validate(kite).filter(
+        (issue) => issue.severity === "error"
+      );
+    const failing = new Set(errorsOf().map((issue) => issue.path));
+    const previous = this.read(path, kite);
+
+    this.write(path, value, kite);
+    const introduced = errorsOf().filter((issue) => !failing.has(issue.path));
+    if (introduced.length > 0) {
+      this.write(path, previous, kite);
+    }
+    return introduced;
+  }
+
+  /**
+   * Remet un paramètre à sa valeur par défaut
+   */
+  static reset(path: string, kite: Kite): ConfigIssue[] {
+    return this.set(path, this.getDefault(path), kite);
+  }
+
+  private static write(path: string, value: ParameterValue, kite: Kite): void {
+    if (path.startsWith(BRIDLE_PREFIX)) {
+      kite.setBridleLengths({ [this.bridleKey(path)]: value as number });
+    } else {
+      writeConfig(path, value);
+    }
+  }
+
+  private static bridleKey(path: string): keyof BridleLengths {
+    return path.slice(BRIDLE_PREFIX.length) as keyof BridleLengths;
+  }
+}
@@ -0,0 +1,248 @@
+/**
+ * ConfigProfiles.ts - Profils de configuration : capture, partage et comparaison
+ *
+ * Rôle :
+ *   - Capture les réglages courants (CONFIG, brides) et le contexte de vol
+ *     (ligne, vent, scénario, graine) dans un ConfigProfile
+ *   - Réapplique un profil à une simulation
+ *   - Sérialise en JSON (fichier), en fragment d'URL (#profile=...) et dans localStorage
+ *   - Compare deux profils valeur par valeur
+ *
+ * Un profil contient tout ce qu'il faut pour reproduire « le réglage où ça se
+ * comporte mal » : l'appliquer puis faire un reset redonne le même vol.
+ *
+ * Relation avec les fichiers adjacents :
+ *   - ConfigSnapshot.ts : Capture/application des sections de CONFIG et des brides
+ *   - ConfigValidator.ts : Un profil invalide est refusé avant toute modification
+ *   - HeadlessSimulation.ts : Simulation lue et modifiée
+ *
+ * Utilisation typique :
+ *   const profile = ConfigProfiles.capture(sim, "rafales-instables");
+ *   const link = ConfigProfiles.toURL(profile, location.href);
+ *   ConfigProfiles.apply(ConfigProfiles.fromURL(link)!, otherSim);
+ *   ConfigProfiles.diff(profileA, profileB);
+ *
+ * Voir aussi :
+ *   - src/simulation/types/ProfileTypes.ts
+ *   - src/simulation/ui/ProfilePanel.ts
+ */
+import { HeadlessSimulation } from "../HeadlessSimulation";
+import { WindScenarioPlayer } from "../physics/WindScenarioPlayer";
+import { ConfigProfile, ConfigDiffEntry, WindScenario } from "../types";
+import { ConfigSnapshot } from "./ConfigSnapshot";
+import { ConfigValidator } from "./ConfigValidator";
+
+/** Clé localStorage des profils sauvegardés (objet nom → profil) */
+const STORAGE_KEY = "kite-simulator.profiles";
+/** Paramètre du fragment d'URL portant un profil */
+const URL_PARAM = "profile";
+
+/**
+ * Profils de configuration
+ */
+export class ConfigProfiles {
+  /**
+   * Capture les réglages courants de la simulation
+   */
+  static capture(simulation: HeadlessSimulation, name: string): ConfigProfile {
+    const inputs = simulation.getInputs();
+    return {
+      version: 1,
+      name,
+      createdAt: new Date().toISOString(),
+      config: ConfigSnapshot.capture(simulation.getKite()),
+      lineLength: inputs.lineLength,
+      windParams: inputs.windParams,
+      windScenario: inputs.windScenario,
+      seed: simulation.getSeed(),
+    };
+  }
+
+  /**
+   * Applique un profil puis remet la simulation à zéro avec sa graine
+   * Tout est vérifié avant la première modification : un profil refusé laisse
+   * CONFIG, le kite et la simulation intacts.
+   * @throws ConfigValidationError si un réglage est invalide
+   * @throws Error si le scénario de vent est illisible
+   */
+  static apply(profile: ConfigProfile, simulation: HeadlessSimulation): void {
+    if (profile.windScenario) WindScenarioPlayer.parse(profile.windScenario);
+    ConfigValidator.assertValid([
+      ...ConfigValidator.validateSnapshot(profile.config, simulation.getKite()),
+      ...ConfigValidator.validateFlightSetup(profile.lineLength, profile.windParams),
+    ]);
+
+    ConfigSnapshot.apply(profile.config, simulation.getKite());
+
+    const engine = simulation.getPhysicsEngine();
+    engine.setLineLength(profile.lineLength);
+    engine.setWindParams(profile.windParams);
+    engine.setWindScenario(profile.windScenario);
+    simulation.reset(profile.seed);
+  }
+
+  static serialize(profile: ConfigProfile): string {
+    return JSON.stringify(profile, null, 2);
+  }
+
+  /**
+   * Relit un profil JSON (fichier importé, lien : contenu non fiable)
+   * Seule la forme est vérifiée ici ; les valeurs le sont par apply().
+   * @throws Error si le contenu n'est pas un profil valide
+   */
+  static parse(text: string): ConfigProfile {
+    const data = JSON.parse(text) as Partial<ConfigProfile>;
+    if (!data || data.version !== 1) {
+      throw new Error("Profil invalide : version non supportée");
+    }
+    if (typeof data.name !== "string" || !data.config) {
+      throw new Error("Profil invalide : nom ou réglages manquants");
+    }
+    const configError = ConfigSnapshot.findShapeError(data.config);
+    if (configError) {
+      throw new Error(`Profil invalide : ${configError}`);
+    }
+    if (
+      !Number.isFinite(data.lineLength) ||
+      !data.windParams ||
+      typeof data.windParams !== "object"
+    ) {
+      throw new Error("Profil invalide : ligne ou vent manquants");
+    }
+    if (!Number.isFinite(data.seed)) {
+      throw new Error("Profil invalide : graine manquante");
+    }
+    return {
+      ...data,
+      windScenario: this.parseScenario(data.windScenario),
+    } as ConfigProfile;
+  }
+
+  private static parseScenario(scenario: unknown): WindScenario | null {
+    if (scenario === undefined || scenario === null) return null;
+    try {
+      return WindScenarioPlayer.parse(scenario);
+    } catch (error) {
+      throw new Error(`Profil invalide : ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Lien vers `baseUrl` portant le profil dans le fragment (#profile=...)
+   */
+  static toURL(profile: ConfigProfile, baseUrl: string): string {
+    const url = new URL(baseUrl);
+    url.hash = `${URL_PARAM}=${this.encodeBase64Url(JSON.stringify(profile))}`;
+    return url.toString();
+  }
+
+  /**
+   * Profil porté par une URL ou un fragment (null si absent)
+   * @throws Error si le fragment contient un profil illisible
+   */
+  static fromURL(urlOrHash: string): ConfigProfile | null {
+    const hash = urlOrHash.includes("#")
+      ? urlOrHash.slice(urlOrHash.indexOf("#") + 1)
+      : urlOrHash;
+    const encoded = new URLSearchParams(hash).get(URL_PARAM);
+    if (!encoded) return null;
+    return this.parse(this.decodeBase64Url(encoded));
+  }
+
+  /**
+   * Noms des profils sauvegardés dans le navigateur
+   */
+  static listStored(): string[] {
+    return Object.keys(this.readStorage()).sort();
+  }
+
+  static loadStored(name: string): ConfigProfile | null {
+    const stored = this.readStorage()[name];
+    return stored ? this.parse(JSON.stringify(stored)) : null;
+  }
+
+  /**
+   * Sauvegarde (ou remplace) un profil sous son nom
+   */
+  static store(profile: ConfigProfile): void {
+    const profiles = this.readStorage();
+    profiles[profile.name] = profile;
+    this.writeStorage(profiles);
+  }
+
+  static removeStored(name: string): void {
+    const profiles = this.readStorage();
+    delete profiles[name];
+    this.writeStorage(profiles);
+  }
+
+  /**
+   * Valeurs qui diffèrent entre deux profils (le nom et la date sont ignorés,
+   * les scénarios de vent sont comparés par leur nom)
+   */
+  static diff(a: ConfigProfile, b: ConfigProfile): ConfigDiffEntry[] {
+    const flatA = this.flatten(this.comparable(a));
+    const flatB = this.flatten(this.comparable(b));
+    const paths = new Set([...flatA.keys(), ...flatB.keys()]);
+
+    return [...paths]
+      .filter((path) => !Object.is(flatA.get(path), flatB.get(path)))
+      .sort()
+      .map((path) => ({ path, before: flatA.get(path), after: flatB.get(path) }));
+  }
+
+  private static comparable(profile: ConfigProfile): object {
+    const { name: _name, createdAt: _createdAt, windScenario, ...rest } = profile;
+    return { ...rest, windScenario: windScenario?.name ?? null };
+  }
+
+  /**
+   * Aplatit un objet JSON en chemins "a.b.0.c" → valeur
+   */
+  private static flatten(
+    value: unknown,
+    prefix = "",
+    into = new Map<string, unknown>()
+  ): Map<string, unknown> {
+    if (value !== null && typeof value === "object") {
+      Object.entries(value).forEach(([key, child]) =>
+        this.flatten(child, prefix ? `${prefix}.${key}` : key, into)
+      );
+    } else {
+      into.set(prefix, value);
+    }
+    return into;
+  }
+
+  private static readStorage(): Record<string, ConfigProfile> {
+    if (typeof localStorage === "undefined") return {};
+    try {
+      return JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "{}");
+    } catch (error) {
+      console.warn("⚠️ Profils sauvegardés illisibles, ignorés:", error);
+      return {};
+    }
+  }
+
+  private static writeStorage(profiles: Record<string, ConfigProfile>): void {
+    if (typeof localStorage === "undefined") {
+      throw new Error("localStorage indisponible : profils non sauvegardés");
+    }
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(profiles));
+  }
+
+  private static encodeBase64Url(text: string): string {
+    let binary = "";
+    new TextEncoder().encode(text).forEach((byte) => {
+      binary += String.fromCharCode(byte);
+    });
+    return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+  }
+
+  private static decodeBase64Url(encoded: string): string {
+    const base64 = encoded.replace(/-/g, "+").replace(/_/g, "/");
+    const binary = atob(base64);
+    const bytes = Uint8Array.from(binary, (char) => char.charCodeAt(0));
+    return new TextDecoder().decode(bytes);
+  }
+}
@@ -0,0 +1,124 @@
+/**
+ * ConfigSnapshot.ts - Capture et restauration des réglages de la simulation
+ *
+ * Rôle :
+ *   - Copie les valeurs réglables de CONFIG (physics, aero, wind, lines, kite,
+ *     controlBar) et les longueurs de brides du kite dans un objet JSON
+ *   - Réapplique une copie à CONFIG et au kite
+ *   - Vérifie la forme d'une copie relue d'un fichier ou d'un lien
+ *
+ * Seules les valeurs scalaires sont capturées : le tenseur d'inertie (forme issue
+ * de la géométrie) et la position de la barre (fixée au chargement) ne le sont pas.
+ * Les sections kite et controlBar sont absentes des copies antérieures : CONFIG
+ * garde alors ses valeurs courantes.
+ *
+ * Relation avec les fichiers adjacents :
+ *   - SimulationConfig.ts : Objet CONFIG capturé et modifié
+ *   - FlightRecorder.ts / FlightReplay.ts : Enregistrent et rejouent les changements de réglages
+ *
+ * Voir aussi :
+ *   - src/simulation/types/RecordingTypes.ts (ConfigSnapshotData)
+ */
+import { Kite } from "../../objects/organic/Kite";
+import { ConfigSnapshotData } from "../types";
+import { CONFIG } from "./SimulationConfig";
+
+const SECTIONS = [
+  "physics",
+  "aero",
+  "wind",
+  "lines",
+  "kite",
+  "controlBar",
+] as const;
+type Section = (typeof SECTIONS)[number];
+/** Sections présentes dans toutes les copies, y compris les plus anciennes */
+const REQUIRED_SECTIONS: readonly Section[] = ["physics", "aero", "wind", "lines"];
+const BRIDLE_KEYS = ["nez", "inter", "centre"] as const;
+
+/**
+ * Copie JSON des réglages
+ */
+export class ConfigSnapshot {
+  /**
+   * Capture les réglages courants
+   */
+  static capture(kite: Kite): ConfigSnapshotData {
+    const copySection = (section: Section) => {
+      const values: Record<string, number | string> = {};
+      Object.entries(CONFIG[section]).forEach(([key, value]) => {
+        if (typeof value === "number" || typeof value === "string") {
+          values[key] = value;
+        }
+      });
+      return values;
+    };
+
+    return {
+      physics: copySection("physics"),
+      aero: copySection("aero"),
+      wind: copySection("wind"),
+      lines: copySection("lines"),
+      kite: copySection("kite"),
+      controlBar: copySection("controlBar"),
+      bridles: { ...kite.getBridleLengths() },
+    };
+  }
+
+  /**
+   * Réapplique des réglages capturés (les clés inconnues de CONFIG sont ignorées)
+   */
+  static apply(snapshot: ConfigSnapshotData, kite: Kite): void {
+    SECTIONS.forEach((section) => {
+      const target = CONFIG[section] as Record<string, unknown>;
+      Object.entries(snapshot[section] ?? {}).forEach(([key, value]) => {
+        if (key in target && typeof target[key] === typeof value) {
+          target[key] = value;
+        }
+      });
+    });
+    const current = kite.getBridleLengths();
+    const bridlesChanged = (
+      Object.keys(snapshot.bridles) as (keyof typeof current)[]
+    ).some((key) => current[key] !== snapshot.bridles[key]);
+    if (bridlesChanged) {
+      kite.setBridleLengths(snapshot.bridles);
+    }
+  }
+
+  /**
+   * Vérifie la forme d'une copie venue de l'extérieur (fichier, lien) : sections
+   * objets de valeurs scalaires, brides numériques. Les valeurs elles-mêmes sont
+   * vérifiées par ConfigValidator.validateSnapshot.
+   * @returns Le problème trouvé, ou null si la forme est correcte
+   */
+  static findShapeError(value: unknown): string | null {
+    if (!ConfigSnapshot.isRecord(value)) return "réglages manquants";
+
+    for (const section of SECTIONS) {
+      const values = value[section];
+      if (values === undefined && !REQUIRED_SECTIONS.includes(section)) continue;
+      if (!ConfigSnapshot.isRecord(values)) {
+        return `section '${section}' manquante`;
+      }
+      const invalid = Object.keys(values).find(
+        (key) => typeof values[key] !== "number" && typeof values[key] !== "string"
+      );
+      if (invalid) return `'${section}.${invalid}' doit être un nombre ou un texte`;
+    }
+
+    const bridles = value.bridles;
+    if (!ConfigSnapshot.isRecord(bridles)) return "brides manquantes";
+    const invalid = BRIDLE_KEYS.find((key) => typeof bridles[key] !== "number");
+    if (invalid) return `'bridles.${invalid}' doit être un nombre`;
+    return null;
+  }
+
+  static equals(a: ConfigSnapshotData, b: ConfigSnapshotData): boolean {
+    return JSON.stringify(a) === JSON.stringify(b);
+  }
+
+  private static isRecord(value: unknown): value is Record<string, unknown> {
+    return value !== null && typeof value === "object" && !Array.isArray(value);
+  }
+}
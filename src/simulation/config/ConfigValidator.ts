@@ -0,0 +1,379 @@
+/**
+ * ConfigValidator.ts - Validation de la configuration avant le démarrage
+ *
+ * Rôle :
+ *   - Vérifie toute la configuration d'un coup contre un schéma (type, bornes, valeurs permises)
+ *   - Vérifie les contraintes entre valeurs (pas fixe ≤ pas max, pré-tension < tension max,
+ *     tenseur d'inertie physiquement possible, brides trilatérables…)
+ *   - Rapporte chaque problème avec son chemin et un message lisible
+ *
+ * Sans cette validation, une valeur impossible n'apparaît qu'au fond de la boucle
+ * (forces rejetées par KiteController, exception de BridleFactory, CTRL approximé).
+ *
+ * Relation avec les fichiers adjacents :
+ *   - SimulationConfig.ts : Configuration validée
+ *   - HeadlessSimulation.ts : Refuse de (re)démarrer sur une configuration invalide
+ *   - ConfigProfiles.ts : Refuse d'appliquer un profil invalide
+ *   - PointFactory.ts : Trilatération des points de contrôle depuis les brides
+ *
+ * Utilisation typique :
+ *   const issues = ConfigValidator.validate(kite);
+ *   ConfigValidator.assertValid(issues); // lève ConfigValidationError
+ *
+ * Voir aussi :
+ *   - src/simulation/types/ValidationTypes.ts
+ */
+import * as THREE from "three";
+import { Kite } from "../../objects/organic/Kite";
+import { PointFactory } from "../../factories/PointFactory";
+import { IntegratorFactory } from "../physics/integrators/IntegratorFactory";
+import { ConfigIssue, ConfigSnapshotData, WindParams } from "../types";
+import { BridleLengths } from "../types/BridleTypes";
+import { CONFIG } from "./SimulationConfig";
+
+export type SimulationConfigValues = typeof CONFIG;
+
+type FieldRule =
+  | {
+      type: "number";
+      min?: number;
+      max?: number;
+      /** La borne min elle-même est interdite */
+      exclusiveMin?: boolean;
+      integer?: boolean;
+    }
+  | { type: "enum"; values: ReadonlyArray<string> };
+
+const positive: FieldRule = { type: "number", min: 0, exclusiveMin: true };
+const nonNegative: FieldRule = { type: "number", min: 0 };
+const finite: FieldRule = { type: "number" };
+const range = (min: number, max: number): FieldRule => ({
+  type: "number",
+  min,
+  max,
+});
+
+/** Bornes des longueurs de brides (identiques à BridleFactory.validateBridleLengths) */
+const BRIDLE_MIN_LENGTH = 0.2;
+const BRIDLE_MAX_LENGTH = 1.5;
+
+/**
+ * Schéma des valeurs scalaires de CONFIG
+ */
+const SCHEMA: Record<string, Record<string, FieldRule>> = {
+  physics: {
+    gravity: positive,
+    airDensity: positive,
+    deltaTimeMax: positive,
+    fixedTimeStep: positive,
+    maxSubSteps: { type: "number", min: 1, integer: true },
+    angularDampingRate: nonNegative,
+    linearDampingRate: nonNegative,
+    forceSmoothingTime: nonNegative,
+    integrator: {
+      type: "enum",
+      values: IntegratorFactory.AVAILABLE.map(({ type }) => type),
+    },
+    angularDragCoeff: nonNegative,
+  },
+  aero: {
+    liftScale: nonNegative,
+    dragScale: nonNegative,
+  },
+  kite: {
+    mass: positive,
+    area: positive,
+    inertia: positive,
+    minHeight: nonNegative,
+  },
+  lines: {
+    defaultLength: positive,
+    stiffness: positive,
+    preTension: nonNegative,
+    maxTension: positive,
+    dampingCoeff: range(0, 1),
+    linearMassDensity: nonNegative,
+  },
+  wind: {
+    defaultSpeed: nonNegative,
+    defaultDirection: finite,
+    defaultTurbulence: range(0, 100),
+    profile: { type: "enum", values: ["uniform", "log", "power"] },
+    referenceHeight: positive,
+    roughnessLength: positive,
+    powerLawExponent: range(0, 1),
+    horizontalWavelength: nonNegative,
+    horizontalSpeedVariation: { type: "number", min: 0, max: 0.99 },
+    horizontalDirectionVariation: nonNegative,
+    turbulenceMaxIntensity: nonNegative,
+    turbulenceVerticalRatio: nonNegative,
+    turbulenceLengthScale: positive,
+    turbulenceVerticalLengthScale: positive,
+    turbulenceSeed: { type: "number", integer: true },
+  },
+  controlBar: {
+    width: positive,
+  },
+};
+
+/**
+ * Configuration refusée : contient tous les problèmes bloquants
+ */
+export class ConfigValidationError extends Error {
+  constructor(public issues: ConfigIssue[]) {
+    super(
+      `Configuration invalide :\n${issues
+        .map(({ path, message }) => `  - ${path} : ${message}`)
+        .join("\n")}`
+    );
+    this.name = "ConfigValidationError";
+  }
+}
+
+/**
+ * Validateur de configuration
+ */
+export class ConfigValidator {
+  /**
+   * Valide CONFIG (ou une autre configuration) et les brides du kite
+   */
+  static validate(
+    kite: Kite,
+    config: SimulationConfigValues = CONFIG
+  ): ConfigIssue[] {
+    return [
+      ...this.validateConfig(config),
+      ...this.validateBridles(kite.getBridleLengths(), kite),
+    ];
+  }
+
+  /**
+   * Valide des réglages capturés (profil, enregistrement) avant de les appliquer :
+   * ils sont superposés à CONFIG sans le modifier
+   */
+  static validateSnapshot(
+    snapshot: ConfigSnapshotData,
+    kite: Kite
+  ): ConfigIssue[] {
+    const candidate = {
+      ...CONFIG,
+      physics: { ...CONFIG.physics, ...snapshot.physics },
+      aero: { ...CONFIG.aero, ...snapshot.aero },
+      wind: { ...CONFIG.wind, ...snapshot.wind },
+      lines: { ...CONFIG.lines, ...snapshot.lines },
+      kite: { ...CONFIG.kite, ...snapshot.kite },
+      controlBar: { ...CONFIG.controlBar, ...snapshot.controlBar },
+    } as SimulationConfigValues;
+
+    return [
+      ...this.validateConfig(candidate),
+      ...this.validateBridles(snapshot.bridles, kite),
+    ];
+  }
+
+  /**
+   * Valide le contexte de vol (longueur de ligne, paramètres de vent)
+   */
+  static validateFlightSetup(
+    lineLength: number,
+    windParams: WindParams
+  ): ConfigIssue[] {
+    const issues: ConfigIssue[] = [];
+    this.checkField(issues, "lineLength", lineLength, positive);
+    this.checkField(issues, "windParams.speed", windParams.speed, nonNegative);
+    this.checkField(issues, "windParams.direction", windParams.direction, finite);
+    this.checkField(
+      issues,
+      "windParams.turbulence",
+      windParams.turbulence,
+      range(0, 100)
+    );
+    return issues;
+  }
+
+  /**
+   * Lève une ConfigValidationError s'il y a au moins une erreur
+   * (les avertissements sont seulement affichés dans la console)
+   */
+  static assertValid(issues: ConfigIssue[]): void {
+    issues
+      .filter((issue) => issue.severity === "warning")
+      .forEach(({ path, message }) => console.warn(`⚠️ ${path} : ${message}`));
+
+    const errors = issues.filter((issue) => issue.severity === "error");
+    if (errors.length > 0) {
+      throw new ConfigValidationError(errors);
+    }
+  }
+
+  private static validateConfig(config: SimulationConfigValues): ConfigIssue[] {
+    const issues: ConfigIssue[] = [];
+
+    Object.entries(SCHEMA).forEach(([section, fields]) => {
+      const values = (config as Record<string, unknown>)[section] as
+        | Record<string, unknown>
+        | undefined;
+      Object.entries(fields).forEach(([key, rule]) =>
+        this.checkField(issues, `${section}.${key}`, values?.[key], rule)
+      );
+    });
+
+    const { physics, lines, wind, kite, controlBar } = config;
+
+    if (physics.fixedTimeStep > physics.deltaTimeMax) {
+      this.error(
+        issues,
+        "physics.fixedTimeStep",
+        `le pas fixe (${physics.fixedTimeStep}) dépasse le pas max accepté par le moteur (physics.deltaTimeMax = ${physics.deltaTimeMax})`
+      );
+    }
+    if (lines.preTension >= lines.maxTension) {
+      this.error(
+        issues,
+        "lines.preTension",
+        `la pré-tension (${lines.preTension} N) doit rester sous la tension max (lines.maxTension = ${lines.maxTension} N)`
+      );
+    }
+    if (wind.roughnessLength >= wind.referenceHeight) {
+      this.error(
+        issues,
+        "wind.roughnessLength",
+        `la rugosité (${wind.roughnessLength} m) doit être bien inférieure à la hauteur de référence (${wind.referenceHeight} m)`
+      );
+    }
+
+    this.checkInertiaTensor(issues, kite.inertiaTensor);
+
+    if (!controlBar.position.toArray().every(Number.isFinite)) {
+      this.error(issues, "controlBar.position", "coordonnées non finies");
+    }
+
+    return issues;
+  }
+
+  /**
+   * Tenseur symétrique, moments principaux positifs et inégalité triangulaire
+   * (aucun moment ne peut dépasser la somme des deux autres pour un corps réel)
+   */
+  private static checkInertiaTensor(
+    issues: ConfigIssue[],
+    tensor: THREE.Matrix3
+  ): void {
+    const path = "kite.inertiaTensor";
+    const e = tensor.elements;
+    if (!e.every(Number.isFinite)) {
+      this.error(issues, path, "valeurs non finies");
+      return;
+    }
+
+    const scale = Math.max(...e.map(Math.abs));
+    const tolerance = 1e-9 * Math.max(scale, 1e-12);
+    const asymmetric = [
+      [1, 3],
+      [2, 6],
+      [5, 7],
+    ].some(([a, b]) => Math.abs(e[a] - e[b]) > tolerance);
+    if (asymmetric) {
+      this.error(issues, path, "le tenseur doit être symétrique");
+    }
+
+    const [ixx, iyy, izz] = [e[0], e[4], e[8]];
+    if (ixx <= 0 || iyy <= 0 || izz <= 0 || tensor.determinant() <= 0) {
+      this.error(issues, path, "le tenseur doit être défini positif");
+      return;
+    }
+    // Une plaque mince est exactement à la limite (Izz = Ixx + Iyy) : tolérer l'arrondi
+    const slack = 1 + 1e-9;
+    if (
+      ixx > (iyy + izz) * slack ||
+      iyy > (ixx + izz) * slack ||
+      izz > (ixx + iyy) * slack
+    ) {
+      this.error(
+        issues,
+        path,
+        `moments (${ixx.toExponential(2)}, ${iyy.toExponential(2)}, ${izz.toExponential(2)}) impossibles : chacun doit être ≤ somme des deux autres`
+      );
+    }
+  }
+
+  private static validateBridles(
+    bridles: BridleLengths,
+    kite: Kite
+  ): ConfigIssue[] {
+    const issues: ConfigIssue[] = [];
+    const bridleRule = range(BRIDLE_MIN_LENGTH, BRIDLE_MAX_LENGTH);
+    (["nez", "inter", "centre"] as const).forEach((key) =>
+      this.checkField(issues, `bridles.${key}`, bridles[key], bridleRule)
+    );
+    if (issues.length > 0) return issues;
+
+    const depthSquared = PointFactory.calculateControlPointDepthSquared({
+      ...kite.getDimensions(),
+      bridleLengths: bridles,
+    });
+    if (depthSquared < 0) {
+      this.error(
+        issues,
+        "bridles",
+        `les brides NEZ=${bridles.nez} m, INTER=${bridles.inter} m, CENTRE=${bridles.centre} m ne se rejoignent pas : aucun point de contrôle possible (trilatération impossible)`
+      );
+    }
+
+    if (bridles.nez < bridles.inter * 0.8 || bridles.nez < bridles.centre * 0.8) {
+      issues.push({
+        path: "bridles.nez",
+        message: "bride NEZ nettement plus courte que INTER/CENTRE : risque d'instabilité",
+        severity: "warning",
+      });
+    }
+    return issues;
+  }
+
+  private static checkField(
+    issues: ConfigIssue[],
+    path: string,
+    value: unknown,
+    rule: FieldRule
+  ): void {
+    if (value === undefined) {
+      this.error(issues, path, "valeur manquante");
+      return;
+    }
+
+    if (rule.type === "enum") {
+      if (typeof value !== "string" || !rule.values.includes(value)) {
+        this.error(
+          issues,
+          path,
+          `${JSON.stringify(value)} n'est pas une valeur permise (${rule.values.join(", ")})`
+        );
+      }
+      return;
+    }
+
+    if (typeof value !== "number" || !Number.isFinite(value)) {
+      this.error(issues, path, `nombre fini attendu, reçu ${JSON.stringify(value)}`);
+      return;
+    }
+    if (rule.integer && !Number.isInteger(value)) {
+      this.error(issues, path, `entier attendu, reçu ${value}`);
+    }
+    if (rule.min !== undefined) {
+      if (rule.exclusiveMin ? value <= rule.min : value < rule.min) {
+        this.error(
+          issues,
+          path,
+          `${value} doit être ${rule.exclusiveMin ? ">" : "≥"} ${rule.min}`
+        );
+      }
+    }
+    if (rule.max !== undefined && value > rule.max) {
+      this.error(issues, path, `${value} doit être ≤ ${rule.max}`);
+    }
+  }
+
+  private static error(issues: ConfigIssue[], path: string, message: string): void {
+    issues.push({ path, message, severity: "error" });
+  }
+}
@@ -290,6 +290,178 @@ export class KiteGeometry {
 
   /**
    * Moment d'inertie calculé automatiquement
+   * Scalaire conservé pour le solveur de contraintes (PBD) ;
+   * la dynamique de rotation utilise INERTIA_TENSOR
    */
   static readonly INERTIA = KiteGeometry.calculateInertia();
+
+  // ============================================================================
+  // TENSEUR D'INERTIE COMPLET
+  // ============================================================================
+
+  /**
+   * Répartition des accessoires en masses ponctuelles (grammes par point)
+   * La somme par accessoire correspond exactement à MATERIAL_SPECS.accessories
+   */
+  private static readonly ACCESSORY_POINT_MASSES: ReadonlyArray<{
+    point: keyof typeof KiteGeometry.POINTS;
+    grams: number;
+  }> = (() => {
+    const acc = KiteGeometry.MATERIAL_SPECS.accessories;
+    return [
+      // Connecteurs bords d'attaque / struts aux extrémités des ailes
+      { point: "BORD_GAUCHE", grams: acc.connectorsLeadingEdge / 2 },
+      { point: "BORD_DROIT", grams: acc.connectorsLeadingEdge / 2 },
+      // Connecteur T central en bas de l'épine
+      { point: "SPINE_BAS", grams: acc.connectorCenterT },
+      // Connecteurs de struts (4) : extrémités d'ailes et whiskers
+      { point: "BORD_GAUCHE", grams: acc.connectorsStruts / 4 },
+      { point: "BORD_DROIT", grams: acc.connectorsStruts / 4 },
+      { point: "WHISKER_GAUCHE", grams: acc.connectorsStruts / 4 },
+      { point: "WHISKER_DROIT", grams: acc.connectorsStruts / 4 },
+      // Bridage concentré aux points de contrôle
+      { point: "CTRL_GAUCHE", grams: acc.bridleSystem / 2 },
+      { point: "CTRL_DROIT", grams: acc.bridleSystem / 2 },
+      // Renforts aux points de tension de la voile
+      { point: "NEZ", grams: acc.reinforcements / 4 },
+      { point: "BORD_GAUCHE", grams: acc.reinforcements / 4 },
+      { point: "BORD_DROIT", grams: acc.reinforcements / 4 },
+      { point: "SPINE_BAS", grams: acc.reinforcements / 4 },
+    ];
+  })();
+
+  /**
+   * Ajoute m·(|r|²·E - r⊗r) pour une distribution de second moment S = ∫ r⊗r dm
+   * (I = tr(S)·E - S)
+   */
+  private static addSecondMoment(
+    tensor: THREE.Matrix3,
+    secondMoment: THREE.Matrix3
+  ): void {
+    const s = secondMoment.elements;
+    const trace = s[0] + s[4] + s[8];
+    const inertia = new THREE.Matrix3().set(
+      trace - s[0], -s[3], -s[6],
+      -s[1], trace - s[4], -s[7],
+      -s[2], -s[5], trace - s[8]
+    );
+    for (let i = 0; i < 9; i++) {
+      tensor.elements[i] += inertia.elements[i];
+    }
+  }
+
+  /**
+   * Produit extérieur a⊗b multiplié par un facteur
+   */
+  private static outer(
+    a: THREE.Vector3,
+    b: THREE.Vector3,
+    factor: number
+  ): THREE.Matrix3 {
+    return new THREE.Matrix3().set(
+      a.x * b.x, a.x * b.y, a.x * b.z,
+      a.y * b.x, a.y * b.y, a.y * b.z,
+      a.z * b.x, a.z * b.y, a.z * b.z
+    ).multiplyScalar(factor);
+  }
+
+  private static sumMatrices(matrices: THREE.Matrix3[]): THREE.Matrix3 {
+    const sum = new THREE.Matrix3().set(0, 0, 0, 0, 0, 0, 0, 0, 0);
+    matrices.forEach((m) => {
+      for (let i = 0; i < 9; i++) sum.elements[i] += m.elements[i];
+    });
+    return sum;
+  }
+
+  /**
+   * Second moment d'une tige fine homogène de A à B :
+   * S = m·(A⊗A + (A⊗D + D⊗A)/2 + D⊗D/3), D = B - A
+   */
+  private static rodSecondMoment(
+    a: THREE.Vector3,
+    b: THREE.Vector3,
+    mass: number
+  ): THREE.Matrix3 {
+    const d = b.clone().sub(a);
+    return KiteGeometry.sumMatrices([
+      KiteGeometry.outer(a, a, mass),
+      KiteGeometry.outer(a, d, mass / 2),
+      KiteGeometry.outer(d, a, mass / 2),
+      KiteGeometry.outer(d, d, mass / 3),
+    ]);
+  }
+
+  /**
+   * Second moment d'une plaque triangulaire homogène :
+   * S = m/12·(v1⊗v1 + v2⊗v2 + v3⊗v3 + s⊗s), s = v1 + v2 + v3
+   */
+  private static triangleSecondMoment(
+    vertices: THREE.Vector3[],
+    mass: number
+  ): THREE.Matrix3 {
+    const sum = vertices[0].clone().add(vertices[1]).add(vertices[2]);
+    return KiteGeometry.sumMatrices([
+      ...vertices.map((v) => KiteGeometry.outer(v, v, mass / 12)),
+      KiteGeometry.outer(sum, sum, mass / 12),
+    ]);
+  }
+
+  /**
+   * Calcule le tenseur d'inertie 3×3 du kite dans son repère propre,
+   * autour de l'origine du kite (SPINE_BAS, point de référence des couples)
+   *
+   * Contributions :
+   *   - Tubes carbone (tiges fines) : épine, bords d'attaque, struts, spreader
+   *   - Voile : triangles de SURFACES (tissu ripstop)
+   *   - Accessoires : masses ponctuelles aux points anatomiques
+   *
+   * @returns Tenseur d'inertie en kg·m²
+   */
+  static calculateInertiaTensor(): THREE.Matrix3 {
+    const P = KiteGeometry.POINTS;
+    const carbon = KiteGeometry.MATERIAL_SPECS.carbon;
+    const tensor = new THREE.Matrix3().set(0, 0, 0, 0, 0, 0, 0, 0, 0);
+
+    // Tubes : [début, fin, masse linéique g/m]
+    const spars: Array<[THREE.Vector3, THREE.Vector3, number]> = [
+      [P.NEZ, P.SPINE_BAS, carbon.spine],
+      [P.NEZ, P.BORD_GAUCHE, carbon.leadingEdge],
+      [P.NEZ, P.BORD_DROIT, carbon.leadingEdge],
+      [P.BORD_GAUCHE, P.WHISKER_GAUCHE, carbon.strut],
+      [P.BORD_DROIT, P.WHISKER_DROIT, carbon.strut],
+      [P.WHISKER_GAUCHE, P.WHISKER_DROIT, carbon.strut],
+    ];
+    spars.forEach(([a, b, gramsPerMeter]) => {
+      const mass = (a.distanceTo(b) * gramsPerMeter) / 1000;
+      KiteGeometry.addSecondMoment(
+        tensor,
+        KiteGeometry.rodSecondMoment(a, b, mass)
+      );
+    });
+
+    const grammage = KiteGeometry.MATERIAL_SPECS.fabric.ripstop;
+    KiteGeometry.SURFACES.forEach((surface) => {
+      const mass = (surface.area * grammage) / 1000;
+      KiteGeometry.addSecondMoment(
+        tensor,
+        KiteGeometry.triangleSecondMoment(surface.vertices, mass)
+      );
+    });
+
+    KiteGeometry.ACCESSORY_POINT_MASSES.forEach(({ point, grams }) => {
+      const r = P[point];
+      KiteGeometry.addSecondMoment(
+        tensor,
+        KiteGeometry.outer(r, r, grams / 1000)
+      );
+    });
+
+    return tensor;
+  }
+
+  /**
+   * Tenseur d'inertie complet (repère du kite : X envergure, Y épine, Z normale à la voile)
+   * Ixx : rotation autour de l'envergure, Iyy : autour de l'épine, Izz : autour de la normale
+   */
+  static readonly INERTIA_TENSOR = KiteGeometry.calculateInertiaTensor();
 }
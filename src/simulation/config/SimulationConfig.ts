@@ -25,6 +25,7 @@
  */
 import * as THREE from "three";
 import { KiteGeometry } from "./KiteGeometry";
+import { IntegratorType, WindProfileType } from "../types";
 
 /**
  * Configuration épurée de la simulation
@@ -36,10 +37,15 @@ export const CONFIG = {
   physics: {
     gravity: 9.81, // La gravité terrestre (fait tomber les objets)
     airDensity: 1.225, // Densité de l'air (l'air épais pousse plus fort)
-    deltaTimeMax: 0.016, // Mise à jour max 60 fois par seconde (pour rester fluide)
-    angularDamping: 0.80, // Damping angulaire à 0.80 (20% de perte)
-    linearDamping: 0.80, // Damping linéaire à 0.80 (20% de perte)
-    angularDragCoeff: 0.1, // Résistance rotation augmentée pour moins d'oscillations
+    deltaTimeMax: 1 / 60, // Pas max accepté par PhysicsEngine.update (garde-fou de stabilité)
+    fixedTimeStep: 1 / 60, // s - Pas physique fixe, indépendant de la fréquence d'affichage
+    maxSubSteps: 5, // Nombre max de pas physiques par frame affichée (au-delà, le retard est abandonné)
+    // Amortissements en temps continu : v(t+dt) = v(t)·e^(-k·dt) (voir DampingModel)
+    angularDampingRate: 13.4, // s⁻¹ - Équivaut à l'ancien facteur 0.80 par frame à 60 Hz
+    linearDampingRate: 13.4, // s⁻¹ - Équivaut à l'ancien facteur 0.80 par frame à 60 Hz
+    forceSmoothingTime: 0.01, // s - Constante de temps du filtre passe-bas sur forces et couple
+    integrator: "semi-implicit-euler" as IntegratorType, // Schéma d'intégration du corps rigide
+    angularDragCoeff: 0, // Amortissement rotationnel artificiel (désormais issu du vent apparent par surface)
   },
   aero: {
     liftScale: 1.0, // Portance à 1.0 (coefficient plein)
@@ -54,7 +60,8 @@ export const CONFIG = {
     // Voir KiteGeometry.calculateTotalMass() pour les détails
     mass: KiteGeometry.TOTAL_MASS, // kg - Calculée automatiquement (~0.153 kg)
     area: KiteGeometry.TOTAL_AREA, // m² - Surface totale (calculée automatiquement)
-    inertia: KiteGeometry.INERTIA, // kg·m² - Moment d'inertie (I ≈ m·r², calculé automatiquement)
+    inertia: KiteGeometry.INERTIA, // kg·m² - Moment d'inertie scalaire (I ≈ m·r²), utilisé par le solveur de contraintes
+    inertiaTensor: KiteGeometry.INERTIA_TENSOR, // kg·m² - Tenseur 3×3 (repère kite) pour les équations d'Euler
     minHeight: 0.5, // m - Altitude minimale (plus haut pour éviter le sol)
   },
   lines: {
@@ -69,12 +76,21 @@ export const CONFIG = {
     defaultSpeed: 18, // km/h
     defaultDirection: 0, // degrés
     defaultTurbulence: 1, // % - Turbulence minimale
-    turbulenceScale: 0.15,
-    turbulenceFreqBase: 0.3,
-    turbulenceFreqY: 1.3,
-    turbulenceFreqZ: 0.7,
-    turbulenceIntensityXZ: 0.8,
-    turbulenceIntensityY: 0.2,
+    // Couche limite : la vitesse du curseur est celle mesurée à referenceHeight (voir WindField)
+    profile: "log" as WindProfileType, // "uniform", "log" ou "power"
+    referenceHeight: 10, // m - Hauteur à laquelle s'applique la vitesse affichée
+    roughnessLength: 0.03, // m - Longueur de rugosité z0 (0.0002 mer, 0.03 herbe rase, 0.1 cultures)
+    powerLawExponent: 1 / 7, // Exposant α du profil en loi de puissance
+    // Variations horizontales lentes, transportées par le vent
+    horizontalWavelength: 120, // m - Longueur d'onde des variations (0 = champ homogène)
+    horizontalSpeedVariation: 0.08, // Amplitude relative de la vitesse (±8%)
+    horizontalDirectionVariation: 4, // degrés - Amplitude de la déviation de direction
+    // Turbulence de Dryden (voir TurbulenceGenerator)
+    turbulenceMaxIntensity: 0.3, // σ_u / U quand le curseur de turbulence est à 100%
+    turbulenceVerticalRatio: 0.5, // σ_w / σ_u (près du sol la composante verticale est atténuée)
+    turbulenceLengthScale: 60, // m - Échelle de longueur L_u = L_v des rafales horizontales
+    turbulenceVerticalLengthScale: 10, // m - Échelle L_w (≈ hauteur de vol, MIL-F-8785C)
+    turbulenceSeed: 1, // Graine par défaut : même graine = mêmes rafales
   },
   rendering: {
     shadowMapSize: 2048,
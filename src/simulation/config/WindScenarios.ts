@@ -0,0 +1,26 @@
+/**
+ * WindScenarios.ts - Scénarios de vent fournis avec la simulation
+ *
+ * Rôle :
+ *   - Regroupe les scénarios JSON du dossier scenarios/ (validés au chargement)
+ *   - Alimente le sélecteur de scénario de l'UI
+ *
+ * Ajouter un scénario :
+ *   - Créer un fichier JSON au format WindScenario dans scenarios/
+ *   - L'importer et l'ajouter à WIND_SCENARIOS ci-dessous
+ *
+ * Voir aussi :
+ *   - src/simulation/physics/WindScenarioPlayer.ts
+ *   - src/simulation/types/WindTypes.ts (WindScenario)
+ */
+import { WindScenario } from "../types";
+import { WindScenarioPlayer } from "../physics/WindScenarioPlayer";
+import gustAndVeer from "./scenarios/gust-and-veer.json";
+import buildingBreeze from "./scenarios/building-breeze.json";
+import shiftyGusts from "./scenarios/shifty-gusts.json";
+
+export const WIND_SCENARIOS: ReadonlyArray<WindScenario> = [
+  gustAndVeer,
+  buildingBreeze,
+  shiftyGusts,
+].map((scenario) => WindScenarioPlayer.parse(scenario));
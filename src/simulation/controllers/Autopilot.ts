@@ -0,0 +1,287 @@
+/**
+ * Autopilot.ts - Pilote automatique : huit, cercle, maintien de position
+ *
+ * Rôle :
+ *   - Situe le kite dans la fenêtre de vent (azimut, élévation) depuis son KiteState
+ *   - Fait avancer le point suivi sur la trajectoire à vitesse constante (un tour
+ *     en lapTime secondes) et vise un point un peu en avant du kite
+ *   - Régule le cap du kite vers ce point et en déduit la rotation de barre
+ *
+ * Principe :
+ *   - Le cap est la direction du nez (axe +Y du kite) projetée sur la sphère des
+ *     lignes : 0 = vers le zénith, positif vers la droite du pilote
+ *   - Une rotation de barre positive fait tourner le nez vers la gauche :
+ *     barre = -gain · écart de cap + amortissement · vitesse de lacet
+ *   - Sous une élévation minimale, le kite est d'abord renvoyé vers le haut
+ *
+ * Fenêtre atteignable :
+ *   - La réponse du kite à la barre est lente (environ 15° de sphère pour un
+ *     virage) et le bord de fenêtre reste bas par vent faible (une trentaine de
+ *     degrés d'élévation à 18 km/h) : les trajectoires fournies sont dimensionnées
+ *     pour le vent par défaut
+ *   - Le zénith (90°) est hors de portée de ce kite : EDGE_HOLD tient le kite
+ *     face au vent, au sommet de la fenêtre, à l'élévation d'équilibre barre
+ *     au neutre (environ 35° à 18 km/h)
+ *
+ * Les manœuvres sont reproductibles : en headless, avec la même graine et les
+ * mêmes réglages, fly() donne exactement le même vol (comparaison d'ailes ou de
+ * brides sans l'habileté du pilote comme variable).
+ *
+ * Relation avec les fichiers adjacents :
+ *   - HeadlessSimulation.ts : Fournit l'état, la position du pilote et le vent
+ *   - WindWindow.ts : Azimut et élévation du kite
+ *   - InputHandler.ts : Dans l'application, le pilote automatique est une source
+ *     d'entrée prioritaire tant qu'il est engagé
+ *
+ * Utilisation typique :
+ *   const autopilot = new Autopilot(sim, Autopilot.FIGURE_EIGHT);
+ *   autopilot.fly(60); // headless : une commande par pas physique
+ *
+ * Voir aussi :
+ *   - src/simulation/types/AutopilotTypes.ts
+ */
+import { HeadlessSimulation } from "../HeadlessSimulation";
+import { CONFIG } from "../config/SimulationConfig";
+import { WindWindow } from "../physics/WindWindow";
+import {
+  AutopilotGains,
+  AutopilotPath,
+  InputSource,
+  KiteState,
+  WindWindowPosition,
+} from "../types";
+import { InputHandler } from "./InputHandler";
+
+const DEG = Math.PI / 180;
+/** Pas de recherche du point visé sur la trajectoire (rad de paramètre) */
+const PATH_STEP = DEG;
+/** Élévation sous laquelle le kite est renvoyé vers le haut (degrés) */
+const MIN_ELEVATION = 8;
+/** En maintien, distance à la cible sous laquelle le nez est gardé vers le haut (degrés) */
+const HOLD_RADIUS = 2;
+
+/**
+ * Pilote automatique
+ */
+export class Autopilot implements InputSource {
+  static readonly FIGURE_EIGHT: Extract<AutopilotPath, { type: "figureEight" }> = {
+    type: "figureEight",
+    centerElevation: 20,
+    width: 40,
+    height: 16,
+  };
+  static readonly CIRCLE: Extract<AutopilotPath, { type: "circle" }> = {
+    type: "circle",
+    centerAzimuth: 0,
+    centerElevation: 22,
+    radius: 9,
+  };
+  /** Maintien au sommet de la fenêtre : vise la verticale, monte aussi haut que le vent le permet */
+  static readonly EDGE_HOLD: AutopilotPath = { type: "hold", azimuth: 0, elevation: 90 };
+  static readonly DEFAULT_GAINS: AutopilotGains = {
+    heading: 0.7,
+    yawDamping: 0.15,
+    lookahead: 6,
+    lapTime: 45,
+  };
+
+  readonly name = "Pilote automatique";
+  private readonly simulation: HeadlessSimulation;
+  private path: AutopilotPath;
+  private gains: AutopilotGains = { ...Autopilot.DEFAULT_GAINS };
+  private engaged = false;
+  /** Paramètre du point suivi sur la trajectoire (ne recule jamais) */
+  private pathParameter = 0;
+  /** Temps simulé de la dernière commande (null : suivi à reprendre) */
+  private lastTime: number | null = null;
+  private target: WindWindowPosition;
+  private barRotation = 0;
+
+  constructor(
+    simulation: HeadlessSimulation,
+    path: AutopilotPath = Autopilot.FIGURE_EIGHT
+  ) {
+    this.simulation = simulation;
+    this.path = path;
+    this.target = this.pointAt(0);
+  }
+
+  getPath(): AutopilotPath {
+    return this.path;
+  }
+
+  /**
+   * Change de trajectoire : le suivi repart du début de la nouvelle trajectoire
+   */
+  setPath(path: AutopilotPath): void {
+    this.path = path;
+    this.pathParameter = 0;
+    this.lastTime = null;
+    this.target = this.pointAt(0);
+  }
+
+  getGains(): AutopilotGains {
+    return { ...this.gains };
+  }
+
+  setGains(gains: Partial<AutopilotGains>): void {
+    this.gains = { ...this.gains, ...gains };
+  }
+
+  setEngaged(engaged: boolean): void {
+    if (engaged && !this.engaged) {
+      this.pathParameter = 0;
+      this.lastTime = null;
+    }
+    this.engaged = engaged;
+  }
+
+  isEngaged(): boolean {
+    return this.engaged;
+  }
+
+  /** Point visé sur la trajectoire */
+  getTarget(): WindWindowPosition {
+    return { ...this.target };
+  }
+
+  /**
+   * Position du kite dans la fenêtre de vent (vue du pilote)
+   */
+  getKitePosition(state: KiteState = this.simulation.getState()): WindWindowPosition {
+    return WindWindow.locate(
+      state.position,
+      this.simulation.getPilotPosition(),
+      this.windDirection()
+    );
+  }
+
+  /**
+   * Rotation de barre pour l'état donné (avance aussi le point cible)
+   */
+  computeBarRotation(state: KiteState): number {
+    const pilotPosition = this.simulation.getPilotPosition();
+    const radial = state.position.clone().sub(pilotPosition).normalize();
+    const kite = this.getKitePosition(state);
+    const heading = WindWindow.heading(
+      state.position,
+      state.orientation,
+      pilotPosition,
+      this.windDirection()
+    );
+
+    const time = this.simulation.getTime();
+    const elapsed = this.lastTime === null ? 0 : Math.max(0, time - this.lastTime);
+    this.lastTime = time;
+    this.target = this.advanceTarget(kite, elapsed);
+    const dx = (this.target.azimuth - kite.azimuth) * Math.cos(kite.elevation * DEG);
+    const dy = this.target.elevation - kite.elevation;
+    let desiredHeading = Math.atan2(dx, dy);
+    if (
+      kite.elevation < MIN_ELEVATION ||
+      (this.path.type === "hold" && Math.hypot(dx, dy) < HOLD_RADIUS)
+    ) {
+      desiredHeading = 0;
+    }
+
+    const error = Math.atan2(
+      Math.sin(desiredHeading - heading),
+      Math.cos(desiredHeading - heading)
+    );
+    const yawRate = state.angularVelocity.dot(radial);
+    const max = InputHandler.MAX_BAR_ROTATION;
+    const command = -this.gains.heading * error + this.gains.yawDamping * yawRate;
+    return Math.max(-max, Math.min(max, command));
+  }
+
+  /**
+   * Source d'entrée : recalcule la commande depuis l'état physique courant
+   */
+  update(_deltaTime: number): void {
+    if (!this.engaged) return;
+    this.barRotation = this.computeBarRotation(this.simulation.getState());
+  }
+
+  isActive(): boolean {
+    return this.engaged;
+  }
+
+  getTargetBarRotation(): number {
+    return this.barRotation;
+  }
+
+  /**
+   * Vol headless : une commande recalculée avant chaque pas physique
+   */
+  fly(
+    duration: number,
+    deltaTime: number = CONFIG.physics.fixedTimeStep,
+    onStep?: (state: KiteState, time: number) => void
+  ): void {
+    deltaTime = HeadlessSimulation.appliedTimeStep(deltaTime);
+    const steps = Math.round(duration / deltaTime);
+    for (let i = 0; i < steps; i++) {
+      this.simulation.setBarRotation(
+        this.computeBarRotation(this.simulation.getState())
+      );
+      const state = this.simulation.step(deltaTime);
+      onStep?.(state, this.simulation.getTime());
+    }
+  }
+
+  /**
+   * Avance le point suivi au rythme d'un tour en lapTime secondes (jamais en
+   * arrière, même quand le kite coupe à travers le croisement du huit), puis vise
+   * le premier point au-delà de la distance d'anticipation
+   */
+  private advanceTarget(
+    kite: WindWindowPosition,
+    elapsed: number
+  ): WindWindowPosition {
+    if (this.path.type === "hold") return this.pointAt(0);
+
+    this.pathParameter =
+      (this.pathParameter + (elapsed * 2 * Math.PI) / this.gains.lapTime) %
+      (2 * Math.PI);
+
+    const distance = (point: WindWindowPosition) =>
+      Math.hypot(
+        (point.azimuth - kite.azimuth) * Math.cos(kite.elevation * DEG),
+        point.elevation - kite.elevation
+      );
+    const span = Math.round(Math.PI / 2 / PATH_STEP);
+    let s = this.pathParameter;
+    let point = this.pointAt(s);
+    for (let i = 0; i < span && distance(point) < this.gains.lookahead; i++) {
+      s += PATH_STEP;
+      point = this.pointAt(s);
+    }
+    return point;
+  }
+
+  /**
+   * Point de la trajectoire pour le paramètre s ∈ [0, 2π[
+   */
+  private pointAt(s: number): WindWindowPosition {
+    const path = this.path;
+    switch (path.type) {
+      case "figureEight":
+        // Lemniscate de Gerono : lobe droit puis lobe gauche, croisement montant au centre
+        return {
+          azimuth: (path.width / 2) * Math.sin(s),
+          elevation: path.centerElevation + (path.height / 2) * Math.sin(2 * s),
+        };
+      case "circle":
+        return {
+          azimuth: path.centerAzimuth + path.radius * Math.sin(s),
+          elevation: path.centerElevation + path.radius * Math.cos(s),
+        };
+      case "hold":
+        return { azimuth: path.azimuth, elevation: path.elevation };
+    }
+  }
+
+  private windDirection(): number {
+    return this.simulation.getInputs().windParams.direction;
+  }
+}
@@ -0,0 +1,153 @@
+/**
+ * GamepadInput.ts - Pilotage de la barre à la manette (Gamepad API)
+ *
+ * Rôle :
+ *   - Lit un stick analogique ou les gâchettes d'une manette branchée (la
+ *     première par défaut, la deuxième pour un second pilote…)
+ *   - Applique une zone morte et une courbe de réponse réglables
+ *   - Traduit la position en rotation de barre cible, proportionnelle (pas de rampe
+ *     comme au clavier) : virages progressifs et huit réguliers deviennent possibles
+ *
+ * La Gamepad API ne pousse pas d'événements pour les axes : la manette est
+ * interrogée à chaque frame par update().
+ *
+ * Relation avec les fichiers adjacents :
+ *   - InputHandler.ts : Source active tant qu'une manette est branchée, après le clavier
+ *   - GamepadPanel.ts : Réglages et état de la manette dans l'interface
+ *
+ * Utilisation typique :
+ *   const gamepad = new GamepadInput(InputHandler.MAX_BAR_ROTATION);
+ *   gamepad.update();
+ *   if (gamepad.isActive()) barRotation = gamepad.getTargetBarRotation();
+ *
+ * Voir aussi :
+ *   - src/simulation/types/InputTypes.ts
+ */
+import { GamepadSettings, InputSource } from "../types";
+
+/** Boutons des gâchettes dans le mapping standard (W3C "standard" gamepad) */
+const LEFT_TRIGGER_BUTTON = 6;
+const RIGHT_TRIGGER_BUTTON = 7;
+
+/**
+ * Entrée manette
+ */
+export class GamepadInput implements InputSource {
+  static readonly DEFAULT_SETTINGS: GamepadSettings = {
+    mapping: "stick",
+    stickAxis: 0,
+    deadzone: 0.1,
+    curve: 1.5,
+  };
+
+  readonly name = "Manette";
+  private settings: GamepadSettings = { ...GamepadInput.DEFAULT_SETTINGS };
+  private readonly maxRotation: number;
+  private readonly index: number;
+  private gamepadId: string | null = null;
+  private rawInput = 0;
+  private shapedInput = 0;
+
+  /**
+   * @param maxRotation - Rotation de barre à fond de course (rad)
+   * @param index - Rang de la manette parmi celles branchées (0 : la première)
+   */
+  constructor(maxRotation: number, index: number = 0) {
+    this.maxRotation = maxRotation;
+    this.index = index;
+
+    if (typeof window !== "undefined") {
+      window.addEventListener("gamepadconnected", (event) => {
+        console.log(`🎮 Manette connectée: ${event.gamepad.id}`);
+      });
+      window.addEventListener("gamepaddisconnected", (event) => {
+        console.log(`🎮 Manette déconnectée: ${event.gamepad.id}`);
+      });
+    }
+  }
+
+  getSettings(): GamepadSettings {
+    return { ...this.settings };
+  }
+
+  setSettings(settings: Partial<GamepadSettings>): void {
+    this.settings = { ...this.settings, ...settings };
+  }
+
+  /**
+   * Interroge la manette (à appeler à chaque frame)
+   */
+  update(): void {
+    const gamepad = this.findGamepad();
+    this.gamepadId = gamepad?.id ?? null;
+    if (!gamepad) {
+      this.rawInput = 0;
+      this.shapedInput = 0;
+      return;
+    }
+
+    // Convention de la barre : positif = tourner à gauche
+    if (this.settings.mapping === "triggers") {
+      const left = gamepad.buttons[LEFT_TRIGGER_BUTTON]?.value ?? 0;
+      const right = gamepad.buttons[RIGHT_TRIGGER_BUTTON]?.value ?? 0;
+      this.rawInput = left - right;
+    } else {
+      this.rawInput = -(gamepad.axes[this.settings.stickAxis] ?? 0);
+    }
+    this.shapedInput = GamepadInput.shape(
+      this.rawInput,
+      this.settings.deadzone,
+      this.settings.curve
+    );
+  }
+
+  isConnected(): boolean {
+    return this.gamepadId !== null;
+  }
+
+  /** Une manette branchée garde la main : stick au centre = barre au centre */
+  isActive(): boolean {
+    return this.isConnected();
+  }
+
+  getGamepadId(): string | null {
+    return this.gamepadId;
+  }
+
+  /** Entrée brute dans [-1, 1] (avant zone morte et courbe) */
+  getRawInput(): number {
+    return this.rawInput;
+  }
+
+  /** Entrée mise en forme dans [-1, 1] */
+  getInput(): number {
+    return this.shapedInput;
+  }
+
+  getTargetBarRotation(): number {
+    return this.shapedInput * this.maxRotation;
+  }
+
+  /**
+   * Zone morte puis courbe de réponse : la course restante après la zone morte
+   * est ramenée sur [0, 1] (pas de saut en sortie de zone morte) puis élevée à
+   * la puissance `curve`
+   */
+  static shape(value: number, deadzone: number, curve: number): number {
+    const magnitude = Math.min(1, Math.abs(value));
+    if (magnitude <= deadzone) return 0;
+    const normalized = (magnitude - deadzone) / (1 - deadzone);
+    return Math.sign(value) * Math.pow(normalized, curve);
+  }
+
+  private findGamepad(): Gamepad | null {
+    if (typeof navigator === "undefined" || !navigator.getGamepads) {
+      return null;
+    }
+    return (
+      Array.from(navigator.getGamepads()).filter(
+        (gamepad): gamepad is Gamepad => gamepad !== null && gamepad.connected
+      )[this.index] ?? null
+    );
+  }
+}
@@ -2,104 +2,87 @@
  * InputHandler.ts - Gestionnaire des entrées utilisateur pour la simulation Kite
  *
  * Rôle :
- *   - Gère les contrôles clavier pour piloter le cerf-volant
+ *   - Regroupe les sources d'entrée (clavier, zone tactile, manette, pilote automatique…)
+ *     par ordre de priorité
+ *   - Donne la main à la première source active, et à la première source sinon
  *   - Traduit les actions utilisateur en rotation de la barre de contrôle
- *   - Sert d'interface entre l'utilisateur et le système de contrôle
  *
  * Dépendances principales :
- *   - PhysicsConstants.ts : Paramètres et limites pour la gestion des entrées
+ *   - InputTypes.ts : Interface InputSource implémentée par chaque source
  *
  * Relation avec les fichiers adjacents :
- *   - Utilisé par ControlBarManager et PhysicsEngine pour appliquer les commandes utilisateur
+ *   - KeyboardInput.ts, PointerSteeringInput.ts, GamepadInput.ts : Sources de l'application
+ *   - RecordedInput.ts : Rejoue les commandes d'un vol enregistré
+ *   - SimulationApp.ts : Assemble les sources et transmet la rotation à la simulation
  *
  * Utilisation typique :
- *   - Instancié au démarrage, écoute les événements clavier pour piloter le kite
- *   - Sert à la visualisation et au contrôle du kite
+ *   const input = new InputHandler();
+ *   input.addSource(new KeyboardInput(KeyBindings.load(), InputHandler.MAX_BAR_ROTATION));
+ *   input.addSource(new GamepadInput(InputHandler.MAX_BAR_ROTATION));
+ *   input.update(deltaTime);
+ *   sim.setBarRotation(input.getTargetBarRotation());
  *
  * Voir aussi :
  *   - src/simulation/controllers/ControlBarManager.ts
  *   - src/simulation/physics/PhysicsEngine.ts
  */
-import { PhysicsConstants } from "../config/PhysicsConstants";
+import { InputSource } from "../types";
 
 /**
  * Gestionnaire des entrées utilisateur
  *
- * Gère les contrôles clavier pour piloter le cerf-volant
+ * Lui-même une source : il peut être passé partout où une InputSource est attendue.
  */
-export class InputHandler {
-  private currentRotation: number = 0;
-  private keysPressed = new Set<string>();
-  private rotationSpeed: number = 2.5;
-  private returnSpeed: number = 3.0;
-  private maxRotation: number = Math.PI / 6;
+export class InputHandler implements InputSource {
+  /** Rotation de barre à fond de course (rad), commune à toutes les sources */
+  static readonly MAX_BAR_ROTATION = Math.PI / 6;
 
-  constructor() {
-    this.setupKeyboardControls();
-  }
+  readonly name = "Entrées";
+  private sources: InputSource[] = [];
+  private activeSource: InputSource | null = null;
+  private targetRotation = 0;
 
-  private setupKeyboardControls(): void {
-    window.addEventListener("keydown", (event) => {
-      const key = event.key.length === 1 ? event.key.toLowerCase() : event.key;
-      this.keysPressed.add(key);
+  /**
+   * Ajoute une source, après les sources existantes (ou à `index`) :
+   * la plus prioritaire est la première
+   */
+  addSource(source: InputSource, index = this.sources.length): void {
+    this.sources.splice(index, 0, source);
+  }
 
-      if (
-        key === "ArrowLeft" ||
-        key === "ArrowRight" ||
-        key === "q" ||
-        key === "a" ||
-        key === "d"
-      ) {
-        event.preventDefault();
-      }
-    });
+  removeSource(source: InputSource): void {
+    this.sources = this.sources.filter((s) => s !== source);
+    if (this.activeSource === source) this.activeSource = null;
+  }
 
-    window.addEventListener("keyup", (event) => {
-      const key = event.key.length === 1 ? event.key.toLowerCase() : event.key;
-      this.keysPressed.delete(key);
+  getSources(): ReadonlyArray<InputSource> {
+    return this.sources;
+  }
 
-      if (
-        key === "ArrowLeft" ||
-        key === "ArrowRight" ||
-        key === "q" ||
-        key === "a" ||
-        key === "d"
-      ) {
-        event.preventDefault();
-      }
-    });
+  /**
+   * Source qui pilote actuellement la barre (null sans source)
+   */
+  getActiveSource(): InputSource | null {
+    return this.activeSource;
   }
 
   update(deltaTime: number): void {
-    const left =
-      this.keysPressed.has("ArrowLeft") ||
-      this.keysPressed.has("q") ||
-      this.keysPressed.has("a");
-    const right =
-      this.keysPressed.has("ArrowRight") || this.keysPressed.has("d");
-    const dir = (left ? 1 : 0) + (right ? -1 : 0);
+    this.sources.forEach((source) => source.update(deltaTime));
 
-    if (dir !== 0) {
-      this.currentRotation += dir * this.rotationSpeed * deltaTime;
-    } else {
-      if (Math.abs(this.currentRotation) > PhysicsConstants.EPSILON) {
-        const sign = Math.sign(this.currentRotation);
-        this.currentRotation -= sign * this.returnSpeed * deltaTime;
-        if (Math.sign(this.currentRotation) !== sign) {
-          this.currentRotation = 0;
-        }
-      } else {
-        this.currentRotation = 0;
-      }
+    const next =
+      this.sources.find((source) => source.isActive()) ?? this.sources[0] ?? null;
+    if (next && next !== this.activeSource) {
+      next.resumeFrom?.(this.targetRotation);
     }
+    this.activeSource = next;
+    this.targetRotation = next?.getTargetBarRotation() ?? 0;
+  }
 
-    this.currentRotation = Math.max(
-      -this.maxRotation,
-      Math.min(this.maxRotation, this.currentRotation)
-    );
+  isActive(): boolean {
+    return this.sources.some((source) => source.isActive());
   }
 
   getTargetBarRotation(): number {
-    return this.currentRotation;
+    return this.targetRotation;
   }
-}
\ No newline at end of file
+}
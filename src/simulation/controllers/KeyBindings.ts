@@ -0,0 +1,155 @@
+/**
+ * KeyBindings.ts - Affectation des touches du clavier
+ *
+ * Rôle :
+ *   - Affectation par défaut et préréglages AZERTY / QWERTY
+ *   - Touches d'un second pilote sur le même clavier
+ *   - Sauvegarde de l'affectation dans le navigateur (conservée d'une session à l'autre)
+ *   - Libellés des actions et des touches pour l'interface
+ *
+ * Les touches sont identifiées par KeyboardEvent.key (lettres en minuscules) :
+ * c'est la lettre imprimée sur la touche qui compte, quelle que soit la disposition.
+ *
+ * Relation avec les fichiers adjacents :
+ *   - KeyboardInput.ts : Applique l'affectation
+ *   - KeyBindingsPanel.ts : Modification depuis l'interface
+ *
+ * Utilisation typique :
+ *   const keyboard = new KeyboardInput(KeyBindings.load(), maxRotation);
+ *   KeyBindings.store(KeyBindings.PRESETS.azerty.bindings);
+ *
+ * Voir aussi :
+ *   - src/simulation/types/InputTypes.ts
+ */
+import { KeyAction, KeyBindingMap } from "../types";
+
+/** Clé localStorage de l'affectation des touches */
+const STORAGE_KEY = "kite-simulator.keyBindings";
+
+/**
+ * Affectation des touches
+ */
+export class KeyBindings {
+  static readonly ACTIONS: ReadonlyArray<{ action: KeyAction; label: string }> = [
+    { action: "turnLeft", label: "Tourner à gauche" },
+    { action: "turnRight", label: "Tourner à droite" },
+  ];
+
+  /** Affectation historique : q (AZERTY) et a (QWERTY) tournent tous deux à gauche */
+  static readonly DEFAULT: KeyBindingMap = {
+    turnLeft: ["ArrowLeft", "q", "a"],
+    turnRight: ["ArrowRight", "d"],
+  };
+
+  /** Second pilote sur le même clavier : touches libres dans toutes les affectations fournies */
+  static readonly SECOND_PILOT: KeyBindingMap = {
+    turnLeft: ["j"],
+    turnRight: ["l"],
+  };
+
+  static readonly PRESETS: Readonly<
+    Record<"azerty" | "qwerty", { label: string; bindings: KeyBindingMap }>
+  > = {
+    azerty: {
+      label: "AZERTY (Q / D)",
+      bindings: { turnLeft: ["ArrowLeft", "q"], turnRight: ["ArrowRight", "d"] },
+    },
+    qwerty: {
+      label: "QWERTY (A / D)",
+      bindings: { turnLeft: ["ArrowLeft", "a"], turnRight: ["ArrowRight", "d"] },
+    },
+  };
+
+  /**
+   * Affectation sauvegardée, ou celle par défaut
+   */
+  static load(): KeyBindingMap {
+    if (typeof localStorage === "undefined") return this.copy(this.DEFAULT);
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      return stored ? this.parse(stored) : this.copy(this.DEFAULT);
+    } catch (error) {
+      console.warn("⚠️ Affectation des touches illisible, défaut utilisé:", error);
+      return this.copy(this.DEFAULT);
+    }
+  }
+
+  static store(bindings: KeyBindingMap): void {
+    if (typeof localStorage === "undefined") {
+      throw new Error("localStorage indisponible : affectation non sauvegardée");
+    }
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(bindings));
+  }
+
+  static clearStored(): void {
+    if (typeof localStorage !== "undefined") localStorage.removeItem(STORAGE_KEY);
+  }
+
+  /**
+   * Relit une affectation JSON
+   * @throws Error si une action manque ou n'est pas une liste de touches
+   */
+  static parse(text: string): KeyBindingMap {
+    const data = JSON.parse(text) as Partial<Record<KeyAction, unknown>>;
+    const bindings = {} as KeyBindingMap;
+    this.ACTIONS.forEach(({ action }) => {
+      const keys = data?.[action];
+      if (!Array.isArray(keys) || !keys.every((key) => typeof key === "string")) {
+        throw new Error(`Affectation invalide : action « ${action} » sans touches`);
+      }
+      bindings[action] = keys.map((key) => this.normalizeKey(key));
+    });
+    return bindings;
+  }
+
+  /**
+   * Affecte une touche à une action : elle est retirée des autres actions
+   */
+  static assign(
+    bindings: KeyBindingMap,
+    action: KeyAction,
+    key: string
+  ): KeyBindingMap {
+    const normalized = this.normalizeKey(key);
+    const result = this.copy(bindings);
+    this.ACTIONS.forEach(({ action: other }) => {
+      result[other] = result[other].filter((k) => k !== normalized);
+    });
+    result[action].push(normalized);
+    return result;
+  }
+
+  static actionFor(bindings: KeyBindingMap, key: string): KeyAction | null {
+    const normalized = this.normalizeKey(key);
+    const entry = this.ACTIONS.find(({ action }) =>
+      bindings[action].includes(normalized)
+    );
+    return entry?.action ?? null;
+  }
+
+  /**
+   * Identifiant d'une touche : KeyboardEvent.key, lettres en minuscules
+   * (Maj enfoncée ne change pas l'action)
+   */
+  static normalizeKey(key: string): string {
+    return key.length === 1 ? key.toLowerCase() : key;
+  }
+
+  static describeKey(key: string): string {
+    const names: Record<string, string> = {
+      ArrowLeft: "←",
+      ArrowRight: "→",
+      ArrowUp: "↑",
+      ArrowDown: "↓",
+      " ": "Espace",
+    };
+    return names[key] ?? (key.length === 1 ? key.toUpperCase() : key);
+  }
+
+  static copy(bindings: KeyBindingMap): KeyBindingMap {
+    return {
+      turnLeft: [...bindings.turnLeft],
+      turnRight: [...bindings.turnRight],
+    };
+  }
+}
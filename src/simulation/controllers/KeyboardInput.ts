@@ -0,0 +1,123 @@
+/**
+ * KeyboardInput.ts - Pilotage de la barre au clavier
+ *
+ * Rôle :
+ *   - Écoute les touches affectées aux actions (voir KeyBindings)
+ *   - Tourne la barre à vitesse constante tant qu'une touche est enfoncée,
+ *     puis la ramène au centre une fois relâchée
+ *
+ * Les touches tapées dans un champ de saisie (nom de profil…) sont ignorées.
+ *
+ * Relation avec les fichiers adjacents :
+ *   - InputHandler.ts : Source prioritaire quand une touche est enfoncée
+ *   - KeyBindings.ts : Affectation des touches
+ *
+ * Voir aussi :
+ *   - src/simulation/ui/KeyBindingsPanel.ts
+ */
+import { PhysicsConstants } from "../config/PhysicsConstants";
+import { InputSource, KeyBindingMap } from "../types";
+import { KeyBindings } from "./KeyBindings";
+
+/**
+ * Entrée clavier
+ */
+export class KeyboardInput implements InputSource {
+  readonly name = "Clavier";
+  private bindings: KeyBindingMap;
+  private readonly maxRotation: number;
+  private currentRotation: number = 0;
+  private keysPressed = new Set<string>();
+  private rotationSpeed: number = 2.5;
+  private returnSpeed: number = 3.0;
+  private direction = 0;
+
+  /**
+   * @param bindings - Affectation des touches
+   * @param maxRotation - Rotation de barre à fond de course (rad)
+   */
+  constructor(bindings: KeyBindingMap, maxRotation: number) {
+    this.bindings = KeyBindings.copy(bindings);
+    this.maxRotation = maxRotation;
+    this.setupKeyboardControls();
+  }
+
+  getBindings(): KeyBindingMap {
+    return KeyBindings.copy(this.bindings);
+  }
+
+  setBindings(bindings: KeyBindingMap): void {
+    this.bindings = KeyBindings.copy(bindings);
+    this.keysPressed.clear();
+  }
+
+  private setupKeyboardControls(): void {
+    const handle = (event: KeyboardEvent, pressed: boolean) => {
+      if (this.isTyping(event)) return;
+      const key = KeyBindings.normalizeKey(event.key);
+      if (pressed) {
+        this.keysPressed.add(key);
+      } else {
+        this.keysPressed.delete(key);
+      }
+      if (KeyBindings.actionFor(this.bindings, key)) {
+        event.preventDefault();
+      }
+    };
+    window.addEventListener("keydown", (event) => handle(event, true));
+    window.addEventListener("keyup", (event) => handle(event, false));
+    // Touches relâchées hors de la fenêtre : ne pas garder la barre tournée
+    window.addEventListener("blur", () => this.keysPressed.clear());
+  }
+
+  update(deltaTime: number): void {
+    const pressed = (keys: string[]) =>
+      keys.some((key) => this.keysPressed.has(key));
+    const left = pressed(this.bindings.turnLeft);
+    const right = pressed(this.bindings.turnRight);
+    this.direction = (left ? 1 : 0) + (right ? -1 : 0);
+
+    if (this.direction !== 0) {
+      this.currentRotation += this.direction * this.rotationSpeed * deltaTime;
+    } else {
+      if (Math.abs(this.currentRotation) > PhysicsConstants.EPSILON) {
+        const sign = Math.sign(this.currentRotation);
+        this.currentRotation -= sign * this.returnSpeed * deltaTime;
+        if (Math.sign(this.currentRotation) !== sign) {
+          this.currentRotation = 0;
+        }
+      } else {
+        this.currentRotation = 0;
+      }
+    }
+
+    this.currentRotation = Math.max(
+      -this.maxRotation,
+      Math.min(this.maxRotation, this.currentRotation)
+    );
+  }
+
+  /**
+   * Touche enfoncée, ou barre pas encore revenue au centre
+   */
+  isActive(): boolean {
+    return this.direction !== 0 || this.currentRotation !== 0;
+  }
+
+  getTargetBarRotation(): number {
+    return this.currentRotation;
+  }
+
+  resumeFrom(barRotation: number): void {
+    this.currentRotation = barRotation;
+  }
+
+  private isTyping(event: KeyboardEvent): boolean {
+    const target = event.target as HTMLElement | null;
+    return (
+      (target instanceof HTMLInputElement && target.type === "text") ||
+      target instanceof HTMLTextAreaElement ||
+      target?.isContentEditable === true
+    );
+  }
+}
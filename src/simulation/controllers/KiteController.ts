@@ -4,12 +4,14 @@
  * Rôle :
  *   - Gère l'état physique et le mouvement du cerf-volant
  *   - Applique les forces, met à jour la position, la vitesse et l'orientation
+ *   - Intègre la rotation avec les équations d'Euler (tenseur d'inertie complet, repère du kite)
  *   - Détecte les situations extrêmes (accélération, vitesse, rotation)
  *
  * Dépendances principales :
  *   - Kite.ts : Modèle 3D du cerf-volant
  *   - PhysicsConstants.ts, SimulationConfig.ts : Paramètres et limites physiques
  *   - ConstraintSolver.ts : Applique les contraintes de ligne
+ *   - integrators/ : Schémas d'intégration du corps rigide (Euler, Verlet, RK4)
  *   - Types : KiteState, HandlePositions pour typer l'état
  *   - Three.js : Pour la géométrie et le calcul
  *
@@ -28,10 +30,23 @@
  */
 import * as THREE from "three";
 import { Kite } from "../../objects/organic/Kite";
-import { KiteState, HandlePositions } from "../types";
+import {
+  KiteState,
+  KiteLoads,
+  HandlePositions,
+  LoadFunction,
+  StateDerivative,
+} from "../types";
 import { PhysicsConstants } from "../config/PhysicsConstants";
 import { CONFIG } from "../config/SimulationConfig";
+import { KiteGeometry } from "../config/KiteGeometry";
 import { ConstraintSolver } from "../physics/ConstraintSolver";
+import { DampingModel } from "../physics/DampingModel";
+import {
+  RigidBodyIntegrator,
+  rotateOrientation,
+} from "../physics/integrators/RigidBodyIntegrator";
+import { IntegratorFactory } from "../physics/integrators/IntegratorFactory";
 
 /**
  * Contrôleur du cerf-volant
@@ -49,10 +64,12 @@ export class KiteController {
   private lastAccelMagnitude: number = 0;
   private lastVelocityMagnitude: number = 0;
 
-  // Lissage temporel des forces
+  // Lissage temporel des forces (filtre du 1er ordre, τ = CONFIG.physics.forceSmoothingTime)
   private smoothedForce: THREE.Vector3;
   private smoothedTorque: THREE.Vector3;
-  private readonly FORCE_SMOOTHING = 0.8; // Lissage léger (25% nouvelle valeur, 75% ancienne)
+
+  // Schéma d'intégration (CONFIG.physics.integrator)
+  private integrator: RigidBodyIntegrator;
 
   constructor(kite: Kite) {
     this.kite = kite;
@@ -68,28 +85,28 @@ export class KiteController {
     // Initialiser les forces lissées
     this.smoothedForce = new THREE.Vector3();
     this.smoothedTorque = new THREE.Vector3();
+
+    this.integrator = IntegratorFactory.create(CONFIG.physics.integrator);
   }
 
   /**
    * Met à jour la position et l'orientation du cerf-volant
+   *
+   * L'intégrateur fait avancer position et vitesses ; les contraintes corrigent
+   * ensuite position, vitesse et ω (et l'orientation de départ) ; l'orientation
+   * avance en dernier avec le ω corrigé, dans le même pas.
+   *
+   * @param loads - Efforts extérieurs dans l'état courant
+   * @param loadsAt - Recalcule les efforts pour une étape intermédiaire de l'intégrateur
    */
   update(
-    forces: THREE.Vector3,
-    torque: THREE.Vector3,
+    loads: KiteLoads,
+    loadsAt: LoadFunction,
     handles: HandlePositions,
     deltaTime: number
   ): void {
-    // Valider les forces brutes
-    const validForces = this.validateForces(forces);
-    const validTorque = this.validateTorque(torque);
-
-    // Lisser les forces pour éviter les sauts brusques (lerp)
-    // 85% ancienne valeur + 15% nouvelle valeur = transition douce
-    this.smoothedForce.lerp(validForces, this.FORCE_SMOOTHING);
-    this.smoothedTorque.lerp(validTorque, this.FORCE_SMOOTHING);
-
-    // Utiliser les forces lissées pour la physique
-    const newPosition = this.integratePhysics(this.smoothedForce, deltaTime);
+    // Intégration du corps rigide avec le schéma choisi (vitesses et position)
+    const newPosition = this.integrateState(loads, loadsAt, deltaTime);
 
     // Appliquer les contraintes de lignes (Position-Based Dynamics)
     // Le solveur peut modifier newPosition ainsi que state.velocity / state.angularVelocity
@@ -128,9 +145,14 @@ export class KiteController {
     // Valider la position finale
     this.validatePosition(newPosition);
 
-    // Appliquer la position et l'orientation
+    // Appliquer la position, puis faire tourner le kite avec le ω corrigé par les contraintes
     this.kite.position.copy(newPosition);
-    this.updateOrientation(this.smoothedTorque, deltaTime); // Utiliser le torque lissé
+    this.kite.quaternion.copy(
+      rotateOrientation(
+        this.kite.quaternion,
+        this.state.angularVelocity.clone().multiplyScalar(deltaTime)
+      )
+    );
     this.previousPosition.copy(newPosition);
   }
   /**
@@ -164,71 +186,49 @@ export class KiteController {
   }
 
   /**
-   * Intègre les forces pour calculer la nouvelle position (méthode d'Euler)
-   * Implémente la 2ème loi de Newton : F = ma → a = F/m
+   * Accélérations du kite pour un état donné
+   * Implémente F = ma → a = F/m et les équations d'Euler du corps rigide
+   * avec le tenseur d'inertie complet (couple de traînée de rotation inclus)
    */
-  private integratePhysics(
-    forces: THREE.Vector3,
-    deltaTime: number
-  ): THREE.Vector3 {
+  private computeDerivative(
+    state: KiteState,
+    force: THREE.Vector3,
+    torque: THREE.Vector3,
+    inertiaTensor: THREE.Matrix3,
+    inverseInertia: THREE.Matrix3
+  ): StateDerivative {
     // Newton : accélération = Force / masse
-    const acceleration = forces.divideScalar(CONFIG.kite.mass);
-    this.lastAccelMagnitude = acceleration.length();
-
+    const linearAcceleration = force.clone().divideScalar(CONFIG.kite.mass);
     // Sécurité : limiter pour éviter l'explosion numérique
-    this.hasExcessiveAccel = acceleration.length() > PhysicsConstants.MAX_ACCELERATION;
-    if (this.hasExcessiveAccel) {
-      acceleration
+    if (linearAcceleration.length() > PhysicsConstants.MAX_ACCELERATION) {
+      linearAcceleration
         .normalize()
         .multiplyScalar(PhysicsConstants.MAX_ACCELERATION);
     }
 
-    // Intégration d'Euler : v(t+dt) = v(t) + a·dt
-    this.state.velocity.add(acceleration.multiplyScalar(deltaTime));
-    // Amortissement : simule la résistance de l'air
-    this.state.velocity.multiplyScalar(CONFIG.physics.linearDamping);
-    this.lastVelocityMagnitude = this.state.velocity.length();
-
-    // Garde-fou vitesse max (réalisme physique)
-    this.hasExcessiveVelocity = this.state.velocity.length() > PhysicsConstants.MAX_VELOCITY;
-    if (this.hasExcessiveVelocity) {
-      this.state.velocity
-        .normalize()
-        .multiplyScalar(PhysicsConstants.MAX_VELOCITY);
-    }
-
-    // Position : x(t+dt) = x(t) + v·dt
-    return this.kite.position
-      .clone()
-      .add(this.state.velocity.clone().multiplyScalar(deltaTime));
-  }
-
-  /**
-   * Valide la position finale
-   */
-  private validatePosition(newPosition: THREE.Vector3): void {
-    if (isNaN(newPosition.x) || isNaN(newPosition.y) || isNaN(newPosition.z)) {
-      console.error(`⚠️ Position NaN détectée! Reset à la position précédente`);
-      newPosition.copy(this.previousPosition);
-      this.state.velocity.set(0, 0, 0);
-    }
-  }
-
-  /**
-   * Met à jour l'orientation du cerf-volant - Dynamique du corps rigide
-   */
-  private updateOrientation(torque: THREE.Vector3, deltaTime: number): void {
     // Couple d'amortissement (résistance à la rotation dans l'air)
-    const dampTorque = this.state.angularVelocity
+    const effectiveTorque = torque
       .clone()
-      .multiplyScalar(-CONFIG.physics.angularDragCoeff);
-    const effectiveTorque = torque.clone().add(dampTorque);
+      .addScaledVector(state.angularVelocity, -CONFIG.physics.angularDragCoeff);
 
-    // Dynamique rotationnelle : α = T / I
-    const angularAcceleration = effectiveTorque.divideScalar(
-      CONFIG.kite.inertia
+    // Équations d'Euler dans le repère du kite : I·dω/dt = T - ω × (I·ω)
+    // Le terme ω × (I·ω) est le couplage gyroscopique entre axes
+    const toBody = state.orientation.clone().invert();
+    const omegaBody = state.angularVelocity.clone().applyQuaternion(toBody);
+    const torqueBody = effectiveTorque.applyQuaternion(toBody);
+    const angularMomentumBody = omegaBody
+      .clone()
+      .applyMatrix3(inertiaTensor);
+    const gyroscopicTorque = new THREE.Vector3().crossVectors(
+      omegaBody,
+      angularMomentumBody
     );
 
+    const angularAcceleration = torqueBody
+      .sub(gyroscopicTorque)
+      .applyMatrix3(inverseInertia)
+      .applyQuaternion(state.orientation); // Retour au repère monde
+
     // Limiter l'accélération angulaire
     if (
       angularAcceleration.length() > PhysicsConstants.MAX_ANGULAR_ACCELERATION
@@ -238,34 +238,137 @@ export class KiteController {
         .multiplyScalar(PhysicsConstants.MAX_ANGULAR_ACCELERATION);
     }
 
-    // Mise à jour de la vitesse angulaire
-    this.state.angularVelocity.add(
-      angularAcceleration.multiplyScalar(deltaTime)
+    return { linearAcceleration, angularAcceleration };
+  }
+
+  /**
+   * Intègre les efforts avec l'intégrateur configuré
+   * Met à jour les vitesses, retourne la position prédite (qui sera ensuite
+   * corrigée par les contraintes). L'orientation des étapes intermédiaires ne
+   * sert qu'à y évaluer les efforts : celle du kite avance après les contraintes.
+   *
+   * Chaque étape de l'intégrateur recalcule les efforts dans son propre état
+   * (loadsAt) ; l'étape de départ reprend ceux de l'état courant. Le lissage
+   * part pour toutes les étapes des efforts lissés du pas précédent.
+   */
+  private integrateState(
+    loads: KiteLoads,
+    loadsAt: LoadFunction,
+    deltaTime: number
+  ): THREE.Vector3 {
+    const integrator = this.getIntegrator();
+    const current: KiteState = {
+      position: this.kite.position.clone(),
+      velocity: this.state.velocity.clone(),
+      angularVelocity: this.state.angularVelocity.clone(),
+      orientation: this.kite.quaternion.clone(),
+    };
+    const inertiaTensor = KiteController.inertiaTensor();
+    const inverseInertia = inertiaTensor.clone().invert();
+
+    // Lisser les forces pour éviter les sauts brusques (filtre passe-bas du 1er ordre)
+    // Le poids dépend du pas : même réponse temporelle à 60 Hz ou 240 Hz
+    const smoothing = DampingModel.filterBlend(
+      CONFIG.physics.forceSmoothingTime,
+      deltaTime
+    );
+    const smooth = (stageLoads: KiteLoads): KiteLoads => ({
+      force: this.smoothedForce
+        .clone()
+        .lerp(this.validateForces(stageLoads.force), smoothing),
+      torque: this.smoothedTorque
+        .clone()
+        .lerp(this.validateTorque(stageLoads.torque), smoothing),
+    });
+
+    const start = smooth(loads);
+    const derivative = (state: KiteState) => {
+      const { force, torque } = state === current ? start : smooth(loadsAt(state));
+      return this.computeDerivative(
+        state,
+        force,
+        torque,
+        inertiaTensor,
+        inverseInertia
+      );
+    };
+
+    const rawAccel = start.force.length() / CONFIG.kite.mass;
+    this.lastAccelMagnitude = rawAccel;
+    this.hasExcessiveAccel = rawAccel > PhysicsConstants.MAX_ACCELERATION;
+
+    const next = integrator.integrate(current, deltaTime, derivative);
+    this.smoothedForce.copy(start.force);
+    this.smoothedTorque.copy(start.torque);
+
+    // Amortissements : solution exacte de dv/dt = -k·v appliquée après l'intégration
+    next.velocity.multiplyScalar(
+      DampingModel.decayFactor(CONFIG.physics.linearDampingRate, deltaTime)
+    );
+    next.angularVelocity.multiplyScalar(
+      DampingModel.decayFactor(CONFIG.physics.angularDampingRate, deltaTime)
     );
-    this.state.angularVelocity.multiplyScalar(CONFIG.physics.angularDamping);
+    this.lastVelocityMagnitude = next.velocity.length();
 
-    // Limiter la vitesse angulaire
-    this.hasExcessiveAngular = this.state.angularVelocity.length() > PhysicsConstants.MAX_ANGULAR_VELOCITY;
+    // Garde-fous vitesse max (réalisme physique)
+    this.hasExcessiveVelocity = next.velocity.length() > PhysicsConstants.MAX_VELOCITY;
+    if (this.hasExcessiveVelocity) {
+      next.velocity.normalize().multiplyScalar(PhysicsConstants.MAX_VELOCITY);
+    }
+    this.hasExcessiveAngular =
+      next.angularVelocity.length() > PhysicsConstants.MAX_ANGULAR_VELOCITY;
     if (this.hasExcessiveAngular) {
-      this.state.angularVelocity
+      next.angularVelocity
         .normalize()
         .multiplyScalar(PhysicsConstants.MAX_ANGULAR_VELOCITY);
     }
 
-    // Appliquer la rotation
-    if (this.state.angularVelocity.length() > PhysicsConstants.EPSILON) {
-      const deltaRotation = new THREE.Quaternion();
-      const axis = this.state.angularVelocity.clone().normalize();
-      const angle = this.state.angularVelocity.length() * deltaTime;
-      deltaRotation.setFromAxisAngle(axis, angle);
+    this.state.velocity.copy(next.velocity);
+    this.state.angularVelocity.copy(next.angularVelocity);
+
+    return next.position;
+  }
+
+  /**
+   * Tenseur d'inertie des équations d'Euler : sa forme découle de la géométrie
+   * (CONFIG.kite.inertiaTensor), son échelle suit le moment scalaire réglable
+   * CONFIG.kite.inertia (égal à KiteGeometry.INERTIA par défaut)
+   */
+  private static inertiaTensor(): THREE.Matrix3 {
+    return CONFIG.kite.inertiaTensor
+      .clone()
+      .multiplyScalar(CONFIG.kite.inertia / KiteGeometry.INERTIA);
+  }
+
+  /**
+   * Retourne l'intégrateur correspondant à CONFIG.physics.integrator
+   * (recréé si le réglage a changé en cours de simulation)
+   */
+  private getIntegrator(): RigidBodyIntegrator {
+    if (this.integrator.type !== CONFIG.physics.integrator) {
+      this.integrator = IntegratorFactory.create(CONFIG.physics.integrator);
+    }
+    return this.integrator;
+  }
 
-      this.kite.quaternion.multiply(deltaRotation);
-      this.kite.quaternion.normalize();
+  /**
+   * Valide la position finale
+   */
+  private validatePosition(newPosition: THREE.Vector3): void {
+    if (isNaN(newPosition.x) || isNaN(newPosition.y) || isNaN(newPosition.z)) {
+      console.error(`⚠️ Position NaN détectée! Reset à la position précédente`);
+      newPosition.copy(this.previousPosition);
+      this.state.velocity.set(0, 0, 0);
     }
   }
 
   getState(): KiteState {
-    return { ...this.state };
+    // Position et orientation vivent dans l'objet 3D du kite
+    return {
+      ...this.state,
+      position: this.kite.position.clone(),
+      orientation: this.kite.quaternion.clone(),
+    };
   }
 
   getKite(): Kite {
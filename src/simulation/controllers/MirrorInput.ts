@@ -0,0 +1,41 @@
+/**
+ * MirrorInput.ts - Recopie la barre d'un autre kite
+ *
+ * Rôle :
+ *   - Source d'entrée qui demande la rotation de barre d'une autre simulation
+ *   - Permet de comparer deux réglages de kite pilotés exactement de la même façon
+ *
+ * Relation avec les fichiers adjacents :
+ *   - MultiKiteSimulation.ts : Les entrées sont lues dans l'ordre des kites, la
+ *     barre du kite recopié est donc déjà réglée pour ce pas
+ *
+ * Utilisation typique :
+ *   rigs.getRig(1).input = new MirrorInput(rigs.getLead());
+ *
+ * Voir aussi :
+ *   - src/simulation/types/InputTypes.ts
+ */
+import { HeadlessSimulation } from "../HeadlessSimulation";
+import { InputSource } from "../types";
+
+/**
+ * Entrée miroir
+ */
+export class MirrorInput implements InputSource {
+  readonly name = "Miroir";
+  private readonly source: HeadlessSimulation;
+
+  constructor(source: HeadlessSimulation) {
+    this.source = source;
+  }
+
+  update(_deltaTime: number): void {}
+
+  isActive(): boolean {
+    return true;
+  }
+
+  getTargetBarRotation(): number {
+    return this.source.getBarRotation();
+  }
+}
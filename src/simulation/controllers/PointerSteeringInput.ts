@@ -0,0 +1,168 @@
+/**
+ * PointerSteeringInput.ts - Pilotage de la barre à la souris ou au doigt
+ *
+ * Rôle :
+ *   - Glisser horizontalement sur la zone de pilotage tourne la barre,
+ *     proportionnellement au déplacement depuis le début du geste
+ *   - Sur écran tactile, tourner deux doigts l'un autour de l'autre tourne la barre
+ *     du même angle
+ *   - Au relâchement, la barre revient au centre comme au clavier
+ *
+ * Source d'entrée (InputSource) : active tant qu'un geste est en cours ou que
+ * la barre revient au centre.
+ *
+ * La zone de pilotage est un élément dédié (pas le canvas 3D) pour ne pas
+ * entrer en conflit avec les gestes d'OrbitControls.
+ *
+ * Relation avec les fichiers adjacents :
+ *   - InputHandler.ts : Donne la main à cette source pendant les gestes
+ *   - SteeringWidget.ts : Dessine la barre commandée et la barre réelle dans la zone
+ *
+ * Utilisation typique :
+ *   const pointer = new PointerSteeringInput(element, InputHandler.MAX_BAR_ROTATION);
+ *   inputHandler.addSource(pointer);
+ */
+import { PhysicsConstants } from "../config/PhysicsConstants";
+import { InputSource } from "../types";
+
+/**
+ * Entrée souris / tactile
+ */
+export class PointerSteeringInput implements InputSource {
+  readonly name = "Tactile";
+  private readonly element: HTMLElement;
+  private readonly maxRotation: number;
+  private readonly returnSpeed: number = 3.0;
+  private currentRotation = 0;
+  /** Position des pointeurs posés sur la zone */
+  private pointers = new Map<number, { x: number; y: number }>();
+  /** Début du geste en cours : rotation de départ et référence (x ou angle) */
+  private gesture: { rotation: number; x: number; angle: number | null } | null =
+    null;
+
+  /**
+   * @param element - Zone de pilotage recevant les gestes
+   * @param maxRotation - Rotation de barre à fond de course (rad)
+   */
+  constructor(element: HTMLElement, maxRotation: number) {
+    this.element = element;
+    this.maxRotation = maxRotation;
+    this.setupPointerEvents();
+  }
+
+  private setupPointerEvents(): void {
+    // Pas de défilement ni de zoom du navigateur sur la zone
+    this.element.style.touchAction = "none";
+
+    this.element.addEventListener("pointerdown", (event) => {
+      event.preventDefault();
+      this.element.setPointerCapture(event.pointerId);
+      this.pointers.set(event.pointerId, { x: event.clientX, y: event.clientY });
+      this.startGesture();
+    });
+
+    this.element.addEventListener("pointermove", (event) => {
+      if (!this.pointers.has(event.pointerId)) return;
+      this.pointers.set(event.pointerId, { x: event.clientX, y: event.clientY });
+      this.followGesture();
+    });
+
+    const release = (event: PointerEvent) => {
+      if (!this.pointers.delete(event.pointerId)) return;
+      // Un doigt reste posé : il démarre un nouveau geste depuis la rotation actuelle
+      if (this.pointers.size > 0) {
+        this.startGesture();
+      } else {
+        this.gesture = null;
+      }
+    };
+    this.element.addEventListener("pointerup", release);
+    this.element.addEventListener("pointercancel", release);
+  }
+
+  /**
+   * Geste en cours ou barre pas encore revenue au centre
+   */
+  isActive(): boolean {
+    return this.gesture !== null || this.currentRotation !== 0;
+  }
+
+  isDragging(): boolean {
+    return this.gesture !== null;
+  }
+
+  update(deltaTime: number): void {
+    if (this.gesture) return;
+
+    if (Math.abs(this.currentRotation) > PhysicsConstants.EPSILON) {
+      const sign = Math.sign(this.currentRotation);
+      this.currentRotation -= sign * this.returnSpeed * deltaTime;
+      if (Math.sign(this.currentRotation) !== sign) {
+        this.currentRotation = 0;
+      }
+    } else {
+      this.currentRotation = 0;
+    }
+  }
+
+  getTargetBarRotation(): number {
+    return this.currentRotation;
+  }
+
+  resumeFrom(barRotation: number): void {
+    if (this.gesture) {
+      this.gesture.rotation += barRotation - this.currentRotation;
+    }
+    this.currentRotation = barRotation;
+  }
+
+  private startGesture(): void {
+    this.gesture = {
+      rotation: this.currentRotation,
+      x: this.averageX(),
+      angle: this.twistAngle(),
+    };
+  }
+
+  private followGesture(): void {
+    if (!this.gesture) return;
+
+    let rotation: number;
+    const angle = this.twistAngle();
+    if (angle !== null && this.gesture.angle !== null) {
+      // Deux doigts : l'écran a l'axe y vers le bas, une rotation horaire
+      // (angle croissant) tourne la barre à droite (rotation négative)
+      rotation = this.gesture.rotation - this.wrapAngle(angle - this.gesture.angle);
+    } else {
+      // Glisser : une demi-largeur de zone = fond de course, vers la gauche = positif
+      const halfWidth = Math.max(1, this.element.clientWidth / 2);
+      rotation =
+        this.gesture.rotation -
+        ((this.averageX() - this.gesture.x) / halfWidth) * this.maxRotation;
+    }
+
+    this.currentRotation = Math.max(
+      -this.maxRotation,
+      Math.min(this.maxRotation, rotation)
+    );
+  }
+
+  private averageX(): number {
+    let sum = 0;
+    this.pointers.forEach(({ x }) => (sum += x));
+    return this.pointers.size > 0 ? sum / this.pointers.size : 0;
+  }
+
+  /**
+   * Angle du segment entre les deux premiers doigts (null avec un seul pointeur)
+   */
+  private twistAngle(): number | null {
+    if (this.pointers.size < 2) return null;
+    const [a, b] = [...this.pointers.values()];
+    return Math.atan2(b.y - a.y, b.x - a.x);
+  }
+
+  private wrapAngle(angle: number): number {
+    return Math.atan2(Math.sin(angle), Math.cos(angle));
+  }
+}
@@ -0,0 +1,316 @@
+/**
+ * FlightEventDetector.ts - Détection des crashs et des événements de vol
+ *
+ * Rôle :
+ *   - Repère le contact avec le sol (point le plus bas du kite) et le classe en
+ *     crash ou atterrissage selon la vitesse d'impact, l'attitude et la partie touchée
+ *   - Signale les décrochages, les lignes molles et la surpuissance
+ *
+ * ConstraintSolver.handleGroundCollision se contente de maintenir le kite
+ * au-dessus du sol et annule sa vitesse verticale : la vitesse d'impact est donc
+ * celle du pas précédant le contact. Chaque événement est émis une fois, puis
+ * réarmé quand la situation cesse (hystérésis), pour ne pas inonder les observateurs.
+ *
+ * Au départ, le kite est posé à 95 % de la longueur de ligne et tire fort face
+ * au vent : les lignes molles ne comptent qu'une fois tendues, et la surpuissance
+ * doit durer pour écarter la secousse du lancement.
+ *
+ * Relation avec les fichiers adjacents :
+ *   - HeadlessSimulation.ts : Source des pas (addStepListener)
+ *   - FlightOutcomePolicy.ts : Décide du reset après un contact au sol
+ *   - AerodynamicsCalculator.ts : Angle d'attaque
+ *
+ * Utilisation typique :
+ *   const detector = new FlightEventDetector();
+ *   detector.addListener((event) => console.log(event.type, event.time));
+ *   detector.start(sim);
+ *   sim.run(60);
+ *
+ * Voir aussi :
+ *   - src/simulation/types/FlightEventTypes.ts
+ */
+import * as THREE from "three";
+import { HeadlessSimulation } from "../HeadlessSimulation";
+import { CONFIG } from "../config/SimulationConfig";
+import { AerodynamicsCalculator } from "../physics/AerodynamicsCalculator";
+import {
+  FlightEvent,
+  FlightEventListener,
+  FlightEventThresholds,
+  KitePart,
+  SimulationStepEvent,
+} from "../types";
+
+/** Marge au-dessus du sol sous laquelle le kite est considéré au contact (m) */
+const CONTACT_MARGIN = 0.02;
+/** Hauteur à regagner pour que le kite soit de nouveau en vol (m) */
+const TAKEOFF_MARGIN = 0.2;
+/** Fraction du seuil sous laquelle décrochage et surpuissance sont réarmés */
+const REARM_RATIO = 0.9;
+/** Nombre d'événements conservés dans l'historique */
+const HISTORY_SIZE = 100;
+
+/**
+ * Détecteur d'événements de vol
+ */
+export class FlightEventDetector {
+  static readonly DEFAULT_THRESHOLDS: FlightEventThresholds = {
+    crashSpeed: 2.5,
+    noseDiveAngle: 30,
+    noseDiveSpeed: 0.5,
+    stallAngle: 60,
+    stallDuration: 0.5,
+    slackDuration: 0.3,
+    overpoweredTraction: 30,
+    overpoweredDuration: 0.5,
+  };
+
+  private thresholds: FlightEventThresholds;
+  private listeners: FlightEventListener[] = [];
+  private history: FlightEvent[] = [];
+  private unsubscribe: (() => void) | null = null;
+  private simulation: HeadlessSimulation | null = null;
+
+  private grounded = false;
+  private previousVelocity = new THREE.Vector3();
+  private stallTime = 0;
+  private stalled = false;
+  private slackTime = 0;
+  private slack = false;
+  /** Les deux lignes ont été tendues depuis le reset */
+  private linesTensioned = false;
+  private overpoweredTime = 0;
+  private overpowered = false;
+
+  constructor(thresholds: Partial<FlightEventThresholds> = {}) {
+    this.thresholds = {
+      ...FlightEventDetector.DEFAULT_THRESHOLDS,
+      ...thresholds,
+    };
+  }
+
+  getThresholds(): FlightEventThresholds {
+    return { ...this.thresholds };
+  }
+
+  setThresholds(thresholds: Partial<FlightEventThresholds>): void {
+    this.thresholds = { ...this.thresholds, ...thresholds };
+  }
+
+  /**
+   * Suit les pas de la simulation (l'état de détection repart à chaque reset)
+   */
+  start(simulation: HeadlessSimulation): void {
+    this.stop();
+    this.simulation = simulation;
+    this.unsubscribe = simulation.addStepListener((event) =>
+      this.onStep(event)
+    );
+  }
+
+  stop(): void {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    this.simulation = null;
+  }
+
+  /**
+   * Abonne un observateur aux événements
+   * @returns Fonction de désabonnement
+   */
+  addListener(listener: FlightEventListener): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter((l) => l !== listener);
+    };
+  }
+
+  /** Derniers événements, du plus ancien au plus récent */
+  getHistory(): FlightEvent[] {
+    return [...this.history];
+  }
+
+  clearHistory(): void {
+    this.history = [];
+  }
+
+  /** Kite posé au sol depuis le dernier contact */
+  isGrounded(): boolean {
+    return this.grounded;
+  }
+
+  private onStep(event: SimulationStepEvent): void {
+    const { state, frame, time, deltaTime } = event;
+    if (event.stepIndex === 0) this.rearm();
+
+    const contact = this.lowestPoint(state.position, state.orientation);
+    const ground = CONFIG.kite.minHeight;
+
+    if (!this.grounded && contact.height <= ground + CONTACT_MARGIN) {
+      this.grounded = true;
+      this.emitGroundContact(
+        time,
+        state.position,
+        state.orientation,
+        contact.part
+      );
+    } else if (this.grounded && contact.height > ground + TAKEOFF_MARGIN) {
+      this.grounded = false;
+    }
+    this.previousVelocity.copy(state.velocity);
+
+    // Décrochage, lignes et puissance n'ont de sens qu'en vol
+    if (this.grounded) {
+      this.stallTime = 0;
+      this.slackTime = 0;
+      this.overpoweredTime = 0;
+      return;
+    }
+
+    const t = this.thresholds;
+    const angleOfAttack = AerodynamicsCalculator.computeAngleOfAttack(
+      frame.apparentWind,
+      state.orientation
+    );
+    if (angleOfAttack >= t.stallAngle) {
+      this.stallTime += deltaTime;
+      if (!this.stalled && this.stallTime >= t.stallDuration) {
+        this.stalled = true;
+        this.emit({
+          type: "stalled",
+          time,
+          position: state.position.clone(),
+          angleOfAttack,
+        });
+      }
+    } else {
+      this.stallTime = 0;
+      if (angleOfAttack < t.stallAngle * REARM_RATIO) this.stalled = false;
+    }
+
+    const { left, right } = frame.lines;
+    if (left.taut && right.taut) this.linesTensioned = true;
+    if (this.linesTensioned && (!left.taut || !right.taut)) {
+      this.slackTime += deltaTime;
+      if (!this.slack && this.slackTime >= t.slackDuration) {
+        this.slack = true;
+        const side =
+          !left.taut && !right.taut ? "both" : !left.taut ? "left" : "right";
+        this.emit({
+          type: "lineSlack",
+          time,
+          position: state.position.clone(),
+          side,
+        });
+      }
+    } else {
+      this.slackTime = 0;
+      this.slack = false;
+    }
+
+    const pilotPosition =
+      this.simulation?.getPilotPosition() ?? CONFIG.controlBar.position;
+    const radial = state.position.clone().sub(pilotPosition).normalize();
+    const traction = frame.lift.clone().add(frame.drag).dot(radial);
+    if (traction >= t.overpoweredTraction) {
+      this.overpoweredTime += deltaTime;
+      if (!this.overpowered && this.overpoweredTime >= t.overpoweredDuration) {
+        this.overpowered = true;
+        this.emit({
+          type: "overpowered",
+          time,
+          position: state.position.clone(),
+          traction,
+        });
+      }
+    } else {
+      this.overpoweredTime = 0;
+      if (traction < t.overpoweredTraction * REARM_RATIO) {
+        this.overpowered = false;
+      }
+    }
+  }
+
+  /**
+   * Crash si l'impact est violent, ou si le nez plonge dans le sol ; sinon atterrissage
+   */
+  private emitGroundContact(
+    time: number,
+    position: THREE.Vector3,
+    orientation: THREE.Quaternion,
+    part: KitePart
+  ): void {
+    const t = this.thresholds;
+    const impactSpeed = this.previousVelocity.length();
+    const nose = new THREE.Vector3(0, 1, 0).applyQuaternion(orientation);
+    const noseAngle = THREE.MathUtils.radToDeg(
+      Math.asin(THREE.MathUtils.clamp(nose.y, -1, 1))
+    );
+
+    const noseDive =
+      part === "nose" &&
+      noseAngle <= -t.noseDiveAngle &&
+      impactSpeed >= t.noseDiveSpeed;
+    const crash = impactSpeed >= t.crashSpeed || noseDive;
+
+    this.emit({
+      type: crash ? "crash" : "landed",
+      time,
+      position: position.clone(),
+      impactSpeed,
+      part,
+      noseAngle,
+    });
+  }
+
+  /**
+   * Point le plus bas du kite (mêmes points que la collision au sol) et sa partie
+   */
+  private lowestPoint(
+    position: THREE.Vector3,
+    orientation: THREE.Quaternion
+  ): { height: number; part: KitePart } {
+    const kite = this.simulation?.getKite();
+    let height = position.y;
+    let part: KitePart = "tail";
+    if (!kite) return { height, part };
+
+    const world = new THREE.Vector3();
+    kite.getPointsMap().forEach(([x, y, z], name) => {
+      world.set(x, y, z).applyQuaternion(orientation).add(position);
+      if (world.y < height) {
+        height = world.y;
+        part = FlightEventDetector.partOf(name);
+      }
+    });
+    return { height, part };
+  }
+
+  private static partOf(pointName: string): KitePart {
+    if (pointName.startsWith("CTRL_") || pointName.startsWith("BRIDE_")) {
+      return "bridle";
+    }
+    if (pointName === "NEZ") return "nose";
+    if (pointName.endsWith("GAUCHE")) return "leftWing";
+    if (pointName.endsWith("DROIT")) return "rightWing";
+    return "tail";
+  }
+
+  private rearm(): void {
+    this.grounded = false;
+    this.previousVelocity.set(0, 0, 0);
+    this.stallTime = 0;
+    this.stalled = false;
+    this.slackTime = 0;
+    this.slack = false;
+    this.linesTensioned = false;
+    this.overpoweredTime = 0;
+    this.overpowered = false;
+  }
+
+  private emit(event: FlightEvent): void {
+    this.history.push(event);
+    if (this.history.length > HISTORY_SIZE) this.history.shift();
+    this.listeners.forEach((listener) => listener(event));
+  }
+}
@@ -0,0 +1,104 @@
+/**
+ * FlightOutcomePolicy.ts - Reset automatique ou kite laissé au sol
+ *
+ * Rôle :
+ *   - Après un crash (ou tout contact, selon le réglage), programme un reset
+ *     au bout d'un délai en temps simulé
+ *   - Sinon laisse le kite au sol, où le pilote peut tenter de le relancer
+ *
+ * La politique ne redémarre rien elle-même : elle appelle la fonction de reset
+ * fournie (SimulationApp.resetSimulation dans l'application, sim.reset() en
+ * headless), hors du pas physique en cours.
+ *
+ * Relation avec les fichiers adjacents :
+ *   - FlightEventDetector.ts : Fournit les événements de contact au sol
+ *
+ * Utilisation typique :
+ *   const policy = new FlightOutcomePolicy(() => sim.reset());
+ *   detector.addListener((event) => policy.handle(event));
+ *   // après chaque pas ou chaque frame :
+ *   policy.update(sim.getTime());
+ *
+ * Voir aussi :
+ *   - src/simulation/types/FlightEventTypes.ts
+ */
+import { FlightEvent, FlightOutcomeSettings } from "../types";
+
+/**
+ * Politique après un contact au sol
+ */
+export class FlightOutcomePolicy {
+  static readonly DEFAULT_SETTINGS: FlightOutcomeSettings = {
+    resetOn: "crash",
+    resetDelay: 2,
+  };
+
+  private readonly reset: () => void;
+  private settings: FlightOutcomeSettings;
+  /** Événement et temps simulé du reset programmé */
+  private pending: { event: FlightEvent; dueTime: number } | null = null;
+
+  constructor(
+    reset: () => void,
+    settings: Partial<FlightOutcomeSettings> = {}
+  ) {
+    this.reset = reset;
+    this.settings = { ...FlightOutcomePolicy.DEFAULT_SETTINGS, ...settings };
+  }
+
+  getSettings(): FlightOutcomeSettings {
+    return { ...this.settings };
+  }
+
+  setSettings(settings: Partial<FlightOutcomeSettings>): void {
+    this.settings = { ...this.settings, ...settings };
+    if (this.pending && !this.shouldReset(this.pending.event)) this.cancel();
+  }
+
+  /**
+   * Programme un reset si l'événement le demande
+   */
+  handle(event: FlightEvent): void {
+    if (this.pending || !this.shouldReset(event)) return;
+    this.pending = { event, dueTime: event.time + this.settings.resetDelay };
+  }
+
+  /**
+   * Déclenche le reset programmé quand son heure est venue
+   * @param time - Temps simulé courant ; s'il recule, la simulation a déjà été
+   *   réinitialisée par ailleurs et le reset programmé est abandonné
+   */
+  update(time: number): void {
+    if (!this.pending) return;
+    if (time < this.pending.event.time) {
+      this.cancel();
+      return;
+    }
+    if (time >= this.pending.dueTime) {
+      this.pending = null;
+      this.reset();
+    }
+  }
+
+  cancel(): void {
+    this.pending = null;
+  }
+
+  /**
+   * Temps simulé restant avant le reset programmé (null : aucun)
+   */
+  getRemainingTime(time: number): number | null {
+    return this.pending ? Math.max(0, this.pending.dueTime - time) : null;
+  }
+
+  private shouldReset(event: FlightEvent): boolean {
+    switch (this.settings.resetOn) {
+      case "crash":
+        return event.type === "crash";
+      case "any":
+        return event.type === "crash" || event.type === "landed";
+      case "never":
+        return false;
+    }
+  }
+}
@@ -4,26 +4,79 @@
 
 // Export de la classe principale
 export { Simulation } from './SimulationApp';
+export * from './HeadlessSimulation';
+export * from './MultiKiteSimulation';
 
 // Re-export de tous les modules pour faciliter l'importation
 export * from './config/PhysicsConstants';
 export * from './config/KiteGeometry';
 export * from './config/SimulationConfig';
+export * from './config/WindScenarios';
+export * from './config/ConfigSnapshot';
+export * from './config/ConfigProfiles';
+export * from './config/ConfigValidator';
+export * from './config/ConfigParameters';
 
 export * from './types';
 
 export * from './physics/WindSimulator';
+export * from './physics/WindField';
+export * from './physics/WindWindow';
+export * from './physics/SeededRandom';
+export * from './physics/TurbulenceGenerator';
+export * from './physics/WindScenarioPlayer';
 export * from './physics/AerodynamicsCalculator';
 export * from './physics/LineSystem';
 export * from './physics/PhysicsEngine';
+export * from './physics/FixedTimestepLoop';
+export * from './physics/DampingModel';
+export * from './physics/integrators/RigidBodyIntegrator';
+export * from './physics/integrators/SemiImplicitEulerIntegrator';
+export * from './physics/integrators/VelocityVerletIntegrator';
+export * from './physics/integrators/RungeKutta4Integrator';
+export * from './physics/integrators/IntegratorFactory';
+
+export * from './recording/FlightRecorder';
+export * from './recording/FlightReplay';
+export * from './recording/RecordedInput';
+export * from './telemetry/TelemetryChannels';
+export * from './telemetry/TelemetrySession';
+export * from './telemetry/RollingSeries';
+export * from './learning/KiteEnv';
+export * from './learning/Rewards';
+export * from './events/FlightEventDetector';
+export * from './events/FlightOutcomePolicy';
+export * from './tricks/TrickRecognizer';
 
 export * from './controllers/ControlBarManager';
 export * from './controllers/KiteController';
 export * from './controllers/InputHandler';
+export * from './controllers/KeyboardInput';
+export * from './controllers/KeyBindings';
+export * from './controllers/GamepadInput';
+export * from './controllers/PointerSteeringInput';
+export * from './controllers/Autopilot';
+export * from './controllers/MirrorInput';
 
 export * from './rendering/RenderManager';
 export * from './rendering/DebugRenderer';
+export * from './rendering/RenderInterpolator';
+export * from './rendering/WindWindowOverlay';
+export * from './rendering/KiteRigView';
 
 export * from './ui/UIManager';
+export * from './ui/RecorderPanel';
+export * from './ui/TelemetryPanel';
+export * from './ui/ChartPanel';
+export * from './ui/ProfilePanel';
+export * from './ui/TuningPanel';
+export * from './ui/GamepadPanel';
+export * from './ui/SteeringWidget';
+export * from './ui/KeyBindingsPanel';
+export * from './ui/AutopilotPanel';
+export * from './ui/WindWindowPanel';
+export * from './ui/FlightEventsPanel';
+export * from './ui/TrickPanel';
+export * from './ui/RigsPanel';
 
 export * from './physics/ConstraintSolver';
\ No newline at end of file
@@ -0,0 +1,224 @@
+/**
+ * KiteEnv.ts - Environnement d'apprentissage par renforcement (style Gym)
+ *
+ * Rôle :
+ *   - reset(seed) / step(action) → { observation, reward, done, info }
+ *   - Déclare les espaces d'observation et d'action (boîtes bornées)
+ *   - Observation : état du kite, tensions des lignes, vent au kite, barre
+ *   - Action : une valeur dans [-1, 1], mise à l'échelle en rotation de barre
+ *   - Récompense interchangeable (voir Rewards.ts)
+ *
+ * Tourne sur HeadlessSimulation, sans DOM ni rendu : rien n'attend l'horloge,
+ * un épisode s'exécute aussi vite que la physique se calcule. Chaque action est
+ * maintenue `actionRepeat` pas physiques au pas fixe de l'application, pour que
+ * les politiques apprises se comportent pareil une fois branchées dans la scène.
+ *
+ * Relation avec les fichiers adjacents :
+ *   - HeadlessSimulation.ts : Simulation pilotée par l'environnement
+ *   - Rewards.ts : Récompenses prêtes à l'emploi
+ *   - Autopilot.ts : Contrôleur écrit à la main, à comparer aux politiques apprises
+ *
+ * Utilisation typique :
+ *   const env = new KiteEnv({ reward: Rewards.traction });
+ *   let observation = env.reset(42);
+ *   let done = false;
+ *   while (!done) {
+ *     ({ observation, done } = env.step(policy(observation)));
+ *   }
+ *
+ * Voir aussi :
+ *   - src/simulation/types/LearningTypes.ts
+ */
+import {
+  HeadlessSimulation,
+  HeadlessSimulationOptions,
+} from "../HeadlessSimulation";
+import { CONFIG } from "../config/SimulationConfig";
+import { InputHandler } from "../controllers/InputHandler";
+import {
+  BoxSpace,
+  EnvStepResult,
+  EpisodeEndReason,
+  RewardFunction,
+} from "../types";
+import { Rewards } from "./Rewards";
+
+/**
+ * Options de l'environnement
+ */
+export interface KiteEnvOptions {
+  /** Options de la simulation (vent, longueur de lignes, scénario, graine) */
+  simulation?: HeadlessSimulationOptions;
+  /** Récompense de chaque action (défaut : Rewards.elevation) */
+  reward?: RewardFunction;
+  /** Pas physiques par action (défaut : 4, soit 15 décisions par seconde) */
+  actionRepeat?: number;
+  /** Actions avant troncature de l'épisode (défaut : 900, soit une minute) */
+  maxEpisodeSteps?: number;
+  /** Altitude du kite sous laquelle l'épisode se termine (m) */
+  groundHeight?: number;
+}
+
+const UNBOUNDED = Number.POSITIVE_INFINITY;
+
+/**
+ * Composantes de l'observation, dans l'ordre du vecteur
+ */
+const OBSERVATION_LABELS = [
+  "pos_x", "pos_y", "pos_z",
+  "vel_x", "vel_y", "vel_z",
+  "angvel_x", "angvel_y", "angvel_z",
+  "quat_x", "quat_y", "quat_z", "quat_w",
+  "line_tension_left", "line_tension_right",
+  "wind_x", "wind_y", "wind_z",
+  "bar_rotation",
+];
+
+/**
+ * Environnement Gym autour de la simulation headless
+ */
+export class KiteEnv {
+  readonly observationSpace: BoxSpace;
+  readonly actionSpace: BoxSpace = {
+    type: "box",
+    shape: [1],
+    low: [-1],
+    high: [1],
+    labels: ["bar"],
+  };
+
+  private readonly simulation: HeadlessSimulation;
+  private readonly reward: RewardFunction;
+  private readonly actionRepeat: number;
+  private readonly maxEpisodeSteps: number;
+  private readonly groundHeight: number;
+  private episodeStep = 0;
+  private previousAction = 0;
+  private done = false;
+
+  constructor(options: KiteEnvOptions = {}) {
+    this.simulation = new HeadlessSimulation(options.simulation);
+    this.reward = options.reward ?? Rewards.elevation;
+    this.actionRepeat = Math.max(1, Math.floor(options.actionRepeat ?? 4));
+    this.maxEpisodeSteps = options.maxEpisodeSteps ?? 900;
+    this.groundHeight = options.groundHeight ?? CONFIG.kite.minHeight + 1;
+
+    const maxRotation = InputHandler.MAX_BAR_ROTATION;
+    const bounds: Record<string, [number, number]> = {
+      quat_x: [-1, 1],
+      quat_y: [-1, 1],
+      quat_z: [-1, 1],
+      quat_w: [-1, 1],
+      line_tension_left: [0, UNBOUNDED],
+      line_tension_right: [0, UNBOUNDED],
+      bar_rotation: [-maxRotation, maxRotation],
+    };
+    this.observationSpace = {
+      type: "box",
+      shape: [OBSERVATION_LABELS.length],
+      low: OBSERVATION_LABELS.map((label) => bounds[label]?.[0] ?? -UNBOUNDED),
+      high: OBSERVATION_LABELS.map((label) => bounds[label]?.[1] ?? UNBOUNDED),
+      labels: [...OBSERVATION_LABELS],
+    };
+  }
+
+  /**
+   * Démarre un nouvel épisode
+   * @param seed - Graine des turbulences (défaut : la graine courante)
+   * @returns Première observation
+   */
+  reset(seed?: number): number[] {
+    this.simulation.reset(seed);
+    this.episodeStep = 0;
+    this.previousAction = 0;
+    this.done = false;
+    return this.observe();
+  }
+
+  /**
+   * Applique une action pendant `actionRepeat` pas physiques
+   * @param action - Commande dans [-1, 1] (écrêtée), positive = barre tournée à gauche
+   * @throws Error si l'épisode est terminé (appeler reset())
+   */
+  step(action: number | number[]): EnvStepResult {
+    if (this.done) {
+      throw new Error("Épisode terminé : appeler reset() avant step()");
+    }
+
+    const raw = Array.isArray(action) ? action[0] : action;
+    const command = Number.isFinite(raw) ? Math.max(-1, Math.min(1, raw)) : 0;
+    const barRotation = command * InputHandler.MAX_BAR_ROTATION;
+    this.simulation.setBarRotation(barRotation);
+
+    let grounded = false;
+    for (let i = 0; i < this.actionRepeat && !grounded; i++) {
+      const state = this.simulation.step(CONFIG.physics.fixedTimeStep);
+      grounded = state.position.y <= this.groundHeight;
+    }
+    this.episodeStep++;
+
+    const truncated = !grounded && this.episodeStep >= this.maxEpisodeSteps;
+    const endReason: EpisodeEndReason | null = grounded
+      ? "ground"
+      : truncated
+        ? "timeLimit"
+        : null;
+    this.done = endReason !== null;
+
+    const reward = this.reward({
+      state: this.simulation.getState(),
+      frame: this.simulation.getLastFrame()!,
+      pilotPosition: this.simulation.getPilotPosition(),
+      action: command,
+      previousAction: this.previousAction,
+      grounded,
+    });
+    this.previousAction = command;
+
+    return {
+      observation: this.observe(),
+      reward,
+      done: this.done,
+      info: {
+        time: this.simulation.getTime(),
+        episodeStep: this.episodeStep,
+        barRotation,
+        truncated,
+        endReason,
+      },
+    };
+  }
+
+  /**
+   * Simulation sous-jacente (réglages de vent, de brides, télémétrie…)
+   */
+  getSimulation(): HeadlessSimulation {
+    return this.simulation;
+  }
+
+  /**
+   * Vecteur d'observation, positions relatives au pilote
+   */
+  private observe(): number[] {
+    const simulation = this.simulation;
+    const state = simulation.getState();
+    const frame = simulation.getLastFrame();
+    const position = state.position.clone().sub(simulation.getPilotPosition());
+    const wind = simulation
+      .getPhysicsEngine()
+      .getWindSimulator()
+      .getWindAt(state.position);
+    const { orientation: q } = state;
+
+    return [
+      ...position.toArray(),
+      ...state.velocity.toArray(),
+      ...state.angularVelocity.toArray(),
+      q.x, q.y, q.z, q.w,
+      frame?.lines.left.tension ?? 0,
+      frame?.lines.right.tension ?? 0,
+      ...wind.toArray(),
+      simulation.getBarRotation(),
+    ];
+  }
+}
@@ -0,0 +1,76 @@
+/**
+ * Rewards.ts - Fonctions de récompense prêtes à l'emploi pour KiteEnv
+ *
+ * Rôle :
+ *   - Récompenses élémentaires : hauteur dans la fenêtre, traction, douceur de barre
+ *   - Combinaison pondérée de plusieurs récompenses
+ *
+ * La traction est la force aérodynamique projetée sur l'axe pilote → kite : les
+ * tensions de LineSystem ne sont calculées que pour l'affichage (les lignes sont
+ * des contraintes de distance) et ne reflètent pas la puissance du kite.
+ *
+ * Toute fonction (RewardContext) => number peut remplacer celles-ci : c'est le
+ * point d'extension de l'environnement.
+ *
+ * Relation avec les fichiers adjacents :
+ *   - KiteEnv.ts : Appelle la récompense après chaque action
+ *
+ * Utilisation typique :
+ *   const reward = Rewards.weighted([
+ *     [Rewards.traction, 1],
+ *     [Rewards.smoothness, 0.1],
+ *   ]);
+ *   const env = new KiteEnv({ reward });
+ *
+ * Voir aussi :
+ *   - src/simulation/types/LearningTypes.ts
+ */
+import { CONFIG } from "../config/SimulationConfig";
+import { PhysicsConstants } from "../config/PhysicsConstants";
+import { RewardContext, RewardFunction } from "../types";
+
+/** Pénalité d'une chute au sol */
+const GROUND_PENALTY = -10;
+
+/**
+ * Catalogue de récompenses
+ */
+export class Rewards {
+  /**
+   * Sinus de l'élévation : 1 au zénith, 0 à l'horizon ; chute pénalisée
+   */
+  static elevation(context: RewardContext): number {
+    if (context.grounded) return GROUND_PENALTY;
+    const relative = context.state.position.clone().sub(context.pilotPosition);
+    return relative.y / Math.max(relative.length(), PhysicsConstants.EPSILON);
+  }
+
+  /**
+   * Traction vers l'extérieur de la fenêtre, en poids du kite ; chute pénalisée
+   */
+  static traction(context: RewardContext): number {
+    if (context.grounded) return GROUND_PENALTY;
+    const { lift, drag } = context.frame;
+    const radial = context.state.position
+      .clone()
+      .sub(context.pilotPosition)
+      .normalize();
+    const weight = CONFIG.kite.mass * CONFIG.physics.gravity;
+    return lift.clone().add(drag).dot(radial) / weight;
+  }
+
+  /**
+   * Pénalise les à-coups de barre (0 si l'action ne change pas)
+   */
+  static smoothness(context: RewardContext): number {
+    return -Math.abs(context.action - context.previousAction);
+  }
+
+  /**
+   * Somme pondérée de récompenses
+   */
+  static weighted(terms: Array<[RewardFunction, number]>): RewardFunction {
+    return (context) =>
+      terms.reduce((sum, [reward, weight]) => sum + weight * reward(context), 0);
+  }
+}
@@ -5,6 +5,8 @@
  *   - Calcule les forces de portance, traînée, friction et résultante sur chaque surface du kite
  *   - Utilisé pour déterminer le comportement du kite face au vent
  *   - Fournit les vecteurs de force pour le rendu debug et la physique
+ *   - Vent apparent propre à chaque surface (rotation du kite incluse) si une
+ *     cinématique SurfaceFlowContext est fournie
  *
  * Dépendances principales :
  *   - KiteGeometry.ts : Définition des surfaces et géométrie du kite
@@ -28,7 +30,7 @@ import * as THREE from "three";
 import { KiteGeometry } from "../config/KiteGeometry";
 import { PhysicsConstants } from "../config/PhysicsConstants";
 import { CONFIG } from "../config/SimulationConfig";
-import { SurfaceForce } from "../types/PhysicsTypes";
+import { SurfaceFlowContext, SurfaceForce } from "../types/PhysicsTypes";
 
 /**
  * Calculateur de forces aérodynamiques
@@ -48,10 +50,20 @@ export class AerodynamicsCalculator {
    * POURQUOI C'EST IMPORTANT :
    * Si un côté du kite reçoit plus de vent, il sera poussé plus fort
    * Cette différence fait tourner le kite naturellement !
+   *
+   * VENT LOCAL PAR SURFACE (si flow est fourni) :
+   * Chaque triangle voit vent(centre) - (v + ω × r), r = centre - origine du kite.
+   * Quand le kite tourne, le côté qui avance reçoit plus de vent que l'autre :
+   * c'est cet écart qui amortit le roulis et le lacet.
+   *
+   * @param apparentWind - Vent apparent à l'origine du kite (référence portance/traînée globales)
+   * @param kiteOrientation - Orientation du kite
+   * @param flow - Cinématique et champ de vent ; sans lui, toutes les surfaces voient apparentWind
    */
   static calculateForces(
     apparentWind: THREE.Vector3,
-    kiteOrientation: THREE.Quaternion
+    kiteOrientation: THREE.Quaternion,
+    flow?: SurfaceFlowContext
   ): {
     lift: THREE.Vector3;
     drag: THREE.Vector3;
@@ -61,7 +73,7 @@ export class AerodynamicsCalculator {
     surfaceForces: SurfaceForce[];
   } {
     const windSpeed = apparentWind.length();
-    if (windSpeed < 0.1) {
+    if (windSpeed < 0.1 && !flow) {
       return {
         lift: new THREE.Vector3(),
         drag: new THREE.Vector3(),
@@ -70,9 +82,8 @@ export class AerodynamicsCalculator {
       };
     }
 
-    const windDir = apparentWind.clone().normalize();
-    const dynamicPressure =
-      0.5 * CONFIG.physics.airDensity * windSpeed * windSpeed;
+    // Direction de référence pour la décomposition globale portance/traînée
+    const referenceWindDir = apparentWind.clone().normalize();
 
     // Forces séparées pour gauche et droite
     let leftForce = new THREE.Vector3();
@@ -86,6 +97,27 @@ export class AerodynamicsCalculator {
     // On examine chaque triangle du cerf-volant un par un
     // C'est comme vérifier comment le vent frappe chaque panneau d'un parasol
     KiteGeometry.SURFACES.forEach((surface, surfaceIndex) => {
+      // Centre de pression = centre géométrique du triangle
+      const centre = surface.vertices[0]
+        .clone()
+        .add(surface.vertices[1])
+        .add(surface.vertices[2])
+        .divideScalar(3);
+      // Bras de levier depuis l'origine du kite (repère monde)
+      const centreWorld = centre.clone().applyQuaternion(kiteOrientation);
+
+      // Vent apparent vu par cette surface
+      const localWind = flow
+        ? this.localApparentWind(centreWorld, flow)
+        : apparentWind.clone();
+      const localSpeed = localWind.length();
+      if (localSpeed < 0.1) {
+        return;
+      }
+      const windDir = localWind.clone().normalize();
+      const dynamicPressure =
+        0.5 * CONFIG.physics.airDensity * localSpeed * localSpeed;
+
       // Pour comprendre comment le vent frappe ce triangle,
       // on doit savoir dans quelle direction il "regarde"
       // (comme l'orientation d'un panneau solaire)
@@ -145,13 +177,6 @@ export class AerodynamicsCalculator {
       // Force totale = lift + drag
       const force = new THREE.Vector3().add(lift).add(drag);
 
-      // 6. Centre de pression = centre géométrique du triangle
-      const centre = surface.vertices[0]
-        .clone()
-        .add(surface.vertices[1])
-        .add(surface.vertices[2])
-        .divideScalar(3);
-
       // On note si cette force est sur le côté gauche ou droit
       // C'est important car si un côté a plus de force,
       // le kite va tourner (comme un bateau avec une seule rame)
@@ -184,13 +209,13 @@ export class AerodynamicsCalculator {
         center: centre.clone(), // Coordonnées locales du kite
         normal: normaleMonde.clone(),
         area: surface.area,
+        apparentWind: localWind,
       });
 
       // Le couple, c'est ce qui fait tourner le kite
       // Imaginez une porte : si vous poussez près des gonds, elle tourne peu
       // Si vous poussez loin des gonds, elle tourne beaucoup
       // Ici, plus la force est loin du centre, plus elle fait tourner
-      const centreWorld = centre.clone().applyQuaternion(kiteOrientation);
       const torque = new THREE.Vector3().crossVectors(centreWorld, force);
       totalTorque.add(torque);
 
@@ -208,8 +233,10 @@ export class AerodynamicsCalculator {
 
     // Décomposition globale lift/drag selon la direction du vent
     // Somme de toutes les forces par surface
-    const globalDragComponent = totalForce.dot(windDir);
-    const globalDrag = windDir.clone().multiplyScalar(globalDragComponent);
+    const globalDragComponent = totalForce.dot(referenceWindDir);
+    const globalDrag = referenceWindDir
+      .clone()
+      .multiplyScalar(globalDragComponent);
     const globalLift = totalForce.clone().sub(globalDrag);
 
     // Application des facteurs de configuration
@@ -237,6 +264,20 @@ export class AerodynamicsCalculator {
     };
   }
 
+  /**
+   * Vent apparent au point r (relatif à l'origine du kite) : vent(point) - (v + ω × r)
+   */
+  private static localApparentWind(
+    leverArm: THREE.Vector3,
+    flow: SurfaceFlowContext
+  ): THREE.Vector3 {
+    const worldPoint = flow.position.clone().add(leverArm);
+    const pointVelocity = new THREE.Vector3()
+      .crossVectors(flow.angularVelocity, leverArm)
+      .add(flow.velocity);
+    return flow.windAt(worldPoint).sub(pointVelocity);
+  }
+
   /**
    * Calcule des métriques pour le debug
    */
@@ -260,9 +301,24 @@ export class AerodynamicsCalculator {
     const dragMag = 0; // Traînée intégrée dans les forces totales
     const lOverD = 0; // Ratio non applicable pour un cerf-volant
 
-    // Calcul approximatif de l'angle d'attaque
-    const windDir = apparentWind.clone().normalize();
-    let weightedNormal = new THREE.Vector3();
+    const aoaDeg = this.computeAngleOfAttack(apparentWind, kiteOrientation);
+
+    return { apparentSpeed: windSpeed, liftMag, dragMag, lOverD, aoaDeg };
+  }
+
+  /**
+   * Angle d'attaque approximatif (degrés) : angle entre le vent apparent et la
+   * normale moyenne des surfaces, pondérée par leur aire et leur incidence
+   */
+  static computeAngleOfAttack(
+    apparentWind: THREE.Vector3,
+    kiteOrientation: THREE.Quaternion
+  ): number {
+    const windSpeed = apparentWind.length();
+    if (windSpeed < PhysicsConstants.EPSILON) return 0;
+
+    const windDir = apparentWind.clone().divideScalar(windSpeed);
+    const weightedNormal = new THREE.Vector3();
 
     KiteGeometry.SURFACES.forEach((surface) => {
       const edge1 = surface.vertices[1].clone().sub(surface.vertices[0]);
@@ -280,7 +336,6 @@ export class AerodynamicsCalculator {
       weightedNormal.add(normalDir.multiplyScalar(surface.area * cosIncidence));
     });
 
-    let aoaDeg = 0;
     if (
       weightedNormal.lengthSq() >
       PhysicsConstants.EPSILON * PhysicsConstants.EPSILON
@@ -288,9 +343,8 @@ export class AerodynamicsCalculator {
       const eff = weightedNormal.normalize();
       const dot = Math.max(-1, Math.min(1, eff.dot(windDir)));
       const phiDeg = (Math.acos(dot) * 180) / Math.PI;
-      aoaDeg = Math.max(0, 90 - phiDeg);
+      return Math.max(0, 90 - phiDeg);
     }
-
-    return { apparentSpeed: windSpeed, liftMag, dragMag, lOverD, aoaDeg };
+    return 0;
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,56 @@
+/**
+ * DampingModel.ts - Amortissements et filtres en temps continu
+ *
+ * Rôle :
+ *   - Convertit des taux d'amortissement (s⁻¹) et des constantes de temps (s)
+ *     en facteurs appliqués à chaque pas, quel que soit ce pas
+ *   - Garantit que la traînée effective ne dépend pas de la fréquence de mise à jour
+ *
+ * Modèle physique :
+ *   - Amortissement : dv/dt = -k·v  →  v(t+dt) = v(t)·e^(-k·dt)
+ *   - Filtre du 1er ordre : τ·dy/dt = x - y  →  y += (x - y)·(1 - e^(-dt/τ))
+ *
+ * Relation avec les fichiers adjacents :
+ *   - KiteController.ts : Amortit vitesses linéaire/angulaire et lisse les forces
+ *   - UIManager.ts : Affiche l'équivalent par pas des réglages en s⁻¹ et en s
+ *
+ * Voir aussi :
+ *   - src/simulation/config/SimulationConfig.ts (linearDampingRate, angularDampingRate, forceSmoothingTime)
+ */
+
+/**
+ * Fonctions d'amortissement indépendantes du pas de temps
+ */
+export class DampingModel {
+  /**
+   * Facteur multiplicatif à appliquer sur un pas pour un taux d'amortissement donné
+   * @param rate - Taux d'amortissement k (s⁻¹), 0 = pas d'amortissement
+   * @param deltaTime - Pas de temps (s)
+   * @returns e^(-k·dt), entre 0 et 1
+   */
+  static decayFactor(rate: number, deltaTime: number): number {
+    if (rate <= 0 || deltaTime <= 0) return 1;
+    return Math.exp(-rate * deltaTime);
+  }
+
+  /**
+   * Poids de la nouvelle valeur pour un filtre passe-bas du 1er ordre
+   * @param timeConstant - Constante de temps τ (s), 0 = pas de lissage
+   * @param deltaTime - Pas de temps (s)
+   * @returns 1 - e^(-dt/τ), entre 0 et 1
+   */
+  static filterBlend(timeConstant: number, deltaTime: number): number {
+    if (timeConstant <= 0) return 1;
+    if (deltaTime <= 0) return 0;
+    return 1 - Math.exp(-deltaTime / timeConstant);
+  }
+
+  /**
+   * Taux d'amortissement équivalent à un ancien facteur appliqué à chaque pas
+   * (ex: 0.80 par frame à 60 Hz ≈ 13.4 s⁻¹)
+   */
+  static rateFromStepFactor(factor: number, deltaTime: number): number {
+    if (factor >= 1 || deltaTime <= 0) return 0;
+    return -Math.log(Math.max(factor, Number.MIN_VALUE)) / deltaTime;
+  }
+}
@@ -0,0 +1,99 @@
+/**
+ * FixedTimestepLoop.ts - Ordonnanceur à pas de temps fixe pour la boucle physique
+ *
+ * Rôle :
+ *   - Découple le pas physique de la fréquence d'affichage (60 Hz, 144 Hz, laptop bridé...)
+ *   - Accumule le temps réel écoulé et le consomme en pas fixes (sous-pas)
+ *   - Fournit le facteur d'interpolation entre les deux derniers états physiques
+ *
+ * Dépendances principales :
+ *   - SimulationConfig.ts : fixedTimeStep et maxSubSteps
+ *
+ * Relation avec les fichiers adjacents :
+ *   - PhysicsEngine.ts : Reçoit toujours le même deltaTime (fixedTimeStep)
+ *   - RenderInterpolator.ts : Utilise getAlpha() pour lisser l'affichage
+ *
+ * Utilisation typique :
+ *   - SimulationApp appelle advance(clock.getDelta(), step) à chaque frame
+ *
+ * Voir aussi :
+ *   - src/simulation/rendering/RenderInterpolator.ts
+ *   - src/simulation/SimulationApp.ts
+ */
+import { CONFIG } from "../config/SimulationConfig";
+
+/**
+ * Boucle à pas fixe avec accumulateur (« Fix Your Timestep »)
+ *
+ * Le temps simulé avance exactement comme le temps réel tant que la machine
+ * suit. Au-delà de maxSubSteps pas par frame, le surplus est abandonné pour
+ * éviter la « spirale de la mort » (chaque frame plus lente que la précédente).
+ */
+export class FixedTimestepLoop {
+  private accumulator: number = 0;
+  private droppedTime: number = 0;
+
+  constructor(
+    private fixedTimeStep: number = CONFIG.physics.fixedTimeStep,
+    private maxSubSteps: number = CONFIG.physics.maxSubSteps
+  ) {}
+
+  /**
+   * Consomme le temps réel écoulé en pas physiques fixes
+   * @param frameDelta - Temps réel écoulé depuis la frame précédente (s)
+   * @param step - Appelé une fois par sous-pas avec le pas fixe
+   * @returns Nombre de sous-pas exécutés
+   */
+  advance(frameDelta: number, step: (deltaTime: number) => void): number {
+    this.accumulator += Math.max(0, frameDelta);
+
+    let subSteps = 0;
+    while (
+      this.accumulator >= this.fixedTimeStep &&
+      subSteps < this.maxSubSteps
+    ) {
+      step(this.fixedTimeStep);
+      this.accumulator -= this.fixedTimeStep;
+      subSteps++;
+    }
+
+    // Machine trop lente : on abandonne le retard plutôt que d'accumuler
+    if (this.accumulator >= this.fixedTimeStep) {
+      const excess = this.accumulator - (this.accumulator % this.fixedTimeStep);
+      this.droppedTime += excess;
+      this.accumulator -= excess;
+    }
+
+    return subSteps;
+  }
+
+  /**
+   * Fraction du pas suivant déjà écoulée (0 → 1)
+   * 0 = afficher l'état précédent, 1 = afficher l'état courant
+   */
+  getAlpha(): number {
+    return this.accumulator / this.fixedTimeStep;
+  }
+
+  /** Temps réel abandonné depuis le dernier reset (s) */
+  getDroppedTime(): number {
+    return this.droppedTime;
+  }
+
+  getFixedTimeStep(): number {
+    return this.fixedTimeStep;
+  }
+
+  setFixedTimeStep(fixedTimeStep: number): void {
+    this.fixedTimeStep = fixedTimeStep;
+  }
+
+  setMaxSubSteps(maxSubSteps: number): void {
+    this.maxSubSteps = Math.max(1, Math.floor(maxSubSteps));
+  }
+
+  reset(): void {
+    this.accumulator = 0;
+    this.droppedTime = 0;
+  }
+}
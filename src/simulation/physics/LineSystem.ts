@@ -18,6 +18,7 @@ import { LinePhysics } from "./LinePhysics";
 import { LineFactory } from "@factories/LineFactory";
 import { ControlBarManager } from "../controllers/ControlBarManager";
 import { PhysicsConstants } from "../config/PhysicsConstants";
+import { LineSample } from "../types";
 
 export class LineSystem {
   private leftLine: Line;
@@ -27,6 +28,7 @@ export class LineSystem {
   private previousRightKitePos: THREE.Vector3 | null = null;
   private previousLeftBarPos: THREE.Vector3 | null = null;
   private previousRightBarPos: THREE.Vector3 | null = null;
+  private lastSamples: { left: LineSample; right: LineSample } | null = null;
 
   constructor(lineLength?: number) {
     const [left, right] = LineFactory.createLinePair(lineLength);
@@ -71,6 +73,10 @@ export class LineSystem {
     // Mettre à jour l'état des lignes (pour affichage)
     this.leftLine.updateState(leftResult.currentLength, leftResult.tension, performance.now());
     this.rightLine.updateState(rightResult.currentLength, rightResult.tension, performance.now());
+    this.lastSamples = {
+      left: this.toSample(leftResult.tension, leftWorld.distanceTo(handles.left)),
+      right: this.toSample(rightResult.tension, rightWorld.distanceTo(handles.right)),
+    };
 
     // Mémoriser positions pour prochain frame
     this.previousLeftKitePos = leftWorld.clone();
@@ -124,6 +130,30 @@ export class LineSystem {
     return totalTorque;
   }
 
+  /**
+   * Tensions et distances issues du dernier calculateLineTensions
+   */
+  getLineSamples(): { left: LineSample; right: LineSample } {
+    if (!this.lastSamples) {
+      return {
+        left: this.toSample(this.leftLine.getCurrentTension(), 0),
+        right: this.toSample(this.rightLine.getCurrentTension(), 0),
+      };
+    }
+    return {
+      left: { ...this.lastSamples.left },
+      right: { ...this.lastSamples.right },
+    };
+  }
+
+  private toSample(tension: number, length: number): LineSample {
+    return {
+      tension,
+      length,
+      taut: length >= this.lineLength - PhysicsConstants.CONTROL_DEADZONE,
+    };
+  }
+
   calculateCatenary(start: THREE.Vector3, end: THREE.Vector3, segments: number = PhysicsConstants.CATENARY_SEGMENTS): THREE.Vector3[] {
     const tension = this.leftLine.getCurrentTension();
     return this.physics.calculateCatenaryPoints(this.leftLine, start, end, tension, segments);
@@ -137,6 +167,7 @@ export class LineSystem {
     this.previousRightKitePos = null;
     this.previousLeftBarPos = null;
     this.previousRightBarPos = null;
+    this.lastSamples = null;
   }
 
   get lineLength(): number {
@@ -5,6 +5,7 @@
  *   - Orchestration de tous les calculs physiques du cerf-volant (vent, lignes, forces, contrôles)
  *   - Point d'entrée pour la boucle de simulation physique (appelé à chaque frame)
  *   - Centralise l'accès aux sous-modules physiques
+ *   - Publie à chaque pas un PhysicsFrame (vent, forces, tensions) lu par le rendu et l'UI
  *
  * Dépendances principales :
  *   - WindSimulator.ts : Simulation du vent et turbulences
@@ -22,6 +23,7 @@
  * Utilisation typique :
  *   - Instancié au démarrage, appelé à chaque frame pour mettre à jour la physique
  *   - Sert d'API centrale pour accéder à l'état physique du kite
+ *   - getLastFrame() pour afficher exactement ce que la physique a appliqué
  *
  * Voir aussi :
  *   - src/simulation/physics/WindSimulator.ts
@@ -38,7 +40,14 @@ import { BridleSystem } from "./BridleSystem";
 import { AerodynamicsCalculator } from "./AerodynamicsCalculator";
 import { KiteController } from "../controllers/KiteController";
 import { ControlBarManager } from "../controllers/ControlBarManager";
-import { WindParams } from "../types";
+import {
+  KiteLoads,
+  KiteState,
+  PhysicsFrame,
+  SurfaceForce,
+  WindParams,
+  WindScenario,
+} from "../types";
 import { CONFIG } from "../config/SimulationConfig";
 
 /**
@@ -52,6 +61,8 @@ export class PhysicsEngine {
   private bridleSystem: BridleSystem;
   private kiteController: KiteController;
   private controlBarManager: ControlBarManager;
+  private time: number = 0;
+  private lastFrame: PhysicsFrame | null = null;
 
   constructor(kite: Kite, controlBarPosition: THREE.Vector3) {
     this.windSimulator = new WindSimulator();
@@ -62,7 +73,8 @@ export class PhysicsEngine {
   }
 
   /**
-   * LE CŒUR DE LA SIMULATION - Appelée 60 fois par seconde
+   * LE CŒUR DE LA SIMULATION - Appelée à chaque pas physique fixe
+   * (CONFIG.physics.fixedTimeStep, voir FixedTimestepLoop)
    *
    * C'est ici que tout se passe ! Cette fonction orchestre toute la physique.
    *
@@ -98,29 +110,24 @@ export class PhysicsEngine {
     const kite = this.kiteController.getKite();
     const handles = this.controlBarManager.getHandlePositions(kite.position);
 
-    // Vent apparent = vent réel - vitesse du kite (principe de relativité)
+    // Efforts extérieurs dans l'état courant (publiés dans l'instantané du pas)
+    this.windSimulator.update(deltaTime);
     const kiteState = this.kiteController.getState();
-    const apparentWind = this.windSimulator.getApparentWind(
-      kiteState.velocity,
-      deltaTime
-    );
-
-    // PHYSIQUE ÉMERGENTE 1 : Forces aéro calculées par surface
-    // Le couple émerge de la différence gauche/droite naturelle
-    const {
-      lift,
-      drag,
-      torque: aeroTorque,
-    } = AerodynamicsCalculator.calculateForces(apparentWind, kite.quaternion);
+    const loads = this.computeLoads(kiteState);
+    const { wind, apparentWind, lift, drag, surfaceForces } = loads;
 
-    // Force constante vers le bas (F = mg)
-    const gravity = new THREE.Vector3(
-      0,
-      -CONFIG.kite.mass * CONFIG.physics.gravity,
-      0
+    // Intégration physique : F=ma et T=Iα pour calculer nouvelle position/orientation
+    // L'intégrateur recalcule les efforts à chacune de ses étapes intermédiaires
+    this.kiteController.update(
+      loads,
+      (stage) => this.computeLoads(stage),
+      handles,
+      deltaTime
     );
+    this.time += deltaTime;
 
-    // CALCUL DES TENSIONS (pour affichage/debug uniquement)
+    // CALCUL DES TENSIONS (pour affichage/debug uniquement), dans la position
+    // de fin de pas : lignes et brides de l'instantané suivent kiteState
     // Les lignes ne TIRENT PAS le kite - elles le RETIENNENT à distance max
     // La contrainte géométrique est appliquée par ConstraintSolver dans KiteController
     const pilotPosition = this.controlBarManager.getPosition();
@@ -134,19 +141,77 @@ export class PhysicsEngine {
     // Mettre à jour la visualisation des brides selon leurs tensions
     kite.updateBridleVisualization(bridleTensions);
 
+    // Publier l'instantané du pas : rendu et UI le lisent sans recalculer
+    this.lastFrame = {
+      time: this.time,
+      deltaTime,
+      barRotation: newRotation,
+      kiteState: this.kiteController.getState(),
+      windParams: this.windSimulator.getParams(),
+      wind,
+      apparentWind,
+      lift,
+      drag,
+      totalForce: loads.force,
+      torque: loads.torque,
+      surfaceForces,
+      lineLength: this.lineSystem.lineLength,
+      lines: this.lineSystem.getLineSamples(),
+      bridleTensions,
+    };
+  }
+
+  /**
+   * Efforts extérieurs subis par le kite dans un état donné
+   * Appelé pour l'état courant, puis par l'intégrateur pour chacune de ses
+   * étapes (Verlet, RK4) : position, vitesse, orientation et ω de l'étape
+   */
+  private computeLoads(state: KiteState): KiteLoads & {
+    wind: THREE.Vector3;
+    apparentWind: THREE.Vector3;
+    lift: THREE.Vector3;
+    drag: THREE.Vector3;
+    surfaceForces: SurfaceForce[];
+  } {
+    // Vent apparent = vent réel - vitesse du kite (principe de relativité)
+    const wind = this.windSimulator.getWindAt(state.position);
+    const apparentWind = wind.clone().sub(state.velocity);
+
+    // PHYSIQUE ÉMERGENTE 1 : Forces aéro calculées par surface
+    // Chaque surface voit son propre vent apparent (v + ω × r) :
+    // le couple émerge de la différence gauche/droite naturelle
+    const { lift, drag, torque, surfaceForces } =
+      AerodynamicsCalculator.calculateForces(apparentWind, state.orientation, {
+        position: state.position,
+        velocity: state.velocity,
+        angularVelocity: state.angularVelocity,
+        windAt: (point) => this.windSimulator.getWindAt(point),
+      });
+
+    // Force constante vers le bas (F = mg)
+    const gravity = new THREE.Vector3(
+      0,
+      -CONFIG.kite.mass * CONFIG.physics.gravity,
+      0
+    );
+
     // Somme vectorielle de toutes les forces (2ème loi de Newton)
-    const totalForce = new THREE.Vector3()
+    // PAS de forces de lignes - elles sont des contraintes géométriques
+    const force = new THREE.Vector3()
       .add(lift) // Forces aérodynamiques totales (lift + drag combinés)
       .add(drag) // (Vide - traînée intégrée dans lift)
       .add(gravity); // Poids vers le bas
-      // PAS de forces de lignes - elles sont des contraintes géométriques
 
     // Couple total = moment aérodynamique uniquement
     // Les lignes n'appliquent PAS de couple - elles contraignent la position
-    const totalTorque = aeroTorque.clone();
+    return { wind, apparentWind, lift, drag, surfaceForces, force, torque };
+  }
 
-    // Intégration physique : F=ma et T=Iα pour calculer nouvelle position/orientation
-    this.kiteController.update(totalForce, totalTorque, handles, deltaTime);
+  /**
+   * Instantané du dernier pas physique (null avant le premier pas)
+   */
+  getLastFrame(): PhysicsFrame | null {
+    return this.lastFrame;
   }
 
   setBridleFactor(_factor: number): void {
@@ -166,6 +231,13 @@ export class PhysicsEngine {
     this.windSimulator.setParams(params);
   }
 
+  /**
+   * Joue un scénario de vent scripté (null = retour aux paramètres des curseurs)
+   */
+  setWindScenario(scenario: WindScenario | null): void {
+    this.windSimulator.setScenario(scenario);
+  }
+
   setLineLength(length: number): void {
     this.lineSystem.setLineLength(length);
     this.kiteController.setLineLength(length);
@@ -0,0 +1,72 @@
+/**
+ * SeededRandom.ts - Générateur pseudo-aléatoire reproductible
+ *
+ * Rôle :
+ *   - Fournit des tirages uniformes et gaussiens à partir d'une graine entière
+ *   - Une même graine redonne toujours la même séquence (replays, comparaisons, tests)
+ *
+ * Algorithme :
+ *   - mulberry32 (état 32 bits, période 2³²) pour les tirages uniformes
+ *   - Box-Muller pour les tirages gaussiens (le second tirage est conservé)
+ *
+ * Relation avec les fichiers adjacents :
+ *   - TurbulenceGenerator.ts : Bruit blanc des filtres de turbulence
+ *
+ * Voir aussi :
+ *   - src/simulation/physics/WindSimulator.ts
+ */
+
+/**
+ * Générateur pseudo-aléatoire à graine
+ */
+export class SeededRandom {
+  private seed: number = 0;
+  private state: number = 0;
+  private spareGaussian: number | null = null;
+
+  constructor(seed: number) {
+    this.reset(seed);
+  }
+
+  /**
+   * Repart du début de la séquence associée à la graine
+   */
+  reset(seed: number = this.seed): void {
+    this.seed = seed >>> 0;
+    this.state = this.seed;
+    this.spareGaussian = null;
+  }
+
+  getSeed(): number {
+    return this.seed;
+  }
+
+  /**
+   * Tirage uniforme dans [0, 1)
+   */
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  /**
+   * Tirage gaussien centré réduit (moyenne 0, écart-type 1)
+   */
+  nextGaussian(): number {
+    if (this.spareGaussian !== null) {
+      const spare = this.spareGaussian;
+      this.spareGaussian = null;
+      return spare;
+    }
+
+    const u1 = 1 - this.next(); // ]0, 1] : évite ln(0)
+    const u2 = this.next();
+    const radius = Math.sqrt(-2 * Math.log(u1));
+    const angle = 2 * Math.PI * u2;
+    this.spareGaussian = radius * Math.sin(angle);
+    return radius * Math.cos(angle);
+  }
+}
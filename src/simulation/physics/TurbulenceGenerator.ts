@@ -0,0 +1,157 @@
+/**
+ * TurbulenceGenerator.ts - Turbulence stochastique selon le spectre de Dryden
+ *
+ * Rôle :
+ *   - Produit les rafales (longitudinale u, latérale v, verticale w) par filtrage
+ *     d'un bruit blanc gaussien reproductible (SeededRandom)
+ *   - Respecte les échelles de longueur et les intensités configurées
+ *
+ * Modèle physique (Dryden, MIL-F-8785C), avec T = L / V :
+ *   - H_u(s) = σ_u · √(2·L_u / (π·V)) / (1 + T_u·s)
+ *   - H_v(s) = σ_v · √(L_v / (π·V)) · (1 + √3·T_v·s) / (1 + T_v·s)²  (idem pour w)
+ *   - V = vitesse du vent moyen qui transporte le champ turbulent (hypothèse de Taylor)
+ *   - Les filtres sont calculés pour σ = 1, l'intensité est appliquée en sortie :
+ *     changer la turbulence en cours de vol ne crée pas de transitoire
+ *
+ * Discrétisation :
+ *   - Chaque étage du 1er ordre est intégré exactement pour une entrée constante
+ *     sur le pas : x += (x_entrée - x)·(1 - e^(-dt/T))
+ *   - Le bruit blanc (densité spectrale unilatérale 1) vaut n·√(π/dt), n ~ N(0, 1)
+ *   - Trois tirages gaussiens par pas, quelle que soit l'intensité : la séquence
+ *     de rafales ne dépend que de la graine et du nombre de pas
+ *
+ * Relation avec les fichiers adjacents :
+ *   - WindSimulator.ts : Fait avancer le générateur et projette les rafales dans le repère monde
+ *   - SeededRandom.ts : Source du bruit blanc
+ *
+ * Voir aussi :
+ *   - src/simulation/config/SimulationConfig.ts (CONFIG.wind.turbulence*)
+ */
+import * as THREE from "three";
+import { CONFIG } from "../config/SimulationConfig";
+import { SeededRandom } from "./SeededRandom";
+
+/** Vitesse de transport minimale (m/s) pour garder T = L/V fini par vent nul */
+const MIN_TRANSPORT_SPEED = 1;
+
+/**
+ * Générateur de rafales de Dryden
+ */
+export class TurbulenceGenerator {
+  private random: SeededRandom;
+  private initialized = false;
+
+  // États des filtres (σ = 1)
+  private longitudinal = 0;
+  private lateral: [number, number] = [0, 0];
+  private vertical: [number, number] = [0, 0];
+
+  // Dernière sortie normalisée (u, v, w), écart-type ≈ 1
+  private gust = new THREE.Vector3();
+
+  constructor(seed: number = CONFIG.wind.turbulenceSeed) {
+    this.random = new SeededRandom(seed);
+  }
+
+  /**
+   * Remet les filtres à zéro et repart du début de la séquence de la graine
+   */
+  reset(seed: number = this.random.getSeed()): void {
+    this.random.reset(seed);
+    this.initialized = false;
+    this.longitudinal = 0;
+    this.lateral = [0, 0];
+    this.vertical = [0, 0];
+    this.gust.set(0, 0, 0);
+  }
+
+  getSeed(): number {
+    return this.random.getSeed();
+  }
+
+  /**
+   * Fait avancer les filtres d'un pas
+   * @param deltaTime - Pas de temps (s)
+   * @param meanWindSpeed - Vitesse du vent moyen (m/s)
+   */
+  update(deltaTime: number, meanWindSpeed: number): void {
+    if (deltaTime <= 0) return;
+
+    const speed = Math.max(MIN_TRANSPORT_SPEED, meanWindSpeed);
+    const horizontalScale = CONFIG.wind.turbulenceLengthScale;
+    const verticalScale = CONFIG.wind.turbulenceVerticalLengthScale;
+    const horizontalT = horizontalScale / speed;
+    const verticalT = verticalScale / speed;
+
+    if (!this.initialized) {
+      this.initializeStationary(horizontalT, verticalT);
+    }
+
+    const noiseScale = Math.sqrt(Math.PI / deltaTime);
+    const nu = this.random.nextGaussian() * noiseScale;
+    const nv = this.random.nextGaussian() * noiseScale;
+    const nw = this.random.nextGaussian() * noiseScale;
+
+    // Longitudinale : un étage du 1er ordre
+    const blendU = 1 - Math.exp(-deltaTime / horizontalT);
+    this.longitudinal += (nu - this.longitudinal) * blendU;
+
+    // Latérale et verticale : deux étages identiques en cascade
+    this.advanceSecondOrder(this.lateral, nv, 1 - Math.exp(-deltaTime / horizontalT));
+    this.advanceSecondOrder(this.vertical, nw, 1 - Math.exp(-deltaTime / verticalT));
+
+    this.gust.set(
+      Math.sqrt((2 * horizontalScale) / (Math.PI * speed)) * this.longitudinal,
+      Math.sqrt(horizontalScale / (Math.PI * speed)) *
+        this.secondOrderOutput(this.lateral),
+      Math.sqrt(verticalScale / (Math.PI * speed)) *
+        this.secondOrderOutput(this.vertical)
+    );
+  }
+
+  /**
+   * Rafale courante dans le repère du vent
+   * @param sigmaHorizontal - Écart-type des composantes u et v (m/s)
+   * @param sigmaVertical - Écart-type de la composante w (m/s)
+   * @returns (u le long du vent, v en travers, w vertical) en m/s
+   */
+  getGust(sigmaHorizontal: number, sigmaVertical: number): THREE.Vector3 {
+    return new THREE.Vector3(
+      this.gust.x * sigmaHorizontal,
+      this.gust.y * sigmaHorizontal,
+      this.gust.z * sigmaVertical
+    );
+  }
+
+  /**
+   * Démarre les filtres sur leur variance stationnaire plutôt qu'à zéro,
+   * pour éviter une montée en régime de plusieurs T au premier vol
+   */
+  private initializeStationary(horizontalT: number, verticalT: number): void {
+    const firstStage = (T: number) =>
+      this.random.nextGaussian() * Math.sqrt(Math.PI / (2 * T));
+    const secondStage = (T: number) =>
+      this.random.nextGaussian() * Math.sqrt(Math.PI / (4 * T));
+
+    this.longitudinal = firstStage(horizontalT);
+    this.lateral = [firstStage(horizontalT), secondStage(horizontalT)];
+    this.vertical = [firstStage(verticalT), secondStage(verticalT)];
+    this.initialized = true;
+  }
+
+  private advanceSecondOrder(
+    stages: [number, number],
+    input: number,
+    blend: number
+  ): void {
+    stages[0] += (input - stages[0]) * blend;
+    stages[1] += (stages[0] - stages[1]) * blend;
+  }
+
+  /**
+   * Sortie de (1 + √3·T·s) / (1 + T·s)² : x2 + √3·T·dx2/dt = √3·x1 + (1 - √3)·x2
+   */
+  private secondOrderOutput(stages: [number, number]): number {
+    return Math.sqrt(3) * stages[0] + (1 - Math.sqrt(3)) * stages[1];
+  }
+}
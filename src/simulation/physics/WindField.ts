@@ -0,0 +1,102 @@
+/**
+ * WindField.ts - Champ de vent moyen variable dans l'espace
+ *
+ * Rôle :
+ *   - Profil vertical de couche limite (logarithmique ou loi de puissance)
+ *   - Variation horizontale lente (vitesse et direction) advectée par le vent moyen
+ *   - Rend le vent dépendant de la position : le kite tire plus fort en sortant du gradient
+ *
+ * Modèle physique :
+ *   - Logarithmique : U(h) = U_ref · ln(h/z0) / ln(h_ref/z0)   (nul à h = z0)
+ *   - Puissance     : U(h) = U_ref · (h/h_ref)^α
+ *   - U_ref est la vitesse du curseur, mesurée à la hauteur de référence h_ref
+ *   - Horizontal : ondulations de longueur d'onde λ, figées dans l'air et
+ *     transportées à la vitesse du vent (hypothèse de Taylor)
+ *
+ * Relation avec les fichiers adjacents :
+ *   - WindSimulator.ts : Fournit vitesse, direction et temps, ajoute les turbulences
+ *
+ * Voir aussi :
+ *   - src/simulation/config/SimulationConfig.ts (CONFIG.wind)
+ *   - src/simulation/types/WindTypes.ts (WindProfileType)
+ */
+import * as THREE from "three";
+import { CONFIG } from "../config/SimulationConfig";
+
+/**
+ * Vent moyen en fonction de la position
+ */
+export class WindField {
+  /**
+   * Rapport U(h) / U(h_ref) selon le profil de couche limite configuré
+   * @param height - Hauteur au-dessus du sol (m)
+   */
+  static profileFactor(height: number): number {
+    const { referenceHeight, roughnessLength, profile, powerLawExponent } =
+      CONFIG.wind;
+
+    if (profile === "uniform") return 1;
+
+    if (profile === "power") {
+      if (height <= 0) return 0;
+      return Math.pow(height / referenceHeight, powerLawExponent);
+    }
+
+    // Profil logarithmique : vent nul sous la longueur de rugosité
+    if (height <= roughnessLength) return 0;
+    return (
+      Math.log(height / roughnessLength) /
+      Math.log(referenceHeight / roughnessLength)
+    );
+  }
+
+  /**
+   * Vent moyen (hors turbulences) en un point du monde
+   * @param position - Point du monde (y = hauteur au-dessus du sol)
+   * @param speedMs - Vitesse à la hauteur de référence (m/s)
+   * @param directionRad - Direction du vent (rad)
+   * @param time - Temps de simulation (s), pour l'advection des variations horizontales
+   */
+  static getMeanWindAt(
+    position: THREE.Vector3,
+    speedMs: number,
+    directionRad: number,
+    time: number
+  ): THREE.Vector3 {
+    const {
+      horizontalSpeedVariation,
+      horizontalDirectionVariation,
+      horizontalWavelength,
+    } = CONFIG.wind;
+
+    let speed = speedMs * this.profileFactor(position.y);
+    let direction = directionRad;
+
+    if (horizontalWavelength > 0 && speedMs > 0) {
+      // Coordonnées dans le repère du vent : le long du vent (advectée) et en travers
+      const alongWind =
+        position.x * Math.sin(directionRad) -
+        position.z * Math.cos(directionRad) -
+        speedMs * time;
+      const crossWind =
+        position.x * Math.cos(directionRad) +
+        position.z * Math.sin(directionRad);
+      const k = (2 * Math.PI) / horizontalWavelength;
+
+      speed *=
+        1 +
+        horizontalSpeedVariation *
+          Math.sin(k * alongWind) *
+          Math.cos(0.5 * k * crossWind);
+      direction +=
+        ((horizontalDirectionVariation * Math.PI) / 180) *
+        Math.sin(k * crossWind + 0.5 * k * alongWind);
+    }
+
+    return new THREE.Vector3(
+      Math.sin(direction) * speed,
+      0,
+      -Math.cos(direction) * speed
+    );
+  }
+}
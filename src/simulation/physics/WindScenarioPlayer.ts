@@ -0,0 +1,193 @@
+/**
+ * WindScenarioPlayer.ts - Lecture d'un scénario de vent scripté
+ *
+ * Rôle :
+ *   - Valide un scénario JSON (keyframes et rampes de vitesse, direction, turbulence)
+ *   - Donne les WindParams à un instant du scénario
+ *
+ * Règles de lecture :
+ *   - Les canaux sont indépendants : un keyframe ne modifie que les canaux qu'il renseigne
+ *   - Une rampe interrompue par le keyframe suivant repart de la valeur atteinte
+ *   - Les canaux absents du premier keyframe partent des valeurs par défaut de CONFIG.wind,
+ *     pour qu'un scénario donne toujours le même vent, quels que soient les curseurs
+ *
+ * Relation avec les fichiers adjacents :
+ *   - WindSimulator.ts : Échantillonne le scénario à chaque pas, en temps de simulation
+ *
+ * Utilisation typique :
+ *   const player = new WindScenarioPlayer(WindScenarioPlayer.parse(json));
+ *   const params = player.sample(20); // vent à t = 20 s
+ *
+ * Voir aussi :
+ *   - src/simulation/config/WindScenarios.ts (scénarios fournis)
+ *   - src/simulation/types/WindTypes.ts (WindScenario, WindKeyframe)
+ */
+import { CONFIG } from "../config/SimulationConfig";
+import { WindKeyframe, WindParams, WindScenario } from "../types";
+
+type WindChannel = keyof WindParams;
+
+interface ChannelEvent {
+  time: number;
+  ramp: number;
+  target: number;
+}
+
+const CHANNELS: WindChannel[] = ["speed", "direction", "turbulence"];
+
+/**
+ * Lecteur de scénario de vent
+ */
+export class WindScenarioPlayer {
+  private readonly scenario: WindScenario;
+  private readonly events: Record<WindChannel, ChannelEvent[]>;
+  private readonly duration: number;
+
+  constructor(scenario: WindScenario) {
+    this.scenario = scenario;
+    const keyframes = [...scenario.keyframes].sort((a, b) => a.time - b.time);
+
+    this.events = { speed: [], direction: [], turbulence: [] };
+    keyframes.forEach((keyframe) => {
+      CHANNELS.forEach((channel) => {
+        const target = keyframe[channel];
+        if (target === undefined) return;
+        this.events[channel].push({
+          time: keyframe.time,
+          ramp: Math.max(0, keyframe.ramp ?? 0),
+          target,
+        });
+      });
+    });
+
+    const lastEnd = keyframes.reduce(
+      (end, keyframe) => Math.max(end, keyframe.time + (keyframe.ramp ?? 0)),
+      0
+    );
+    this.duration = scenario.duration ?? lastEnd;
+  }
+
+  /**
+   * Vérifie et convertit un scénario JSON (texte ou objet déjà parsé)
+   * @throws Error si le format est invalide
+   */
+  static parse(input: string | unknown): WindScenario {
+    const data = typeof input === "string" ? JSON.parse(input) : input;
+    if (!data || typeof data !== "object") {
+      throw new Error("Scénario de vent invalide : objet attendu");
+    }
+
+    const candidate = data as Partial<WindScenario>;
+    if (typeof candidate.name !== "string" || candidate.name.length === 0) {
+      throw new Error("Scénario de vent invalide : 'name' manquant");
+    }
+    if (!Array.isArray(candidate.keyframes) || candidate.keyframes.length === 0) {
+      throw new Error(
+        `Scénario "${candidate.name}" : 'keyframes' doit être une liste non vide`
+      );
+    }
+
+    candidate.keyframes.forEach((keyframe: WindKeyframe, index: number) => {
+      const where = `Scénario "${candidate.name}", keyframe ${index}`;
+      if (!keyframe || typeof keyframe !== "object" || Array.isArray(keyframe)) {
+        throw new Error(`${where} : objet attendu`);
+      }
+      if (!Number.isFinite(keyframe.time) || keyframe.time < 0) {
+        throw new Error(`${where} : 'time' doit être un nombre ≥ 0`);
+      }
+      if (
+        keyframe.ramp !== undefined &&
+        (!Number.isFinite(keyframe.ramp) || keyframe.ramp < 0)
+      ) {
+        throw new Error(`${where} : 'ramp' doit être un nombre ≥ 0`);
+      }
+      CHANNELS.forEach((channel) => {
+        const value = keyframe[channel];
+        if (value !== undefined && !Number.isFinite(value)) {
+          throw new Error(`${where} : '${channel}' doit être un nombre`);
+        }
+      });
+      if (keyframe.speed !== undefined && keyframe.speed < 0) {
+        throw new Error(`${where} : 'speed' doit être ≥ 0`);
+      }
+      if (
+        keyframe.turbulence !== undefined &&
+        (keyframe.turbulence < 0 || keyframe.turbulence > 100)
+      ) {
+        throw new Error(`${where} : 'turbulence' doit être entre 0 et 100`);
+      }
+    });
+
+    if (
+      candidate.duration !== undefined &&
+      (!Number.isFinite(candidate.duration) || candidate.duration <= 0)
+    ) {
+      throw new Error(`Scénario "${candidate.name}" : 'duration' doit être > 0`);
+    }
+
+    return candidate as WindScenario;
+  }
+
+  getScenario(): WindScenario {
+    return this.scenario;
+  }
+
+  /** Durée du scénario (s), fin de la dernière rampe si non précisée */
+  getDuration(): number {
+    return this.duration;
+  }
+
+  /**
+   * Paramètres de vent à l'instant `time` du scénario
+   */
+  sample(time: number): WindParams {
+    const localTime =
+      this.scenario.loop && this.duration > 0 ? time % this.duration : time;
+
+    return {
+      speed: this.sampleChannel("speed", localTime),
+      direction: this.sampleChannel("direction", localTime),
+      turbulence: this.sampleChannel("turbulence", localTime),
+    };
+  }
+
+  private sampleChannel(channel: WindChannel, time: number): number {
+    const events = this.events[channel];
+    const defaults: WindParams = {
+      speed: CONFIG.wind.defaultSpeed,
+      direction: CONFIG.wind.defaultDirection,
+      turbulence: CONFIG.wind.defaultTurbulence,
+    };
+    let value = defaults[channel];
+
+    for (let i = 0; i < events.length; i++) {
+      const event = events[i];
+      if (event.time > time) break;
+
+      // La rampe s'arrête au keyframe suivant s'il commence avant sa fin
+      const next = events[i + 1];
+      const until = next && next.time <= time ? next.time : time;
+      value = this.rampValue(channel, value, event, until);
+    }
+
+    return channel === "direction" ? ((value % 360) + 360) % 360 : value;
+  }
+
+  private rampValue(
+    channel: WindChannel,
+    from: number,
+    event: ChannelEvent,
+    at: number
+  ): number {
+    let target = event.target;
+    if (channel === "direction") {
+      // Plus court chemin angulaire : 350° → 10° passe par 0°
+      const delta = ((((target - from) % 360) + 540) % 360) - 180;
+      target = from + delta;
+    }
+
+    if (event.ramp <= 0 || at >= event.time + event.ramp) return target;
+    const progress = (at - event.time) / event.ramp;
+    return from + (target - from) * progress;
+  }
+}
@@ -3,11 +3,14 @@
  *
  * Rôle :
  *   - Génère le vent et ses variations (direction, vitesse, turbulence)
- *   - Fournit le vent apparent ressenti par le cerf-volant
+ *   - Fournit le vent réel en un point et le vent apparent ressenti par le cerf-volant
  *   - Sert de source d'environnement pour la physique et le rendu
  *
  * Dépendances principales :
  *   - SimulationConfig.ts : Paramètres de vent et turbulence
+ *   - WindField.ts : Profil d'altitude et variations horizontales du vent moyen
+ *   - TurbulenceGenerator.ts : Rafales stochastiques (Dryden) à graine
+ *   - WindScenarioPlayer.ts : Scénario scripté qui remplace les WindParams statiques
  *   - Types/WindTypes.ts : Typage des paramètres de vent
  *
  * Relation avec les fichiers adjacents :
@@ -22,8 +25,11 @@
  *   - src/simulation/config/SimulationConfig.ts
  */
 import * as THREE from "three";
-import { WindParams } from "../types";
+import { WindParams, WindScenario } from "../types";
 import { CONFIG } from "../config/SimulationConfig";
+import { WindField } from "./WindField";
+import { TurbulenceGenerator } from "./TurbulenceGenerator";
+import { WindScenarioPlayer } from "./WindScenarioPlayer";
 
 /**
  * Simulateur de vent et turbulences
@@ -32,11 +38,15 @@ import { CONFIG } from "../config/SimulationConfig";
  */
 export class WindSimulator {
   private params: WindParams;
-  private time: number = 0; // Compteur de temps pour faire varier les turbulences
+  private time: number = 0; // Temps écoulé (advection des variations horizontales)
   private windSpeedMs: number = 0;
   private windRad: number = 0;
+  private turbulence: TurbulenceGenerator;
+  private scenarioPlayer: WindScenarioPlayer | null = null;
+  private scenarioStartTime: number = 0;
 
-  constructor() {
+  constructor(seed: number = CONFIG.wind.turbulenceSeed) {
+    this.turbulence = new TurbulenceGenerator(seed);
     // On démarre avec les réglages par défaut du vent
     this.params = {
       speed: CONFIG.wind.defaultSpeed,
@@ -51,6 +61,53 @@ export class WindSimulator {
     this.windRad = (this.params.direction * Math.PI) / 180;
   }
 
+  /**
+   * Fait avancer le temps des turbulences (une fois par pas physique)
+   */
+  update(deltaTime: number): void {
+    this.time += deltaTime;
+
+    // Un scénario actif dicte vitesse, direction et turbulence en temps de simulation
+    if (this.scenarioPlayer) {
+      this.params = this.scenarioPlayer.sample(
+        this.time - this.scenarioStartTime
+      );
+      this.updateWindInternals();
+    }
+
+    this.turbulence.update(deltaTime, this.windSpeedMs);
+  }
+
+  /**
+   * Lance un scénario de vent à partir de l'instant courant (null = retour aux WindParams)
+   */
+  setScenario(scenario: WindScenario | null): void {
+    if (!scenario) {
+      this.scenarioPlayer = null;
+      return;
+    }
+
+    this.scenarioPlayer = new WindScenarioPlayer(scenario);
+    this.scenarioStartTime = this.time;
+    this.params = this.scenarioPlayer.sample(0);
+    this.updateWindInternals();
+  }
+
+  getScenario(): WindScenario | null {
+    return this.scenarioPlayer?.getScenario() ?? null;
+  }
+
+  /**
+   * Change la graine des turbulences et repart du début de sa séquence de rafales
+   */
+  setSeed(seed: number): void {
+    this.turbulence.reset(seed);
+  }
+
+  getSeed(): number {
+    return this.turbulence.getSeed();
+  }
+
   /**
    * Calcule le vent que "ressent" le cerf-volant
    * C'est comme quand vous mettez la main par la fenêtre d'une voiture :
@@ -59,74 +116,46 @@ export class WindSimulator {
    * - Si vous allez avec le vent, il est plus faible
    */
   getApparentWind(
-    kiteVelocity: THREE.Vector3,
-    deltaTime: number
+    position: THREE.Vector3,
+    velocity: THREE.Vector3
   ): THREE.Vector3 {
-    this.time += deltaTime;
-
-    const windVector = new THREE.Vector3(
-      Math.sin(this.windRad) * this.windSpeedMs,
-      0,
-      -Math.cos(this.windRad) * this.windSpeedMs
-    );
-
-    // Ajouter des rafales aléatoires mais réalistes
-    // Les turbulences font bouger le vent de façon imprévisible
-    // Comme les tourbillons qu'on sent parfois dehors
-    if (this.params.turbulence > 0) {
-      const turbIntensity =
-        (this.params.turbulence / 100) * CONFIG.wind.turbulenceScale;
-      const freq = CONFIG.wind.turbulenceFreqBase; // Fréquence des changements
-
-      // On utilise des sinus pour créer des variations douces et naturelles
-      windVector.x +=
-        Math.sin(this.time * freq) *
-        this.windSpeedMs *
-        turbIntensity *
-        CONFIG.wind.turbulenceIntensityXZ;
-      windVector.y +=
-        Math.sin(this.time * freq * CONFIG.wind.turbulenceFreqY) *
-        this.windSpeedMs *
-        turbIntensity *
-        CONFIG.wind.turbulenceIntensityY;
-      windVector.z +=
-        Math.cos(this.time * freq * CONFIG.wind.turbulenceFreqZ) *
-        this.windSpeedMs *
-        turbIntensity *
-        CONFIG.wind.turbulenceIntensityXZ;
-    }
-
     // Le vent apparent = vent réel - vitesse du kite
     // Si le kite va vite vers l'avant, il "crée" du vent de face
-    const apparent = windVector.clone().sub(kiteVelocity);
-
-    return apparent;
+    return this.getWindAt(position).sub(velocity);
   }
 
   /**
    * Obtient le vecteur de vent à une position donnée
+   * (vent moyen de WindField + turbulences)
    */
-  getWindAt(_position: THREE.Vector3): THREE.Vector3 {
-    const windVector = new THREE.Vector3(
-      Math.sin(this.windRad) * this.windSpeedMs,
-      0,
-      -Math.cos(this.windRad) * this.windSpeedMs
+  getWindAt(position: THREE.Vector3): THREE.Vector3 {
+    // Vent moyen : profil d'altitude et variations horizontales
+    const windVector = WindField.getMeanWindAt(
+      position,
+      this.windSpeedMs,
+      this.windRad,
+      this.time
     );
 
+    // Ajouter les rafales (turbulence de Dryden, reproductible par graine)
+    // Les turbulences font bouger le vent de façon imprévisible
+    // Comme les tourbillons qu'on sent parfois dehors
     if (this.params.turbulence > 0) {
-      const turbIntensity =
-        (this.params.turbulence / 100) * CONFIG.wind.turbulenceScale;
-      const freq = 0.5;
+      const sigmaHorizontal =
+        (this.params.turbulence / 100) *
+        CONFIG.wind.turbulenceMaxIntensity *
+        this.windSpeedMs;
+      const gust = this.turbulence.getGust(
+        sigmaHorizontal,
+        sigmaHorizontal * CONFIG.wind.turbulenceVerticalRatio
+      );
 
+      // Repère du vent → repère monde
       windVector.x +=
-        Math.sin(this.time * freq) * this.windSpeedMs * turbIntensity;
-      windVector.y +=
-        Math.sin(this.time * freq * 1.3) *
-        this.windSpeedMs *
-        turbIntensity *
-        0.3;
+        gust.x * Math.sin(this.windRad) + gust.y * Math.cos(this.windRad);
+      windVector.y += gust.z;
       windVector.z +=
-        Math.cos(this.time * freq * 0.7) * this.windSpeedMs * turbIntensity;
+        -gust.x * Math.cos(this.windRad) + gust.y * Math.sin(this.windRad);
     }
 
     return windVector;
@@ -0,0 +1,112 @@
+/**
+ * WindWindow.ts - Fenêtre de vent vue du pilote
+ *
+ * Rôle :
+ *   - Convertit la position du kite en azimut et élévation relatifs à la
+ *     direction du vent (WindParams.direction)
+ *   - Classe la position en zone de puissance, zone intermédiaire ou bord de fenêtre
+ *   - Donne le cap du nez sur la sphère des lignes (vers le zénith, la droite…)
+ *
+ * Les zones se lisent sur l'angle entre la ligne pilote → kite et l'axe sous le
+ * vent : 0° au centre de la fenêtre (puissance maximale), 90° sur le bord (le
+ * kite ne tire presque plus). Un kite passé derrière le bord compte comme bord.
+ *
+ * Relation avec les fichiers adjacents :
+ *   - WindSimulator.ts : Même convention de direction (vent soufflant vers (sin θ, 0, -cos θ))
+ *   - Autopilot.ts : Situe le kite et sa trajectoire dans la fenêtre
+ *   - TrickRecognizer.ts : Suit le cap pour reconnaître les virages et les loopings
+ *   - WindWindowOverlay.ts : Dessine les zones dans la scène
+ *
+ * Utilisation typique :
+ *   const position = WindWindow.locate(kite.position, pilot, windParams.direction);
+ *   WindWindow.zoneOf(position); // "power" | "intermediate" | "edge"
+ *
+ * Voir aussi :
+ *   - src/simulation/types/WindTypes.ts
+ */
+import * as THREE from "three";
+import { WindWindowPosition, WindWindowZone } from "../types";
+
+const DEG = Math.PI / 180;
+
+/**
+ * Géométrie de la fenêtre de vent
+ */
+export class WindWindow {
+  /**
+   * Limites des zones en angle depuis le centre de la fenêtre (degrés) :
+   * puissance en deçà de `power`, intermédiaire jusqu'à `intermediate`, bord au-delà
+   */
+  static readonly ZONE_LIMITS = { power: 45, intermediate: 75 };
+
+  /**
+   * Axes horizontaux du vent : sous le vent et droite du pilote (qui fait dos au vent)
+   * @param windDirection - WindParams.direction (degrés)
+   */
+  static axes(windDirection: number): {
+    downwind: THREE.Vector3;
+    right: THREE.Vector3;
+  } {
+    const direction = windDirection * DEG;
+    const downwind = new THREE.Vector3(Math.sin(direction), 0, -Math.cos(direction));
+    const right = new THREE.Vector3().crossVectors(downwind, new THREE.Vector3(0, 1, 0));
+    return { downwind, right };
+  }
+
+  /**
+   * Azimut et élévation d'une position vue du pilote
+   */
+  static locate(
+    position: THREE.Vector3,
+    pilotPosition: THREE.Vector3,
+    windDirection: number
+  ): WindWindowPosition {
+    const { downwind, right } = WindWindow.axes(windDirection);
+    const relative = position.clone().sub(pilotPosition);
+    const distance = Math.max(relative.length(), 1e-6);
+    return {
+      azimuth: Math.atan2(relative.dot(right), relative.dot(downwind)) / DEG,
+      elevation: Math.asin(Math.max(-1, Math.min(1, relative.y / distance))) / DEG,
+    };
+  }
+
+  /**
+   * Angle entre la direction de la position et le centre de la fenêtre (degrés)
+   */
+  static offAxisAngle(position: WindWindowPosition): number {
+    const cosine =
+      Math.cos(position.azimuth * DEG) * Math.cos(position.elevation * DEG);
+    return Math.acos(Math.max(-1, Math.min(1, cosine))) / DEG;
+  }
+
+  /**
+   * Cap du nez sur la sphère des lignes (radians) : 0 vers le zénith, positif
+   * vers les azimuts croissants (droite du pilote), ±π nez vers le sol
+   */
+  static heading(
+    position: THREE.Vector3,
+    orientation: THREE.Quaternion,
+    pilotPosition: THREE.Vector3,
+    windDirection: number
+  ): number {
+    const { downwind, right } = WindWindow.axes(windDirection);
+    const radial = position.clone().sub(pilotPosition).normalize();
+    const azimuth = WindWindow.locate(position, pilotPosition, windDirection).azimuth * DEG;
+
+    // Repère local de la sphère : est (azimut croissant) et nord (élévation croissante)
+    const east = right
+      .multiplyScalar(Math.cos(azimuth))
+      .addScaledVector(downwind, -Math.sin(azimuth));
+    const north = new THREE.Vector3().crossVectors(east, radial);
+
+    const nose = new THREE.Vector3(0, 1, 0).applyQuaternion(orientation);
+    return Math.atan2(nose.dot(east), nose.dot(north));
+  }
+
+  static zoneOf(position: WindWindowPosition): WindWindowZone {
+    const angle = WindWindow.offAxisAngle(position);
+    if (angle < WindWindow.ZONE_LIMITS.power) return "power";
+    if (angle < WindWindow.ZONE_LIMITS.intermediate) return "intermediate";
+    return "edge";
+  }
+}
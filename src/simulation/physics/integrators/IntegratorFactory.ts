@@ -0,0 +1,38 @@
+/**
+ * IntegratorFactory.ts - Création des intégrateurs de corps rigide
+ *
+ * Rôle :
+ *   - Associe chaque IntegratorType à son implémentation
+ *   - Fournit la liste des schémas disponibles (pour l'UI)
+ *
+ * Voir aussi :
+ *   - src/simulation/config/SimulationConfig.ts (CONFIG.physics.integrator)
+ *   - src/simulation/controllers/KiteController.ts
+ */
+import { IntegratorType } from "../../types";
+import { RigidBodyIntegrator } from "./RigidBodyIntegrator";
+import { SemiImplicitEulerIntegrator } from "./SemiImplicitEulerIntegrator";
+import { VelocityVerletIntegrator } from "./VelocityVerletIntegrator";
+import { RungeKutta4Integrator } from "./RungeKutta4Integrator";
+
+export class IntegratorFactory {
+  /** Schémas disponibles et leur libellé d'affichage */
+  static readonly AVAILABLE: ReadonlyArray<{ type: IntegratorType; label: string }> = [
+    { type: "semi-implicit-euler", label: "Euler semi-implicite" },
+    { type: "velocity-verlet", label: "Verlet (vitesse)" },
+    { type: "rk4", label: "Runge-Kutta 4" },
+  ];
+
+  static create(type: IntegratorType): RigidBodyIntegrator {
+    switch (type) {
+      case "semi-implicit-euler":
+        return new SemiImplicitEulerIntegrator();
+      case "velocity-verlet":
+        return new VelocityVerletIntegrator();
+      case "rk4":
+        return new RungeKutta4Integrator();
+      default:
+        throw new Error(`Intégrateur inconnu: ${type}`);
+    }
+  }
+}
@@ -0,0 +1,109 @@
+/**
+ * RigidBodyIntegrator.ts - Contrat commun des intégrateurs du corps rigide (6 DDL)
+ *
+ * Rôle :
+ *   - Définit l'interface que KiteController utilise pour faire avancer l'état du kite
+ *   - Regroupe les opérations partagées : copie d'état, intégration de l'orientation
+ *
+ * Convention :
+ *   - La vitesse angulaire est exprimée dans le repère MONDE (comme dans ConstraintSolver)
+ *   - dq/dt = ½·[ω, 0]·q  →  une rotation d'angle |ω|·dt est PRÉ-multipliée à q
+ *
+ * Relation avec les fichiers adjacents :
+ *   - SemiImplicitEulerIntegrator.ts, VelocityVerletIntegrator.ts, RungeKutta4Integrator.ts
+ *   - IntegratorFactory.ts : Instancie l'intégrateur choisi dans CONFIG.physics.integrator
+ *
+ * Voir aussi :
+ *   - src/simulation/controllers/KiteController.ts
+ *   - src/simulation/types/PhysicsTypes.ts
+ */
+import * as THREE from "three";
+import { PhysicsConstants } from "../../config/PhysicsConstants";
+import { DerivativeFunction, IntegratorType, KiteState } from "../../types";
+
+/**
+ * Intégrateur d'état de corps rigide
+ */
+export interface RigidBodyIntegrator {
+  readonly type: IntegratorType;
+
+  /**
+   * Fait avancer l'état de deltaTime
+   * @param state - État de départ (non modifié)
+   * @param deltaTime - Pas de temps (s)
+   * @param derivative - Accélérations pour un état donné (efforts recalculés dans cet état)
+   * @returns Nouvel état
+   */
+  integrate(
+    state: KiteState,
+    deltaTime: number,
+    derivative: DerivativeFunction
+  ): KiteState;
+}
+
+/**
+ * Copie profonde d'un état
+ */
+export function cloneKiteState(state: KiteState): KiteState {
+  return {
+    position: state.position.clone(),
+    velocity: state.velocity.clone(),
+    angularVelocity: state.angularVelocity.clone(),
+    orientation: state.orientation.clone(),
+  };
+}
+
+/**
+ * Applique une rotation (vecteur de rotation monde, angle = norme) à une orientation
+ */
+export function rotateOrientation(
+  orientation: THREE.Quaternion,
+  rotationVector: THREE.Vector3
+): THREE.Quaternion {
+  const angle = rotationVector.length();
+  const result = orientation.clone();
+  if (angle <= PhysicsConstants.EPSILON) return result;
+
+  const axis = rotationVector.clone().divideScalar(angle);
+  const deltaRotation = new THREE.Quaternion().setFromAxisAngle(axis, angle);
+  return result.premultiply(deltaRotation).normalize();
+}
+
+/**
+ * Dérivée temporelle de l'orientation : dq/dt = ½·[ω, 0]·q
+ * Retournée sous forme de quaternion non normalisé
+ */
+export function orientationDerivative(
+  orientation: THREE.Quaternion,
+  angularVelocity: THREE.Vector3
+): THREE.Quaternion {
+  const omega = new THREE.Quaternion(
+    angularVelocity.x,
+    angularVelocity.y,
+    angularVelocity.z,
+    0
+  );
+  const product = omega.multiply(orientation);
+  return new THREE.Quaternion(
+    product.x * 0.5,
+    product.y * 0.5,
+    product.z * 0.5,
+    product.w * 0.5
+  );
+}
+
+/**
+ * q + dq·h (composante par composante, sans normalisation)
+ */
+export function addScaledQuaternion(
+  q: THREE.Quaternion,
+  dq: THREE.Quaternion,
+  h: number
+): THREE.Quaternion {
+  return new THREE.Quaternion(
+    q.x + dq.x * h,
+    q.y + dq.y * h,
+    q.z + dq.z * h,
+    q.w + dq.w * h
+  );
+}
@@ -0,0 +1,98 @@
+/**
+ * RungeKutta4Integrator.ts - Runge-Kutta classique d'ordre 4
+ *
+ * Schéma appliqué à l'état complet (x, v, q, ω) :
+ *   k1 = f(s)            k2 = f(s + k1·dt/2)
+ *   k3 = f(s + k2·dt/2)  k4 = f(s + k3·dt)
+ *   s(t+dt) = s + (k1 + 2·k2 + 2·k3 + k4)·dt/6
+ *
+ * Le quaternion est intégré via dq/dt = ½·[ω, 0]·q puis renormalisé.
+ * Quatre évaluations des forces par pas : référence pour distinguer une
+ * oscillation physique d'un artefact numérique.
+ *
+ * Voir aussi :
+ *   - src/simulation/physics/integrators/RigidBodyIntegrator.ts
+ */
+import * as THREE from "three";
+import { DerivativeFunction, KiteState } from "../../types";
+import {
+  RigidBodyIntegrator,
+  addScaledQuaternion,
+  orientationDerivative,
+} from "./RigidBodyIntegrator";
+
+/**
+ * Dérivée complète de l'état pour une étape RK4
+ */
+interface StageDerivative {
+  position: THREE.Vector3;
+  velocity: THREE.Vector3;
+  orientation: THREE.Quaternion;
+  angularVelocity: THREE.Vector3;
+}
+
+export class RungeKutta4Integrator implements RigidBodyIntegrator {
+  readonly type = "rk4" as const;
+
+  integrate(
+    state: KiteState,
+    deltaTime: number,
+    derivative: DerivativeFunction
+  ): KiteState {
+    const evaluate = (stage: KiteState): StageDerivative => {
+      const { linearAcceleration, angularAcceleration } = derivative(stage);
+      return {
+        position: stage.velocity.clone(),
+        velocity: linearAcceleration,
+        orientation: orientationDerivative(
+          stage.orientation,
+          stage.angularVelocity
+        ),
+        angularVelocity: angularAcceleration,
+      };
+    };
+
+    const advance = (d: StageDerivative, h: number): KiteState => ({
+      position: state.position.clone().addScaledVector(d.position, h),
+      velocity: state.velocity.clone().addScaledVector(d.velocity, h),
+      orientation: addScaledQuaternion(state.orientation, d.orientation, h).normalize(),
+      angularVelocity: state.angularVelocity
+        .clone()
+        .addScaledVector(d.angularVelocity, h),
+    });
+
+    const k1 = evaluate(state);
+    const k2 = evaluate(advance(k1, deltaTime / 2));
+    const k3 = evaluate(advance(k2, deltaTime / 2));
+    const k4 = evaluate(advance(k3, deltaTime));
+
+    const combineVectors = (
+      key: "position" | "velocity" | "angularVelocity"
+    ): THREE.Vector3 =>
+      k1[key]
+        .clone()
+        .addScaledVector(k2[key], 2)
+        .addScaledVector(k3[key], 2)
+        .add(k4[key]);
+
+    const orientationSum = addScaledQuaternion(
+      addScaledQuaternion(
+        addScaledQuaternion(k1.orientation, k2.orientation, 2),
+        k3.orientation,
+        2
+      ),
+      k4.orientation,
+      1
+    );
+
+    return advance(
+      {
+        position: combineVectors("position"),
+        velocity: combineVectors("velocity"),
+        orientation: orientationSum,
+        angularVelocity: combineVectors("angularVelocity"),
+      },
+      deltaTime / 6
+    );
+  }
+}
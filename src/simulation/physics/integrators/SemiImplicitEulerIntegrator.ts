@@ -0,0 +1,44 @@
+/**
+ * SemiImplicitEulerIntegrator.ts - Euler semi-implicite (symplectique)
+ *
+ * Schéma :
+ *   v(t+dt) = v(t) + a(t)·dt        ω(t+dt) = ω(t) + α(t)·dt
+ *   x(t+dt) = x(t) + v(t+dt)·dt     q(t+dt) = rot(ω(t+dt)·dt)·q(t)
+ *
+ * Une seule évaluation des forces par pas. C'est le schéma historique du
+ * simulateur (la vitesse est mise à jour avant la position).
+ *
+ * Voir aussi :
+ *   - src/simulation/physics/integrators/RigidBodyIntegrator.ts
+ */
+import { DerivativeFunction, KiteState } from "../../types";
+import { RigidBodyIntegrator, rotateOrientation } from "./RigidBodyIntegrator";
+
+export class SemiImplicitEulerIntegrator implements RigidBodyIntegrator {
+  readonly type = "semi-implicit-euler" as const;
+
+  integrate(
+    state: KiteState,
+    deltaTime: number,
+    derivative: DerivativeFunction
+  ): KiteState {
+    const { linearAcceleration, angularAcceleration } = derivative(state);
+
+    const velocity = state.velocity
+      .clone()
+      .addScaledVector(linearAcceleration, deltaTime);
+    const angularVelocity = state.angularVelocity
+      .clone()
+      .addScaledVector(angularAcceleration, deltaTime);
+
+    return {
+      position: state.position.clone().addScaledVector(velocity, deltaTime),
+      velocity,
+      angularVelocity,
+      orientation: rotateOrientation(
+        state.orientation,
+        angularVelocity.clone().multiplyScalar(deltaTime)
+      ),
+    };
+  }
+}
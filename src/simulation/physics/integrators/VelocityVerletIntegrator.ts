@@ -0,0 +1,66 @@
+/**
+ * VelocityVerletIntegrator.ts - Verlet en vitesse (2nd ordre)
+ *
+ * Schéma :
+ *   x(t+dt) = x(t) + v(t)·dt + ½·a(t)·dt²
+ *   a(t+dt) = f(x(t+dt), v prédite)
+ *   v(t+dt) = v(t) + ½·(a(t) + a(t+dt))·dt
+ *
+ * Même principe pour (q, ω, α). Les forces dépendant de la vitesse
+ * (amortissement, gyroscopie) sont évaluées sur une vitesse prédite par Euler.
+ * Deux évaluations des forces par pas.
+ *
+ * Voir aussi :
+ *   - src/simulation/physics/integrators/RigidBodyIntegrator.ts
+ */
+import { DerivativeFunction, KiteState } from "../../types";
+import { RigidBodyIntegrator, rotateOrientation } from "./RigidBodyIntegrator";
+
+export class VelocityVerletIntegrator implements RigidBodyIntegrator {
+  readonly type = "velocity-verlet" as const;
+
+  integrate(
+    state: KiteState,
+    deltaTime: number,
+    derivative: DerivativeFunction
+  ): KiteState {
+    const halfDtSquared = 0.5 * deltaTime * deltaTime;
+    const start = derivative(state);
+
+    const position = state.position
+      .clone()
+      .addScaledVector(state.velocity, deltaTime)
+      .addScaledVector(start.linearAcceleration, halfDtSquared);
+    const orientation = rotateOrientation(
+      state.orientation,
+      state.angularVelocity
+        .clone()
+        .multiplyScalar(deltaTime)
+        .addScaledVector(start.angularAcceleration, halfDtSquared)
+    );
+
+    const end = derivative({
+      position,
+      orientation,
+      velocity: state.velocity
+        .clone()
+        .addScaledVector(start.linearAcceleration, deltaTime),
+      angularVelocity: state.angularVelocity
+        .clone()
+        .addScaledVector(start.angularAcceleration, deltaTime),
+    });
+
+    return {
+      position,
+      orientation,
+      velocity: state.velocity
+        .clone()
+        .addScaledVector(start.linearAcceleration, 0.5 * deltaTime)
+        .addScaledVector(end.linearAcceleration, 0.5 * deltaTime),
+      angularVelocity: state.angularVelocity
+        .clone()
+        .addScaledVector(start.angularAcceleration, 0.5 * deltaTime)
+        .addScaledVector(end.angularAcceleration, 0.5 * deltaTime),
+    };
+  }
+}
@@ -0,0 +1,218 @@
+/**
+ * FlightRecorder.ts - Enregistreur de vol
+ *
+ * Rôle :
+ *   - Enregistre à chaque pas physique les entrées appliquées (barre, vent,
+ *     longueur de ligne) et l'état du kite obtenu
+ *   - Note les changements de scénario de vent et de réglages au pas où ils prennent effet
+ *   - Range avec le vol les figures de voltige reconnues
+ *   - Sérialise et relit les vols au format JSON (partage de rapports de bug)
+ *
+ * Déterminisme :
+ *   - Un enregistrement démarre toujours d'un reset : le vol est entièrement
+ *     défini par l'en-tête (graine, réglages, vent, lignes) et les entrées par pas
+ *   - Les réglages et le scénario sont comparés après chaque pas : l'UI ne modifie
+ *     rien pendant un pas, la valeur lue est donc celle qui était en vigueur
+ *
+ * Relation avec les fichiers adjacents :
+ *   - HeadlessSimulation.ts : Source des pas (addStepListener)
+ *   - FlightReplay.ts : Rejoue un FlightRecording
+ *   - ConfigSnapshot.ts : Capture des réglages
+ *   - TrickRecognizer.ts : Reconnaît les figures du vol à l'arrêt de l'enregistrement
+ *
+ * Utilisation typique :
+ *   const recorder = new FlightRecorder();
+ *   recorder.start(sim); // reset puis enregistrement
+ *   sim.run(30);
+ *   const json = FlightRecorder.serialize(recorder.stop()!);
+ *
+ * Voir aussi :
+ *   - src/simulation/types/RecordingTypes.ts
+ */
+import * as THREE from "three";
+import { HeadlessSimulation } from "../HeadlessSimulation";
+import { ConfigSnapshot } from "../config/ConfigSnapshot";
+import { WindScenarioPlayer } from "../physics/WindScenarioPlayer";
+import { TrickRecognizer } from "../tricks/TrickRecognizer";
+import {
+  ConfigSnapshotData,
+  FlightRecording,
+  KiteState,
+  RecordedStep,
+  SerializedKiteState,
+  SimulationStepEvent,
+  WindScenario,
+} from "../types";
+
+/**
+ * Enregistreur de vol
+ */
+export class FlightRecorder {
+  private recording: FlightRecording | null = null;
+  private unsubscribe: (() => void) | null = null;
+  private lastConfig: ConfigSnapshotData | null = null;
+  private lastScenario: WindScenario | null = null;
+  private simulation: HeadlessSimulation | null = null;
+
+  /**
+   * Remet la simulation à zéro et commence à enregistrer
+   * @param seed - Graine des turbulences (défaut : celle de la simulation)
+   */
+  start(simulation: HeadlessSimulation, seed: number = simulation.getSeed()): void {
+    this.stop();
+
+    simulation.reset(seed);
+    const inputs = simulation.getInputs();
+    const config = ConfigSnapshot.capture(simulation.getKite());
+
+    this.simulation = simulation;
+    this.lastConfig = config;
+    this.lastScenario = inputs.windScenario;
+    this.recording = {
+      version: 1,
+      createdAt: new Date().toISOString(),
+      seed: simulation.getSeed(),
+      initial: {
+        lineLength: inputs.lineLength,
+        windParams: inputs.windParams,
+        windScenario: inputs.windScenario,
+        config,
+      },
+      steps: [],
+    };
+    this.unsubscribe = simulation.addStepListener((event) =>
+      this.recordStep(event)
+    );
+  }
+
+  /**
+   * Arrête l'enregistrement
+   * @returns Le vol enregistré (null si aucun enregistrement en cours)
+   */
+  stop(): FlightRecording | null {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+
+    const recording = this.recording;
+    if (recording && this.simulation) {
+      recording.tricks = TrickRecognizer.analyze(
+        recording,
+        this.simulation.getPilotPosition()
+      );
+    }
+    this.simulation = null;
+    this.recording = null;
+    return recording;
+  }
+
+  isRecording(): boolean {
+    return this.recording !== null;
+  }
+
+  /** Nombre de pas enregistrés jusqu'ici */
+  getStepCount(): number {
+    return this.recording?.steps.length ?? 0;
+  }
+
+  /** Durée simulée enregistrée (s) */
+  getDuration(): number {
+    return (
+      this.recording?.steps.reduce((sum, step) => sum + step.deltaTime, 0) ?? 0
+    );
+  }
+
+  private recordStep(event: SimulationStepEvent): void {
+    if (!this.recording || !this.simulation) return;
+
+    const step: RecordedStep = {
+      deltaTime: event.deltaTime,
+      barRotation: event.inputs.barRotation,
+      windParams: event.inputs.windParams,
+      lineLength: event.inputs.lineLength,
+      state: FlightRecorder.serializeState(event.state),
+    };
+
+    if (event.inputs.windScenario !== this.lastScenario) {
+      step.windScenario = event.inputs.windScenario;
+      this.lastScenario = event.inputs.windScenario;
+    }
+
+    const config = ConfigSnapshot.capture(this.simulation.getKite());
+    if (this.lastConfig && !ConfigSnapshot.equals(config, this.lastConfig)) {
+      step.config = config;
+    }
+    this.lastConfig = config;
+
+    this.recording.steps.push(step);
+  }
+
+  static serializeState(state: KiteState): SerializedKiteState {
+    return {
+      position: state.position.toArray() as SerializedKiteState["position"],
+      velocity: state.velocity.toArray() as SerializedKiteState["velocity"],
+      angularVelocity:
+        state.angularVelocity.toArray() as SerializedKiteState["angularVelocity"],
+      orientation:
+        state.orientation.toArray() as SerializedKiteState["orientation"],
+    };
+  }
+
+  static deserializeState(state: SerializedKiteState): KiteState {
+    return {
+      position: new THREE.Vector3().fromArray(state.position),
+      velocity: new THREE.Vector3().fromArray(state.velocity),
+      angularVelocity: new THREE.Vector3().fromArray(state.angularVelocity),
+      orientation: new THREE.Quaternion().fromArray(state.orientation),
+    };
+  }
+
+  static serialize(recording: FlightRecording): string {
+    return JSON.stringify(recording);
+  }
+
+  /**
+   * Relit un vol JSON (fichier importé : contenu non fiable)
+   * Les réglages et scénarios de vent, au départ comme en cours de vol, sont
+   * vérifiés ici pour qu'un fichier abîmé ne casse pas le replay en chemin.
+   * @throws Error si le contenu n'est pas un enregistrement de vol
+   */
+  static parse(text: string): FlightRecording {
+    const invalid = (problem: string) =>
+      new Error(`Enregistrement de vol invalide : ${problem}`);
+    const data = JSON.parse(text) as Partial<FlightRecording>;
+    if (!data || data.version !== 1) {
+      throw invalid("version non supportée");
+    }
+    if (!data.initial || !Array.isArray(data.steps)) {
+      throw invalid("en-tête ou pas manquants");
+    }
+    if (!Number.isFinite(data.seed)) {
+      throw invalid("graine manquante");
+    }
+
+    const checkConfig = (config: unknown, where: string) => {
+      const problem = ConfigSnapshot.findShapeError(config);
+      if (problem) throw invalid(`${where}, ${problem}`);
+    };
+    const checkScenario = (scenario: unknown, where: string) => {
+      if (scenario === null || scenario === undefined) return;
+      try {
+        WindScenarioPlayer.parse(scenario);
+      } catch (error) {
+        throw invalid(`${where}, ${(error as Error).message}`);
+      }
+    };
+    checkConfig(data.initial.config, "départ");
+    checkScenario(data.initial.windScenario, "départ");
+    data.steps.forEach((step, index) => {
+      if (!step || typeof step !== "object") throw invalid(`pas ${index} illisible`);
+      if (step.config !== undefined) checkConfig(step.config, `pas ${index}`);
+      checkScenario(step.windScenario, `pas ${index}`);
+    });
+
+    if (data.tricks !== undefined && !Array.isArray(data.tricks)) {
+      throw new Error("Enregistrement de vol invalide : figures illisibles");
+    }
+    return data as FlightRecording;
+  }
+}
@@ -0,0 +1,245 @@
+/**
+ * FlightReplay.ts - Rejeu déterministe d'un vol enregistré
+ *
+ * Rôle :
+ *   - Réinjecte les entrées enregistrées dans PhysicsEngine.update (via HeadlessSimulation)
+ *   - Contrôles de lecture : play, pause, vitesse, déplacement à un pas donné
+ *   - Vérifie à chaque pas que l'état obtenu est identique bit à bit à l'état enregistré
+ *
+ * Déplacement (scrub) :
+ *   - Le moteur physique ne peut pas revenir en arrière : reculer relance le vol
+ *     depuis le reset initial et avance sans rendu jusqu'au pas demandé
+ *
+ * Relation avec les fichiers adjacents :
+ *   - FlightRecorder.ts : Produit les FlightRecording et (dé)sérialise les états
+ *   - ConfigSnapshot.ts : Réapplique les réglages enregistrés
+ *
+ * Utilisation typique :
+ *   const replay = new FlightReplay(recording, sim);
+ *   replay.play();
+ *   replay.advance(frameDelta); // à chaque frame
+ *   replay.getDivergenceStep(); // null si le vol est reproduit exactement
+ *
+ * Voir aussi :
+ *   - src/simulation/ui/RecorderPanel.ts
+ */
+import { HeadlessSimulation } from "../HeadlessSimulation";
+import { ConfigSnapshot } from "../config/ConfigSnapshot";
+import { FlightRecording, RecordedStep, SerializedKiteState } from "../types";
+import { FlightRecorder } from "./FlightRecorder";
+
+/** Nombre max de pas rejoués par appel à advance (évite de geler l'affichage) */
+const MAX_STEPS_PER_ADVANCE = 240;
+
+/**
+ * Lecteur de vol enregistré
+ */
+export class FlightReplay {
+  private readonly recording: FlightRecording;
+  private readonly simulation: HeadlessSimulation;
+  private currentStep = 0;
+  private playing = false;
+  private speed = 1;
+  private accumulator = 0;
+  private divergenceStep: number | null = null;
+
+  /**
+   * @param recording - Vol à rejouer
+   * @param simulation - Simulation pilotée (défaut : une nouvelle simulation headless)
+   */
+  constructor(
+    recording: FlightRecording,
+    simulation: HeadlessSimulation = new HeadlessSimulation()
+  ) {
+    this.recording = recording;
+    this.simulation = simulation;
+    this.restart();
+  }
+
+  getRecording(): FlightRecording {
+    return this.recording;
+  }
+
+  getSimulation(): HeadlessSimulation {
+    return this.simulation;
+  }
+
+  play(): void {
+    if (this.isFinished()) this.seek(0);
+    this.playing = true;
+  }
+
+  pause(): void {
+    this.playing = false;
+  }
+
+  isPlaying(): boolean {
+    return this.playing;
+  }
+
+  isFinished(): boolean {
+    return this.currentStep >= this.recording.steps.length;
+  }
+
+  /**
+   * Vitesse de lecture (1 = temps réel)
+   */
+  setSpeed(speed: number): void {
+    this.speed = Math.max(0, speed);
+  }
+
+  getSpeed(): number {
+    return this.speed;
+  }
+
+  /** Nombre de pas déjà rejoués */
+  getCurrentStep(): number {
+    return this.currentStep;
+  }
+
+  getStepCount(): number {
+    return this.recording.steps.length;
+  }
+
+  getTime(): number {
+    return this.simulation.getTime();
+  }
+
+  getDuration(): number {
+    return this.recording.steps.reduce((sum, step) => sum + step.deltaTime, 0);
+  }
+
+  /**
+   * Premier pas dont l'état diffère de l'enregistrement (null = identique)
+   */
+  getDivergenceStep(): number | null {
+    return this.divergenceStep;
+  }
+
+  /**
+   * Fraction du prochain pas déjà écoulée, pour interpoler l'affichage
+   */
+  getAlpha(): number {
+    const next = this.recording.steps[this.currentStep];
+    if (!next || next.deltaTime <= 0) return 1;
+    return Math.min(1, this.accumulator / next.deltaTime);
+  }
+
+  /**
+   * Avance la lecture d'une durée réelle (multipliée par la vitesse)
+   * @param onBeforeStep - Appelé avant chaque pas rejoué (ex: mémoriser la pose affichée)
+   * @returns Nombre de pas rejoués
+   */
+  advance(realDelta: number, onBeforeStep?: () => void): number {
+    if (!this.playing) return 0;
+
+    this.accumulator += realDelta * this.speed;
+    let steps = 0;
+
+    while (!this.isFinished() && steps < MAX_STEPS_PER_ADVANCE) {
+      const next = this.recording.steps[this.currentStep];
+      if (this.accumulator < next.deltaTime) break;
+      this.accumulator -= next.deltaTime;
+      onBeforeStep?.();
+      this.stepOnce();
+      steps++;
+    }
+
+    if (steps >= MAX_STEPS_PER_ADVANCE) {
+      this.accumulator = 0; // Retard abandonné, comme FixedTimestepLoop
+    }
+    if (this.isFinished()) {
+      this.playing = false;
+      this.accumulator = 0;
+    }
+    return steps;
+  }
+
+  /**
+   * Se place après `stepIndex` pas rejoués
+   */
+  seek(stepIndex: number): void {
+    const target = Math.max(0, Math.min(stepIndex, this.recording.steps.length));
+    if (target < this.currentStep) {
+      this.restart();
+    }
+    while (this.currentStep < target) {
+      this.stepOnce();
+    }
+    this.accumulator = 0;
+  }
+
+  /**
+   * Rejoue tout le vol d'un coup
+   * @returns true si chaque état est identique à l'enregistrement
+   */
+  runToEnd(): boolean {
+    this.seek(this.recording.steps.length);
+    return this.divergenceStep === null;
+  }
+
+  /**
+   * Remet la simulation dans l'état du début d'enregistrement
+   */
+  private restart(): void {
+    const { initial, seed } = this.recording;
+    ConfigSnapshot.apply(initial.config, this.simulation.getKite());
+
+    const engine = this.simulation.getPhysicsEngine();
+    engine.setLineLength(initial.lineLength);
+    engine.setWindParams(initial.windParams);
+    engine.setWindScenario(initial.windScenario);
+    this.simulation.reset(seed);
+
+    this.currentStep = 0;
+    this.accumulator = 0;
+    this.divergenceStep = null;
+  }
+
+  private stepOnce(): void {
+    const step = this.recording.steps[this.currentStep];
+    this.applyInputs(step);
+    const state = FlightRecorder.serializeState(
+      this.simulation.step(step.deltaTime)
+    );
+
+    if (
+      this.divergenceStep === null &&
+      !FlightReplay.statesEqual(state, step.state)
+    ) {
+      this.divergenceStep = this.currentStep;
+    }
+    this.currentStep++;
+  }
+
+  private applyInputs(step: RecordedStep): void {
+    const engine = this.simulation.getPhysicsEngine();
+
+    if (step.config) {
+      ConfigSnapshot.apply(step.config, this.simulation.getKite());
+    }
+    if (step.windScenario !== undefined) {
+      engine.setWindScenario(step.windScenario);
+    }
+    if (step.lineLength !== engine.getLineSystem().lineLength) {
+      engine.setLineLength(step.lineLength);
+    }
+    engine.setWindParams(step.windParams);
+    this.simulation.setBarRotation(step.barRotation);
+  }
+
+  private static statesEqual(
+    a: SerializedKiteState,
+    b: SerializedKiteState
+  ): boolean {
+    const keys: (keyof SerializedKiteState)[] = [
+      "position",
+      "velocity",
+      "angularVelocity",
+      "orientation",
+    ];
+    return keys.every((key) =>
+      a[key].every((value, index) => Object.is(value, b[key][index]))
+    );
+  }
+}
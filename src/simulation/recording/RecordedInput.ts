@@ -0,0 +1,74 @@
+/**
+ * RecordedInput.ts - Commandes d'un vol enregistré comme source d'entrée
+ *
+ * Rôle :
+ *   - Rejoue la rotation de barre d'un FlightRecording au fil du temps, comme si
+ *     le pilote de l'enregistrement tenait la barre
+ *   - Source d'entrée (InputSource) active jusqu'à la fin de l'enregistrement
+ *
+ * Contrairement à FlightReplay, rien n'est remis à zéro ni comparé : les mêmes
+ * gestes sont rejoués sur les réglages, le vent et l'état courants (comparer deux
+ * réglages de brides avec le même pilotage, par exemple).
+ *
+ * Relation avec les fichiers adjacents :
+ *   - FlightReplay.ts : Rejeu déterministe (entrées, réglages et vérification)
+ *   - InputHandler.ts : Donne la main à cette source tant qu'elle joue
+ *
+ * Utilisation typique :
+ *   inputHandler.addSource(new RecordedInput(recording), 0);
+ *
+ * Voir aussi :
+ *   - src/simulation/types/InputTypes.ts
+ */
+import { FlightRecording, InputSource } from "../types";
+
+/**
+ * Source d'entrée rejouant un vol enregistré
+ */
+export class RecordedInput implements InputSource {
+  readonly name = "Vol enregistré";
+  private readonly recording: FlightRecording;
+  private stepIndex = 0;
+  /** Temps écoulé dans le pas courant (s) */
+  private stepTime = 0;
+  /** Rotation du pas en cours de lecture (null en fin d'enregistrement) */
+  private current: number | null = null;
+
+  constructor(recording: FlightRecording) {
+    this.recording = recording;
+  }
+
+  /**
+   * Retient la commande du pas où en est la lecture, puis avance de `deltaTime`
+   */
+  update(deltaTime: number): void {
+    const { steps } = this.recording;
+    this.current =
+      this.stepIndex < steps.length ? steps[this.stepIndex].barRotation : null;
+
+    this.stepTime += deltaTime;
+    while (
+      this.stepIndex < steps.length &&
+      this.stepTime >= steps[this.stepIndex].deltaTime
+    ) {
+      this.stepTime -= steps[this.stepIndex].deltaTime;
+      this.stepIndex++;
+    }
+  }
+
+  /** Actif jusqu'à la fin de l'enregistrement */
+  isActive(): boolean {
+    return this.current !== null;
+  }
+
+  getTargetBarRotation(): number {
+    return this.current ?? 0;
+  }
+
+  /** Reprend depuis le début */
+  rewind(): void {
+    this.stepIndex = 0;
+    this.stepTime = 0;
+    this.current = null;
+  }
+}
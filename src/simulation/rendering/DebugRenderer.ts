@@ -8,11 +8,10 @@
  *
  * Dépendances principales :
  *   - RenderManager.ts : Ajoute/retire les objets de debug à la scène Three.js
- *   - PhysicsEngine.ts : Récupère l'état physique du cerf-volant et les forces calculées
- *   - AerodynamicsCalculator.ts : Calcule les forces aérodynamiques sur chaque surface du kite
+ *   - PhysicsFrame (PhysicsEngine.getLastFrame) : Vent, forces et tensions réellement appliqués au dernier pas
  *   - Kite.ts : Accès à la géométrie et aux points anatomiques du cerf-volant
- *   - PhysicsConstants.ts, SimulationConfig.ts : Paramètres physiques et configuration
- *   - Types : Utilise SurfaceForce, KiteState pour typer les données physiques
+ *   - SimulationConfig.ts : Configuration
+ *   - Types : Utilise PhysicsFrame, SurfaceForce pour typer les données physiques
  *
  * Relation avec les fichiers adjacents :
  *   - RenderManager.ts : Fichier adjacent direct, gère la scène 3D et l'environnement visuel. DebugRenderer utilise RenderManager pour afficher les flèches de debug.
@@ -24,16 +23,13 @@
  *
  * Voir aussi :
  *   - src/simulation/physics/PhysicsEngine.ts
- *   - src/simulation/physics/AerodynamicsCalculator.ts
+ *   - src/simulation/types/PhysicsTypes.ts (PhysicsFrame)
  *   - src/objects/organic/Kite.ts
  *   - src/simulation/rendering/RenderManager.ts
  */
 import * as THREE from "three";
 import { Kite } from "../../objects/organic/Kite";
-import { KiteState, SurfaceForce } from "../types";
-import { PhysicsEngine } from "../physics/PhysicsEngine";
-import { AerodynamicsCalculator } from "../physics/AerodynamicsCalculator";
-import { PhysicsConstants } from "../config/PhysicsConstants";
+import { PhysicsFrame, SurfaceForce } from "../types";
 import { RenderManager } from "./RenderManager";
 import { CONFIG } from "../config/SimulationConfig";
 import { Primitive } from "@core/Primitive";
@@ -228,12 +224,18 @@ export class DebugRenderer {
     this.debugArrows = [];
   }
 
-  updateDebugArrows(kite: Kite, physicsEngine: PhysicsEngine): void {
+  /**
+   * Met à jour les flèches à partir de l'instantané du dernier pas physique
+   * @param kite - Kite affiché (pose interpolée, sert à placer les flèches)
+   * @param frame - PhysicsEngine.getLastFrame() ; rien n'est recalculé ici
+   */
+  updateDebugArrows(kite: Kite, frame: PhysicsFrame | null): void {
     if (!this.debugMode) return;
 
     this.clearDebugArrows();
+    if (!frame) return;
 
-    const kiteState = physicsEngine.getKiteController().getState();
+    const { kiteState, apparentWind: relativeWind } = frame;
     const kitePosition = kite.position.clone();
 
     // Calculer le centre géométrique entre NEZ et SPINE_BAS
@@ -254,10 +256,6 @@ export class DebugRenderer {
       this.debugArrows.push(velocityArrow);
     }
 
-    const windSim = physicsEngine.getWindSimulator();
-    const wind = windSim.getWindAt(kitePosition);
-    const relativeWind = wind.clone().sub(kiteState.velocity);
-
     // Vecteur de vent apparent (cyan)
     if (this.vectorVisibility.apparentWind && relativeWind.length() > 0.1) {
       const apparentWindArrow = Primitive.arrow(
@@ -273,10 +271,7 @@ export class DebugRenderer {
     }
 
     if (relativeWind.length() > 0.1) {
-      const { lift, drag, surfaceForces } = AerodynamicsCalculator.calculateForces(
-        relativeWind,
-        kite.quaternion
-      );
+      const { lift, drag, surfaceForces } = frame;
 
       // Forces globales (si activé)
       if (this.vectorVisibility.globalForces) {
@@ -315,50 +310,26 @@ export class DebugRenderer {
         this.displaySurfaceForces(surfaceForces, kite);
       }
 
-      this.updateDebugDisplay(kiteState, kitePosition, { lift, drag }, physicsEngine);
+      this.updateDebugDisplay(frame, kitePosition);
     }
   }
 
   private updateDebugDisplay(
-    kiteState: KiteState,
-    kitePosition: THREE.Vector3,
-    forces: { lift: THREE.Vector3; drag: THREE.Vector3 },
-    physicsEngine: PhysicsEngine
+    frame: PhysicsFrame,
+    kitePosition: THREE.Vector3
   ): void {
     const debugInfo = document.getElementById("debug-info");
     if (!debugInfo || !this.debugMode) return;
 
-    const { lift, drag } = forces;
-
-    // Calcul des tensions des lignes
-    const lineLength = physicsEngine.getLineSystem().lineLength;
-    const handles = physicsEngine
-      .getControlBarManager()
-      .getHandlePositions(kitePosition);
-
-    const kite = physicsEngine.getKiteController().getKite();
-    const ctrlLeft = kite.getPoint("CTRL_GAUCHE");
-    const ctrlRight = kite.getPoint("CTRL_DROIT");
-
-    let tensionInfo = "N/A";
-    if (ctrlLeft && ctrlRight) {
-      const kiteLeftWorld = ctrlLeft.clone();
-      const kiteRightWorld = ctrlRight.clone();
-      kite.localToWorld(kiteLeftWorld);
-      kite.localToWorld(kiteRightWorld);
-
-      const distL = kiteLeftWorld.distanceTo(handles.left);
-      const distR = kiteRightWorld.distanceTo(handles.right);
-      const tautL = distL >= lineLength - PhysicsConstants.CONTROL_DEADZONE;
-      const tautR = distR >= lineLength - PhysicsConstants.CONTROL_DEADZONE;
-
-      tensionInfo = `L:${tautL ? "TENDU" : "RELÂCHÉ"}(${distL.toFixed(2)}m) R:${
-        tautR ? "TENDU" : "RELÂCHÉ"
-      }(${distR.toFixed(2)}m)`;
-    }
+    const { lift, drag, kiteState, lines } = frame;
+
+    // État des lignes tel que mesuré au dernier pas
+    const tensionInfo = `L:${lines.left.taut ? "TENDU" : "RELÂCHÉ"}(${lines.left.length.toFixed(
+      2
+    )}m) R:${lines.right.taut ? "TENDU" : "RELÂCHÉ"}(${lines.right.length.toFixed(2)}m)`;
 
     // Informations du vent
-    const windParams = physicsEngine.getWindSimulator().getParams();
+    const windParams = frame.windParams;
 
     // Assemblage des informations de debug
     const totalForce = Math.sqrt(lift.lengthSq() + drag.lengthSq());
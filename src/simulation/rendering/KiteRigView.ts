@@ -0,0 +1,195 @@
+/**
+ * KiteRigView.ts - Affichage d'un ensemble pilote + kite
+ *
+ * Rôle :
+ *   - Construit la barre, le pilote et les deux lignes d'un kite
+ *   - Suit la simulation : lignes en chaînette, orientation de la barre
+ *   - Interpole l'affichage du kite entre deux pas physiques
+ *
+ * Relation avec les fichiers adjacents :
+ *   - HeadlessSimulation.ts : Kite et moteur physique affichés
+ *   - RenderInterpolator.ts : Interpolation de la pose du kite
+ *   - SimulationApp.ts : Une vue par kite de MultiKiteSimulation
+ *
+ * Utilisation typique :
+ *   const view = new KiteRigView(sim);
+ *   view.addTo(renderManager);
+ *   // à chaque frame, après les pas physiques :
+ *   view.update();
+ *
+ * Voir aussi :
+ *   - src/simulation/MultiKiteSimulation.ts
+ */
+import * as THREE from "three";
+import { HeadlessSimulation } from "../HeadlessSimulation";
+import { CONFIG } from "../config/SimulationConfig";
+import { RenderInterpolator } from "./RenderInterpolator";
+import { RenderManager } from "./RenderManager";
+
+/** Couleur du pilote du premier kite */
+const DEFAULT_PILOT_COLOR = 0x4a4a4a;
+
+/**
+ * Vue d'un ensemble pilote + kite
+ */
+export class KiteRigView {
+  private readonly simulation: HeadlessSimulation;
+  private readonly interpolator: RenderInterpolator;
+  private readonly controlBar = new THREE.Group();
+  private readonly pilot: THREE.Mesh;
+  private readonly leftLine: THREE.Line;
+  private readonly rightLine: THREE.Line;
+
+  /**
+   * @param pilotColor - Couleur du pilote, pour distinguer les kites
+   */
+  constructor(
+    simulation: HeadlessSimulation,
+    pilotColor: number = DEFAULT_PILOT_COLOR
+  ) {
+    this.simulation = simulation;
+    this.interpolator = new RenderInterpolator(simulation.getKite());
+    this.pilot = this.createPilot(pilotColor);
+    this.createControlBar();
+
+    const lineMaterial = new THREE.LineBasicMaterial({
+      color: 0x333333,
+      linewidth: 2,
+    });
+    this.leftLine = new THREE.Line(new THREE.BufferGeometry(), lineMaterial);
+    this.rightLine = new THREE.Line(new THREE.BufferGeometry(), lineMaterial);
+  }
+
+  addTo(renderManager: RenderManager): void {
+    this.getObjects().forEach((object) => renderManager.addObject(object));
+  }
+
+  removeFrom(renderManager: RenderManager): void {
+    this.getObjects().forEach((object) => renderManager.removeObject(object));
+  }
+
+  /** Le kite, la barre, le pilote et les lignes */
+  getObjects(): THREE.Object3D[] {
+    return [
+      this.simulation.getKite(),
+      this.controlBar,
+      this.pilot,
+      this.leftLine,
+      this.rightLine,
+    ];
+  }
+
+  getSimulation(): HeadlessSimulation {
+    return this.simulation;
+  }
+
+  /** Voir RenderInterpolator.restore */
+  restore(): void {
+    this.interpolator.restore();
+  }
+
+  /** Voir RenderInterpolator.beforeStep */
+  beforeStep(): void {
+    this.interpolator.beforeStep();
+  }
+
+  /**
+   * Mémorise l'état physique atteint et affiche la pose interpolée
+   * @param alpha - Facteur d'interpolation de la boucle à pas fixe
+   */
+  present(alpha: number): void {
+    this.interpolator.capture();
+    this.interpolator.apply(alpha);
+  }
+
+  /**
+   * Aligne l'affichage sur l'état physique (après un reset)
+   */
+  snap(): void {
+    this.interpolator.snap();
+    this.controlBar.quaternion.identity();
+    this.update();
+  }
+
+  /**
+   * Redessine les lignes et oriente la barre vers le kite affiché
+   */
+  update(): void {
+    const kite = this.simulation.getKite();
+    const ctrlLeft = kite.getPoint("CTRL_GAUCHE");
+    const ctrlRight = kite.getPoint("CTRL_DROIT");
+
+    if (!ctrlLeft || !ctrlRight) return;
+
+    const kiteLeftWorld = ctrlLeft.clone();
+    const kiteRightWorld = ctrlRight.clone();
+    kite.localToWorld(kiteLeftWorld);
+    kite.localToWorld(kiteRightWorld);
+
+    const physicsEngine = this.simulation.getPhysicsEngine();
+    const handles = physicsEngine
+      .getControlBarManager()
+      .getHandlePositions(kite.position);
+
+    const leftPoints = physicsEngine
+      .getLineSystem()
+      .calculateCatenary(handles.left, kiteLeftWorld);
+    const rightPoints = physicsEngine
+      .getLineSystem()
+      .calculateCatenary(handles.right, kiteRightWorld);
+
+    this.leftLine.geometry.setFromPoints(leftPoints);
+    this.rightLine.geometry.setFromPoints(rightPoints);
+
+    physicsEngine.getControlBarManager().updateVisual(this.controlBar, kite);
+  }
+
+  private createControlBar(): void {
+    this.controlBar.position.copy(this.simulation.getPilotPosition());
+
+    const barGeometry = new THREE.CylinderGeometry(
+      0.02,
+      0.02,
+      CONFIG.controlBar.width
+    );
+    const barMaterial = new THREE.MeshStandardMaterial({
+      color: 0x333333,
+      metalness: 0.7,
+      roughness: 0.3,
+    });
+    const bar = new THREE.Mesh(barGeometry, barMaterial);
+    bar.rotation.z = Math.PI / 2;
+    this.controlBar.add(bar);
+
+    const handleGeometry = new THREE.CylinderGeometry(0.03, 0.03, 0.15);
+    const handleMaterial = new THREE.MeshStandardMaterial({
+      color: 0x8b4513,
+      roughness: 0.6,
+    });
+
+    const halfWidth = CONFIG.controlBar.width / 2;
+    const leftHandle = new THREE.Mesh(handleGeometry, handleMaterial);
+    leftHandle.position.set(-halfWidth, 0, 0);
+    this.controlBar.add(leftHandle);
+
+    const rightHandle = new THREE.Mesh(handleGeometry, handleMaterial);
+    rightHandle.position.set(halfWidth, 0, 0);
+    this.controlBar.add(rightHandle);
+  }
+
+  /**
+   * Pilote debout derrière sa barre
+   */
+  private createPilot(color: number): THREE.Mesh {
+    const pilotGeometry = new THREE.BoxGeometry(0.4, 1.6, 0.3);
+    const pilotMaterial = new THREE.MeshStandardMaterial({
+      color,
+      roughness: 0.8,
+    });
+    const pilot = new THREE.Mesh(pilotGeometry, pilotMaterial);
+    const barPosition = this.simulation.getPilotPosition();
+    pilot.position.set(barPosition.x, 0.8, barPosition.z + 0.5);
+    pilot.castShadow = true;
+    return pilot;
+  }
+}
@@ -0,0 +1,95 @@
+/**
+ * RenderInterpolator.ts - Interpolation d'affichage entre deux états physiques
+ *
+ * Rôle :
+ *   - Mémorise la transformation d'un objet avant et après les pas physiques
+ *   - Affiche une transformation interpolée selon le facteur alpha de la boucle à pas fixe
+ *   - Restaure l'état physique exact avant que la physique ne reprenne la main
+ *
+ * Dépendances principales :
+ *   - Three.js : Vector3.lerpVectors, Quaternion.slerpQuaternions
+ *
+ * Relation avec les fichiers adjacents :
+ *   - FixedTimestepLoop.ts : Fournit alpha
+ *   - SimulationApp.ts : Encadre les pas physiques avec beforeStep()/capture()
+ *
+ * Utilisation typique :
+ *   interpolator.restore();
+ *   loop.advance(dt, (h) => { interpolator.beforeStep(); engine.update(h, ...); });
+ *   interpolator.capture();
+ *   interpolator.apply(loop.getAlpha());
+ *
+ * Voir aussi :
+ *   - src/simulation/physics/FixedTimestepLoop.ts
+ */
+import * as THREE from "three";
+
+/**
+ * Interpolateur de transformation pour un objet piloté par la physique
+ *
+ * Le kite est à la fois l'état physique et l'objet affiché : on doit donc
+ * remettre l'état physique en place (restore) avant chaque nouvelle frame.
+ */
+export class RenderInterpolator {
+  private previousPosition = new THREE.Vector3();
+  private previousQuaternion = new THREE.Quaternion();
+  private currentPosition = new THREE.Vector3();
+  private currentQuaternion = new THREE.Quaternion();
+
+  constructor(private target: THREE.Object3D) {
+    this.snap();
+  }
+
+  /**
+   * Aligne les états précédent et courant sur la transformation actuelle
+   * (à appeler après un reset ou une téléportation)
+   */
+  snap(): void {
+    this.currentPosition.copy(this.target.position);
+    this.currentQuaternion.copy(this.target.quaternion);
+    this.previousPosition.copy(this.currentPosition);
+    this.previousQuaternion.copy(this.currentQuaternion);
+  }
+
+  /**
+   * Remet l'objet dans son dernier état physique (annule l'interpolation affichée)
+   */
+  restore(): void {
+    this.target.position.copy(this.currentPosition);
+    this.target.quaternion.copy(this.currentQuaternion);
+  }
+
+  /**
+   * Mémorise l'état avant un pas physique
+   */
+  beforeStep(): void {
+    this.previousPosition.copy(this.target.position);
+    this.previousQuaternion.copy(this.target.quaternion);
+  }
+
+  /**
+   * Mémorise l'état physique courant après les pas de la frame
+   */
+  capture(): void {
+    this.currentPosition.copy(this.target.position);
+    this.currentQuaternion.copy(this.target.quaternion);
+  }
+
+  /**
+   * Applique la transformation interpolée pour l'affichage
+   * @param alpha - 0 = état précédent, 1 = état courant
+   */
+  apply(alpha: number): void {
+    const t = Math.max(0, Math.min(1, alpha));
+    this.target.position.lerpVectors(
+      this.previousPosition,
+      this.currentPosition,
+      t
+    );
+    this.target.quaternion.slerpQuaternions(
+      this.previousQuaternion,
+      this.currentQuaternion,
+      t
+    );
+  }
+}
@@ -0,0 +1,117 @@
+/**
+ * WindWindowOverlay.ts - Fenêtre de vent affichée dans la scène
+ *
+ * Rôle :
+ *   - Quart de sphère translucide centré sur le pilote, de rayon la longueur de ligne,
+ *     ouvert sous le vent
+ *   - Une calotte par zone (puissance, intermédiaire, bord), la zone du kite plus opaque
+ *
+ * La géométrie est construite une fois pour un rayon unité ; update() ne fait
+ * que replacer, orienter et mettre à l'échelle le groupe.
+ *
+ * Relation avec les fichiers adjacents :
+ *   - WindWindow.ts : Limites des zones et convention de direction du vent
+ *   - RenderManager.ts : Scène à laquelle le groupe est ajouté
+ *
+ * Utilisation typique :
+ *   const overlay = new WindWindowOverlay();
+ *   renderManager.addObject(overlay.getObject());
+ *   overlay.update(pilotPosition, lineLength, windParams.direction, "power");
+ *
+ * Voir aussi :
+ *   - src/simulation/ui/WindWindowPanel.ts
+ */
+import * as THREE from "three";
+import { WindWindow } from "../physics/WindWindow";
+import { WindWindowZone } from "../types";
+
+const ZONE_COLORS: Record<WindWindowZone, number> = {
+  power: 0xff4444,
+  intermediate: 0xffaa00,
+  edge: 0x44cc44,
+};
+
+const OPACITY = 0.08;
+const ACTIVE_OPACITY = 0.22;
+
+/**
+ * Zones de la fenêtre de vent en 3D
+ */
+export class WindWindowOverlay {
+  private readonly group = new THREE.Group();
+  private readonly materials = new Map<WindWindowZone, THREE.MeshBasicMaterial>();
+
+  constructor() {
+    const { power, intermediate } = WindWindow.ZONE_LIMITS;
+    const limits: Array<[WindWindowZone, number, number]> = [
+      ["power", 0, power],
+      ["intermediate", power, intermediate],
+      ["edge", intermediate, 90],
+    ];
+
+    // Pôle de la sphère (+Y) tourné sous le vent (-Z), moitié au-dessus du sol
+    const pole = new THREE.Group();
+    pole.rotation.x = -Math.PI / 2;
+    limits.forEach(([zone, from, to]) => {
+      const geometry = new THREE.SphereGeometry(
+        1,
+        48,
+        16,
+        0,
+        Math.PI,
+        THREE.MathUtils.degToRad(from),
+        THREE.MathUtils.degToRad(to - from)
+      );
+      const material = new THREE.MeshBasicMaterial({
+        color: ZONE_COLORS[zone],
+        transparent: true,
+        opacity: OPACITY,
+        side: THREE.DoubleSide,
+        depthWrite: false,
+      });
+      this.materials.set(zone, material);
+      pole.add(new THREE.Mesh(geometry, material));
+    });
+
+    this.group.add(pole);
+    this.group.name = "WindWindowOverlay";
+  }
+
+  getObject(): THREE.Object3D {
+    return this.group;
+  }
+
+  setVisible(visible: boolean): void {
+    this.group.visible = visible;
+  }
+
+  isVisible(): boolean {
+    return this.group.visible;
+  }
+
+  /**
+   * Replace la fenêtre sur le pilote, dans l'axe du vent
+   * @param windDirection - WindParams.direction (degrés)
+   * @param activeZone - Zone du kite, mise en évidence (null : aucune)
+   */
+  update(
+    pilotPosition: THREE.Vector3,
+    lineLength: number,
+    windDirection: number,
+    activeZone: WindWindowZone | null
+  ): void {
+    this.group.position.copy(pilotPosition);
+    this.group.rotation.y = -THREE.MathUtils.degToRad(windDirection);
+    this.group.scale.setScalar(lineLength);
+    this.materials.forEach((material, zone) => {
+      material.opacity = zone === activeZone ? ACTIVE_OPACITY : OPACITY;
+    });
+  }
+
+  dispose(): void {
+    this.group.traverse((object) => {
+      if (object instanceof THREE.Mesh) object.geometry.dispose();
+    });
+    this.materials.forEach((material) => material.dispose());
+  }
+}
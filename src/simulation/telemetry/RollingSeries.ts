@@ -0,0 +1,94 @@
+/**
+ * RollingSeries.ts - Série temporelle glissante
+ *
+ * Rôle :
+ *   - Conserve les échantillons (temps, valeur) des N dernières secondes simulées
+ *   - Les échantillons trop anciens sont abandonnés à chaque ajout
+ *   - Les lectures peuvent se limiter à une fenêtre plus courte (fromTime)
+ *
+ * Relation avec les fichiers adjacents :
+ *   - ChartPanel.ts : Une série par courbe tracée
+ *
+ * Utilisation typique :
+ *   const series = new RollingSeries(10);
+ *   series.push(time, value);
+ *   series.forEach((t, v) => ..., now - 5); // 5 dernières secondes
+ */
+
+/**
+ * Série glissante sur une fenêtre de temps
+ */
+export class RollingSeries {
+  private times: number[] = [];
+  private values: number[] = [];
+  private start = 0;
+  private readonly windowSeconds: number;
+
+  /**
+   * @param windowSeconds - Durée conservée (s)
+   */
+  constructor(windowSeconds: number) {
+    this.windowSeconds = windowSeconds;
+  }
+
+  push(time: number, value: number): void {
+    this.times.push(time);
+    this.values.push(value);
+
+    const oldest = time - this.windowSeconds;
+    while (this.start < this.times.length && this.times[this.start] < oldest) {
+      this.start++;
+    }
+    // Compacter de temps en temps plutôt qu'à chaque échantillon
+    if (this.start > 1024 && this.start > this.times.length / 2) {
+      this.times = this.times.slice(this.start);
+      this.values = this.values.slice(this.start);
+      this.start = 0;
+    }
+  }
+
+  clear(): void {
+    this.times = [];
+    this.values = [];
+    this.start = 0;
+  }
+
+  get length(): number {
+    return this.times.length - this.start;
+  }
+
+  /** Temps du dernier échantillon (null si vide) */
+  getLastTime(): number | null {
+    return this.length > 0 ? this.times[this.times.length - 1] : null;
+  }
+
+  /** Dernière valeur (null si vide) */
+  getLastValue(): number | null {
+    return this.length > 0 ? this.values[this.values.length - 1] : null;
+  }
+
+  /**
+   * Bornes des valeurs à partir de `fromTime` (null si aucun échantillon)
+   */
+  getRange(fromTime = -Infinity): { min: number; max: number } | null {
+    let min = Infinity;
+    let max = -Infinity;
+    this.forEach((_, value) => {
+      min = Math.min(min, value);
+      max = Math.max(max, value);
+    }, fromTime);
+    return min <= max ? { min, max } : null;
+  }
+
+  /**
+   * Parcourt les échantillons à partir de `fromTime`, du plus ancien au plus récent
+   */
+  forEach(
+    callback: (time: number, value: number) => void,
+    fromTime = -Infinity
+  ): void {
+    for (let i = this.start; i < this.times.length; i++) {
+      if (this.times[i] >= fromTime) callback(this.times[i], this.values[i]);
+    }
+  }
+}
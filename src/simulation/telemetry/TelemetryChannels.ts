@@ -0,0 +1,164 @@
+/**
+ * TelemetryChannels.ts - Catalogue des canaux de télémétrie
+ *
+ * Rôle :
+ *   - Liste les grandeurs disponibles : état du kite, tensions des lignes et des
+ *     brides, portance/traînée, angle d'attaque, rotation de barre, vent
+ *   - Chaque canal lit le SimulationStepEvent (et donc le PhysicsFrame) du pas :
+ *     aucune force n'est recalculée
+ *
+ * Relation avec les fichiers adjacents :
+ *   - TelemetrySession.ts : Échantillonne une sélection de ces canaux
+ *   - ChartPanel.ts : Trace certains canaux en direct
+ *
+ * Voir aussi :
+ *   - src/simulation/types/TelemetryTypes.ts
+ */
+import * as THREE from "three";
+import { SimulationStepEvent, TelemetryChannel } from "../types";
+import { BridleTensions } from "../types/BridleTypes";
+import { AerodynamicsCalculator } from "../physics/AerodynamicsCalculator";
+
+type VectorSource = (event: SimulationStepEvent) => THREE.Vector3;
+
+/**
+ * Trois canaux x/y/z pour un vecteur
+ */
+function vectorChannels(
+  prefix: string,
+  label: string,
+  unit: string,
+  source: VectorSource
+): TelemetryChannel[] {
+  return (["x", "y", "z"] as const).map((axis) => ({
+    id: `${prefix}_${axis}`,
+    label: `${label} ${axis.toUpperCase()}`,
+    unit,
+    read: (event: SimulationStepEvent) => source(event)[axis],
+  }));
+}
+
+function bridleChannel(
+  key: keyof BridleTensions,
+  label: string
+): TelemetryChannel {
+  return {
+    id: `bridle_${key}`,
+    label: `Tension bride ${label}`,
+    unit: "N",
+    read: (event) => event.frame.bridleTensions[key],
+  };
+}
+
+/**
+ * Canaux de télémétrie disponibles
+ */
+export class TelemetryChannels {
+  static readonly ALL: ReadonlyArray<TelemetryChannel> = [
+    { id: "time", label: "Temps", unit: "s", read: (e) => e.time },
+    ...vectorChannels("pos", "Position", "m", (e) => e.state.position),
+    ...vectorChannels("vel", "Vitesse", "m/s", (e) => e.state.velocity),
+    {
+      id: "speed",
+      label: "Vitesse",
+      unit: "m/s",
+      read: (e) => e.state.velocity.length(),
+    },
+    ...vectorChannels(
+      "omega",
+      "Vitesse angulaire",
+      "rad/s",
+      (e) => e.state.angularVelocity
+    ),
+    ...(["x", "y", "z", "w"] as const).map((axis) => ({
+      id: `quat_${axis}`,
+      label: `Orientation ${axis.toUpperCase()}`,
+      unit: "",
+      read: (e: SimulationStepEvent) => e.state.orientation[axis],
+    })),
+    {
+      id: "bar_rotation",
+      label: "Rotation de barre",
+      unit: "rad",
+      read: (e) => e.frame.barRotation,
+    },
+    {
+      id: "line_tension_left",
+      label: "Tension ligne gauche",
+      unit: "N",
+      read: (e) => e.frame.lines.left.tension,
+    },
+    {
+      id: "line_tension_right",
+      label: "Tension ligne droite",
+      unit: "N",
+      read: (e) => e.frame.lines.right.tension,
+    },
+    {
+      id: "line_distance_left",
+      label: "Distance ligne gauche",
+      unit: "m",
+      read: (e) => e.frame.lines.left.length,
+    },
+    {
+      id: "line_distance_right",
+      label: "Distance ligne droite",
+      unit: "m",
+      read: (e) => e.frame.lines.right.length,
+    },
+    bridleChannel("leftNez", "NEZ gauche"),
+    bridleChannel("leftInter", "INTER gauche"),
+    bridleChannel("leftCentre", "CENTRE gauche"),
+    bridleChannel("rightNez", "NEZ droite"),
+    bridleChannel("rightInter", "INTER droite"),
+    bridleChannel("rightCentre", "CENTRE droite"),
+    ...vectorChannels("lift", "Portance", "N", (e) => e.frame.lift),
+    {
+      id: "lift",
+      label: "Portance",
+      unit: "N",
+      read: (e) => e.frame.lift.length(),
+    },
+    ...vectorChannels("drag", "Traînée", "N", (e) => e.frame.drag),
+    {
+      id: "drag",
+      label: "Traînée",
+      unit: "N",
+      read: (e) => e.frame.drag.length(),
+    },
+    {
+      id: "aoa",
+      label: "Angle d'attaque",
+      unit: "deg",
+      read: (e) =>
+        AerodynamicsCalculator.computeAngleOfAttack(
+          e.frame.apparentWind,
+          e.state.orientation
+        ),
+    },
+    {
+      id: "wind_speed",
+      label: "Vent réel au kite",
+      unit: "m/s",
+      read: (e) => e.frame.wind.length(),
+    },
+    {
+      id: "apparent_wind_speed",
+      label: "Vent apparent",
+      unit: "m/s",
+      read: (e) => e.frame.apparentWind.length(),
+    },
+  ];
+
+  /**
+   * Canal par identifiant
+   * @throws Error si l'identifiant est inconnu
+   */
+  static get(id: string): TelemetryChannel {
+    const channel = this.ALL.find((c) => c.id === id);
+    if (!channel) {
+      throw new Error(`Canal de télémétrie inconnu: ${id}`);
+    }
+    return channel;
+  }
+}
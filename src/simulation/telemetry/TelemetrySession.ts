@@ -0,0 +1,136 @@
+/**
+ * TelemetrySession.ts - Capture de télémétrie par pas physique
+ *
+ * Rôle :
+ *   - Échantillonne une sélection de canaux à chaque pas de la simulation
+ *   - Exporte les échantillons en CSV (une colonne par canal) ou en JSON Lines
+ *     (un objet par pas) pour l'analyse dans un notebook
+ *
+ * Fonctionne à l'identique dans le navigateur et en headless : seule la
+ * HeadlessSimulation est nécessaire.
+ *
+ * Relation avec les fichiers adjacents :
+ *   - TelemetryChannels.ts : Canaux disponibles
+ *   - HeadlessSimulation.ts : Source des pas (addStepListener)
+ *
+ * Utilisation typique :
+ *   const session = new TelemetrySession({ channels: ["time", "pos_y", "line_tension_left"] });
+ *   session.start(sim);
+ *   sim.run(30);
+ *   session.stop();
+ *   fs.writeFileSync("vol.csv", session.toCSV());
+ *
+ * Voir aussi :
+ *   - src/simulation/ui/TelemetryPanel.ts
+ */
+import { HeadlessSimulation } from "../HeadlessSimulation";
+import { SimulationStepEvent, TelemetryChannel } from "../types";
+import { TelemetryChannels } from "./TelemetryChannels";
+
+export interface TelemetrySessionOptions {
+  /** Identifiants des canaux (défaut : tous) */
+  channels?: string[];
+  /** Garder un pas sur N (défaut : 1, chaque pas) */
+  sampleEvery?: number;
+}
+
+/**
+ * Session de télémétrie
+ */
+export class TelemetrySession {
+  private readonly channels: TelemetryChannel[];
+  private readonly sampleEvery: number;
+  private rows: number[][] = [];
+  private stepCounter = 0;
+  private unsubscribe: (() => void) | null = null;
+
+  /**
+   * @throws Error si un canal demandé est inconnu
+   */
+  constructor(options: TelemetrySessionOptions = {}) {
+    this.channels = options.channels
+      ? options.channels.map((id) => TelemetryChannels.get(id))
+      : [...TelemetryChannels.ALL];
+    this.sampleEvery = Math.max(1, Math.floor(options.sampleEvery ?? 1));
+  }
+
+  /**
+   * Commence la capture (les échantillons précédents sont effacés)
+   */
+  start(simulation: HeadlessSimulation): void {
+    this.stop();
+    this.clear();
+    this.unsubscribe = simulation.addStepListener((event) =>
+      this.sample(event)
+    );
+  }
+
+  stop(): void {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+  }
+
+  isCapturing(): boolean {
+    return this.unsubscribe !== null;
+  }
+
+  clear(): void {
+    this.rows = [];
+    this.stepCounter = 0;
+  }
+
+  getChannels(): ReadonlyArray<TelemetryChannel> {
+    return this.channels;
+  }
+
+  getSampleCount(): number {
+    return this.rows.length;
+  }
+
+  /**
+   * Échantillons bruts, une ligne par pas retenu (ordre des canaux)
+   */
+  getRows(): ReadonlyArray<ReadonlyArray<number>> {
+    return this.rows;
+  }
+
+  /**
+   * CSV : en-tête des identifiants de canaux puis une ligne par échantillon
+   */
+  toCSV(): string {
+    const header = this.channels.map((c) => c.id).join(",");
+    const lines = this.rows.map((row) => row.join(","));
+    return [header, ...lines].join("\n") + "\n";
+  }
+
+  /**
+   * JSON Lines : un objet { canal: valeur } par échantillon
+   */
+  toJSONL(): string {
+    return this.rows
+      .map((row) => {
+        const sample: Record<string, number> = {};
+        this.channels.forEach((channel, index) => {
+          sample[channel.id] = row[index];
+        });
+        return JSON.stringify(sample) + "\n";
+      })
+      .join("");
+  }
+
+  /**
+   * Unités par canal (à joindre à l'export pour l'analyse)
+   */
+  getUnits(): Record<string, string> {
+    const units: Record<string, string> = {};
+    this.channels.forEach((channel) => {
+      units[channel.id] = channel.unit;
+    });
+    return units;
+  }
+
+  private sample(event: SimulationStepEvent): void {
+    if (this.stepCounter++ % this.sampleEvery !== 0) return;
+    this.rows.push(this.channels.map((channel) => channel.read(event)));
+  }
+}
@@ -0,0 +1,483 @@
+/**
+ * TrickRecognizer.ts - Reconnaissance des figures de voltige
+ *
+ * Rôle :
+ *   - Reconnaît les loopings, virages carrés, piqués, décrochages et axels à
+ *     partir de l'historique d'orientation et de vitesse angulaire du kite
+ *   - Mesure chaque figure : durée, angle parcouru, rayon, hauteur perdue
+ *   - Fonctionne en direct (pas de la simulation) ou sur un vol enregistré
+ *
+ * Les virages se lisent sur le cap du nez dans la fenêtre de vent (WindWindow.heading),
+ * tant que la voile fait face au pilote : un looping enchaîne au moins un tour de
+ * cap dans le même sens, un virage carré un quart de tour bref. L'axel est une
+ * rotation rapide autour de la normale de la voile, kite à plat. Une figure est
+ * émise quand elle se termine, avec ses mesures.
+ *
+ * Relation avec les fichiers adjacents :
+ *   - HeadlessSimulation.ts : Source des pas (addStepListener)
+ *   - WindWindow.ts : Cap du nez sur la sphère des lignes
+ *   - FlightRecorder.ts : Range les figures reconnues avec l'enregistrement
+ *
+ * Utilisation typique :
+ *   const recognizer = new TrickRecognizer();
+ *   recognizer.addListener((trick) => console.log(trick.type, trick.radius));
+ *   recognizer.start(sim);
+ *   // ou, après coup :
+ *   TrickRecognizer.analyze(recording);
+ *
+ * Voir aussi :
+ *   - src/simulation/types/TrickTypes.ts
+ */
+import * as THREE from "three";
+import { HeadlessSimulation } from "../HeadlessSimulation";
+import { CONFIG } from "../config/SimulationConfig";
+import { WindWindow } from "../physics/WindWindow";
+import { FlightRecorder } from "../recording/FlightRecorder";
+import {
+  FlightRecording,
+  KiteState,
+  RecognizedTrick,
+  SimulationStepEvent,
+  TrickListener,
+  TrickThresholds,
+  TrickType,
+} from "../types";
+
+const DEG = Math.PI / 180;
+/** |normale · rayon| au-delà duquel la voile fait face au pilote */
+const FACING_PILOT = 0.5;
+/** |normale · vertical| au-delà duquel le kite est à plat */
+const FLAT = 0.7;
+/** Nez à au moins cet angle du zénith pour un décrochage (degrés) : un kite
+ * garé nez en haut n'est pas décroché */
+const STALL_HEADING = 45;
+/** Hauteur au-dessus du sol sous laquelle le kite n'est plus en vol (m) */
+const AIRBORNE_MARGIN = 0.5;
+/** Nombre de figures conservées */
+const HISTORY_SIZE = 100;
+
+/**
+ * Figure en cours : rotation cumulée et mesures depuis son début
+ */
+interface Segment {
+  sign: number;
+  startTime: number;
+  lastActiveTime: number;
+  /** Angle cumulé signé (rad) */
+  angle: number;
+  /** Chemin parcouru tangentiellement aux lignes (m) */
+  arc: number;
+  startHeight: number;
+  minHeight: number;
+  peakSpeed: number;
+}
+
+/**
+ * Reconnaissance des figures
+ */
+export class TrickRecognizer {
+  static readonly DEFAULT_THRESHOLDS: TrickThresholds = {
+    turnRate: 0.35,
+    turnGap: 0.3,
+    loopAngle: 330,
+    loopMinRadius: 0.5,
+    squareTurnMinAngle: 60,
+    squareTurnMaxAngle: 130,
+    squareTurnMaxDuration: 1,
+    diveHeading: 135,
+    diveSinkRate: 1,
+    diveAltitude: 2,
+    stallSpeed: 0.5,
+    stallRate: 0.5,
+    stallDuration: 1,
+    axelRate: 3,
+    axelAngle: 300,
+    axelMaxDuration: 2,
+  };
+
+  private thresholds: TrickThresholds;
+  private listeners: TrickListener[] = [];
+  private tricks: RecognizedTrick[] = [];
+  private unsubscribe: (() => void) | null = null;
+
+  private previousTime: number | null = null;
+  private previousHeading: number | null = null;
+  private previousHeight = 0;
+  private turn: Segment | null = null;
+  private axel: Segment | null = null;
+  private dive: Segment | null = null;
+  private stall: Segment | null = null;
+
+  constructor(thresholds: Partial<TrickThresholds> = {}) {
+    this.thresholds = { ...TrickRecognizer.DEFAULT_THRESHOLDS, ...thresholds };
+  }
+
+  getThresholds(): TrickThresholds {
+    return { ...this.thresholds };
+  }
+
+  setThresholds(thresholds: Partial<TrickThresholds>): void {
+    this.thresholds = { ...this.thresholds, ...thresholds };
+  }
+
+  /**
+   * Suit les pas de la simulation (les figures en cours sont abandonnées à chaque reset)
+   */
+  start(simulation: HeadlessSimulation): void {
+    this.stop();
+    this.unsubscribe = simulation.addStepListener((event) =>
+      this.onStep(simulation, event)
+    );
+  }
+
+  stop(): void {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+  }
+
+  /**
+   * Abonne un observateur aux figures reconnues
+   * @returns Fonction de désabonnement
+   */
+  addListener(listener: TrickListener): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter((l) => l !== listener);
+    };
+  }
+
+  /** Dernières figures, de la plus ancienne à la plus récente */
+  getTricks(): RecognizedTrick[] {
+    return [...this.tricks];
+  }
+
+  clearTricks(): void {
+    this.tricks = [];
+  }
+
+  /**
+   * Abandonne les figures en cours (le prochain échantillon repart de zéro)
+   */
+  reset(): void {
+    this.previousTime = null;
+    this.previousHeading = null;
+    this.turn = null;
+    this.axel = null;
+    this.dive = null;
+    this.stall = null;
+  }
+
+  /**
+   * Analyse un échantillon de vol
+   * @param time - Temps simulé (s) ; s'il recule, les figures en cours sont abandonnées
+   * @param windDirection - WindParams.direction (degrés)
+   */
+  push(
+    time: number,
+    state: KiteState,
+    pilotPosition: THREE.Vector3,
+    windDirection: number
+  ): void {
+    if (this.previousTime !== null && time <= this.previousTime) this.reset();
+
+    const radial = state.position.clone().sub(pilotPosition).normalize();
+    const normal = new THREE.Vector3(0, 0, 1).applyQuaternion(state.orientation);
+    const facingPilot = Math.abs(normal.dot(radial)) >= FACING_PILOT;
+    const heading = WindWindow.heading(
+      state.position,
+      state.orientation,
+      pilotPosition,
+      windDirection
+    );
+    const height = state.position.y;
+    const speed = state.velocity.length();
+
+    if (this.previousTime !== null) {
+      const dt = time - this.previousTime;
+      const tangentialSpeed = state.velocity
+        .clone()
+        .addScaledVector(radial, -state.velocity.dot(radial))
+        .length();
+
+      let turning = false;
+      if (facingPilot && this.previousHeading !== null) {
+        const delta = Math.atan2(
+          Math.sin(heading - this.previousHeading),
+          Math.cos(heading - this.previousHeading)
+        );
+        turning = Math.abs(delta / dt) >= this.thresholds.turnRate;
+        this.trackTurn(time, turning, delta, dt, tangentialSpeed, height, speed);
+      } else if (this.turn) {
+        this.finishTurn();
+      }
+
+      this.trackAxel(time, state, normal, dt, tangentialSpeed, height, speed);
+      this.trackDive(time, facingPilot && !turning, heading, state, height, speed);
+      this.trackStall(time, facingPilot, heading, state, height, speed);
+    }
+
+    this.previousTime = time;
+    this.previousHeading = facingPilot ? heading : null;
+    this.previousHeight = height;
+  }
+
+  /**
+   * Reconnaît les figures d'un vol enregistré
+   * @param pilotPosition - Position de la barre pendant le vol
+   */
+  static analyze(
+    recording: FlightRecording,
+    pilotPosition: THREE.Vector3 = CONFIG.controlBar.position,
+    thresholds: Partial<TrickThresholds> = {}
+  ): RecognizedTrick[] {
+    const recognizer = new TrickRecognizer(thresholds);
+    const tricks: RecognizedTrick[] = [];
+    recognizer.addListener((trick) => tricks.push(trick));
+
+    let time = 0;
+    recording.steps.forEach((step) => {
+      time += step.deltaTime;
+      recognizer.push(
+        time,
+        FlightRecorder.deserializeState(step.state),
+        pilotPosition,
+        step.windParams.direction
+      );
+    });
+    recognizer.flush();
+    return tricks;
+  }
+
+  /**
+   * Termine les figures en cours (fin d'un vol enregistré)
+   */
+  flush(): void {
+    if (this.turn) this.finishTurn();
+    if (this.axel) this.finishAxel();
+    if (this.dive) this.finishDive();
+    if (this.stall) this.finishStall();
+  }
+
+  private onStep(simulation: HeadlessSimulation, event: SimulationStepEvent): void {
+    if (event.stepIndex === 0) this.reset();
+    this.push(
+      event.time,
+      event.state,
+      simulation.getPilotPosition(),
+      event.inputs.windParams.direction
+    );
+  }
+
+  /**
+   * Virages et loopings : cap cumulé tant qu'il tourne vite dans le même sens
+   */
+  private trackTurn(
+    time: number,
+    turning: boolean,
+    delta: number,
+    dt: number,
+    tangentialSpeed: number,
+    height: number,
+    speed: number
+  ): void {
+    const t = this.thresholds;
+    if (turning) {
+      const sign = Math.sign(delta);
+      if (this.turn && this.turn.sign !== sign) this.finishTurn();
+      this.turn ??= this.startSegment(sign, time - dt, this.previousHeight);
+      this.extendSegment(this.turn, time, delta, tangentialSpeed * dt, height, speed);
+    } else if (this.turn && time - this.turn.lastActiveTime > t.turnGap) {
+      this.finishTurn();
+    }
+  }
+
+  private finishTurn(): void {
+    const turn = this.turn!;
+    this.turn = null;
+    const t = this.thresholds;
+    const angle = Math.abs(turn.angle) / DEG;
+    const duration = turn.lastActiveTime - turn.startTime;
+    const radius = turn.arc / Math.abs(turn.angle);
+
+    let type: TrickType | null = null;
+    // Sans déplacement, le kite tourne sur lui-même (axel près du zénith) : pas un looping
+    if (angle >= t.loopAngle && radius >= t.loopMinRadius) {
+      type = "loop";
+    } else if (
+      angle >= t.squareTurnMinAngle &&
+      angle <= t.squareTurnMaxAngle &&
+      duration <= t.squareTurnMaxDuration
+    ) {
+      type = "squareTurn";
+    }
+    if (!type) return;
+
+    this.emit({
+      ...this.measure(turn),
+      type,
+      // Cap croissant : le nez tourne vers la droite du pilote
+      direction: turn.sign > 0 ? "right" : "left",
+      angle,
+      radius,
+    });
+  }
+
+  /**
+   * Axel : rotation rapide autour de la normale, voile à plat
+   */
+  private trackAxel(
+    time: number,
+    state: KiteState,
+    normal: THREE.Vector3,
+    dt: number,
+    tangentialSpeed: number,
+    height: number,
+    speed: number
+  ): void {
+    const t = this.thresholds;
+    // Rotation vue d'en haut, quel que soit le côté de la voile tourné vers le ciel
+    const spin = state.angularVelocity.dot(normal) * Math.sign(normal.y);
+    if (Math.abs(normal.y) >= FLAT && Math.abs(spin) >= t.axelRate) {
+      const sign = Math.sign(spin);
+      if (this.axel && this.axel.sign !== sign) this.finishAxel();
+      this.axel ??= this.startSegment(sign, time - dt, this.previousHeight);
+      this.extendSegment(this.axel, time, spin * dt, tangentialSpeed * dt, height, speed);
+    } else if (this.axel && time - this.axel.lastActiveTime > t.turnGap) {
+      this.finishAxel();
+    }
+  }
+
+  private finishAxel(): void {
+    const axel = this.axel!;
+    this.axel = null;
+    const t = this.thresholds;
+    const angle = Math.abs(axel.angle) / DEG;
+    const duration = axel.lastActiveTime - axel.startTime;
+    if (angle < t.axelAngle || duration > t.axelMaxDuration) return;
+
+    this.emit({
+      ...this.measure(axel),
+      type: "axel",
+      // Sens trigonométrique vu d'en haut : vers la gauche
+      direction: axel.sign > 0 ? "left" : "right",
+      angle,
+      radius: null,
+    });
+  }
+
+  /**
+   * Piqué : nez vers le sol et descente rapide en ligne droite (la moitié
+   * descendante d'un looping n'en est pas un)
+   */
+  private trackDive(
+    time: number,
+    straight: boolean,
+    heading: number,
+    state: KiteState,
+    height: number,
+    speed: number
+  ): void {
+    const t = this.thresholds;
+    const diving =
+      straight &&
+      Math.abs(heading) >= t.diveHeading * DEG &&
+      state.velocity.y <= -t.diveSinkRate;
+    if (diving) {
+      this.dive ??= this.startSegment(0, time, this.previousHeight);
+      this.extendSegment(this.dive, time, 0, 0, height, speed);
+    } else if (this.dive && time - this.dive.lastActiveTime > t.turnGap) {
+      this.finishDive();
+    }
+  }
+
+  private finishDive(): void {
+    const dive = this.dive!;
+    this.dive = null;
+    const trick = this.measure(dive);
+    if (trick.altitudeLost < this.thresholds.diveAltitude) return;
+    this.emit({ ...trick, type: "dive", direction: null, angle: null, radius: null });
+  }
+
+  /**
+   * Décrochage : kite en l'air presque immobile, nez écarté du zénith
+   */
+  private trackStall(
+    time: number,
+    facingPilot: boolean,
+    heading: number,
+    state: KiteState,
+    height: number,
+    speed: number
+  ): void {
+    const t = this.thresholds;
+    const stalled =
+      facingPilot &&
+      height > CONFIG.kite.minHeight + AIRBORNE_MARGIN &&
+      Math.abs(heading) >= STALL_HEADING * DEG &&
+      speed < t.stallSpeed &&
+      state.angularVelocity.length() < t.stallRate;
+    if (stalled) {
+      this.stall ??= this.startSegment(0, time, height);
+      this.extendSegment(this.stall, time, 0, 0, height, speed);
+    } else if (this.stall) {
+      this.finishStall();
+    }
+  }
+
+  private finishStall(): void {
+    const stall = this.stall!;
+    this.stall = null;
+    const trick = this.measure(stall);
+    if (trick.duration < this.thresholds.stallDuration) return;
+    this.emit({ ...trick, type: "stall", direction: null, angle: null, radius: null });
+  }
+
+  private startSegment(sign: number, time: number, height: number): Segment {
+    return {
+      sign,
+      startTime: time,
+      lastActiveTime: time,
+      angle: 0,
+      arc: 0,
+      startHeight: height,
+      minHeight: height,
+      peakSpeed: 0,
+    };
+  }
+
+  private extendSegment(
+    segment: Segment,
+    time: number,
+    angle: number,
+    arc: number,
+    height: number,
+    speed: number
+  ): void {
+    segment.lastActiveTime = time;
+    segment.angle += angle;
+    segment.arc += arc;
+    segment.minHeight = Math.min(segment.minHeight, height);
+    segment.peakSpeed = Math.max(segment.peakSpeed, speed);
+  }
+
+  private measure(
+    segment: Segment
+  ): Pick<
+    RecognizedTrick,
+    "startTime" | "endTime" | "duration" | "altitudeLost" | "peakSpeed"
+  > {
+    return {
+      startTime: segment.startTime,
+      endTime: segment.lastActiveTime,
+      duration: segment.lastActiveTime - segment.startTime,
+      altitudeLost: Math.max(0, segment.startHeight - segment.minHeight),
+      peakSpeed: segment.peakSpeed,
+    };
+  }
+
+  private emit(trick: RecognizedTrick): void {
+    this.tricks.push(trick);
+    if (this.tricks.length > HISTORY_SIZE) this.tricks.shift();
+    this.listeners.forEach((listener) => listener(trick));
+  }
+}
@@ -0,0 +1,46 @@
+/**
+ * AutopilotTypes.ts - Trajectoires et réglages du pilote automatique
+ *
+ * Rôle :
+ *   - Trajectoires suivies : huit, cercle, maintien à une position
+ *   - Gains du régulateur de cap
+ *
+ * Voir aussi :
+ *   - src/simulation/controllers/Autopilot.ts
+ */
+
+/**
+ * Trajectoire du pilote automatique (angles en degrés, repère de WindWindowPosition)
+ */
+export type AutopilotPath =
+  | {
+      type: "figureEight";
+      /** Élévation du croisement central */
+      centerElevation: number;
+      /** Largeur totale en azimut */
+      width: number;
+      /** Hauteur totale en élévation */
+      height: number;
+    }
+  | {
+      type: "circle";
+      centerAzimuth: number;
+      centerElevation: number;
+      radius: number;
+    }
+  | {
+      type: "hold";
+      azimuth: number;
+      elevation: number;
+    };
+
+export interface AutopilotGains {
+  /** Rotation de barre par radian d'écart de cap */
+  heading: number;
+  /** Rotation de barre par rad/s de vitesse de lacet (amortissement) */
+  yawDamping: number;
+  /** Distance d'anticipation sur la trajectoire (degrés) */
+  lookahead: number;
+  /** Durée d'un tour de trajectoire : le point suivi avance à ce rythme (s) */
+  lapTime: number;
+}
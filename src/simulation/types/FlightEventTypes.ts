@@ -0,0 +1,105 @@
+/**
+ * FlightEventTypes.ts - Événements de vol et politique après un contact au sol
+ *
+ * Rôle :
+ *   - Événements typés : crash, atterrissage, décrochage, ligne molle, surpuissance
+ *   - Partie du kite qui touche le sol
+ *   - Réglages de la détection et de la politique de reset
+ *
+ * Voir aussi :
+ *   - src/simulation/events/FlightEventDetector.ts
+ *   - src/simulation/events/FlightOutcomePolicy.ts
+ */
+import * as THREE from "three";
+
+/**
+ * Partie du kite la plus basse au contact du sol
+ */
+export type KitePart = "nose" | "leftWing" | "rightWing" | "tail" | "bridle";
+
+export type FlightEventType =
+  | "crash"
+  | "landed"
+  | "stalled"
+  | "lineSlack"
+  | "overpowered";
+
+interface FlightEventBase {
+  /** Temps simulé depuis le dernier reset (s) */
+  time: number;
+  /** Position du kite */
+  position: THREE.Vector3;
+}
+
+/**
+ * Contact avec le sol : crash ou atterrissage selon la vitesse et l'attitude
+ */
+export interface GroundContactEvent extends FlightEventBase {
+  type: "crash" | "landed";
+  /** Vitesse juste avant le contact (m/s) */
+  impactSpeed: number;
+  part: KitePart;
+  /** Angle du nez au-dessus de l'horizontale (degrés, -90 = nez vers le sol) */
+  noseAngle: number;
+}
+
+export interface StallEvent extends FlightEventBase {
+  type: "stalled";
+  /** Angle d'attaque au déclenchement (degrés) */
+  angleOfAttack: number;
+}
+
+export interface LineSlackEvent extends FlightEventBase {
+  type: "lineSlack";
+  side: "left" | "right" | "both";
+}
+
+export interface OverpoweredEvent extends FlightEventBase {
+  type: "overpowered";
+  /** Traction aérodynamique le long des lignes (N) */
+  traction: number;
+}
+
+export type FlightEvent =
+  | GroundContactEvent
+  | StallEvent
+  | LineSlackEvent
+  | OverpoweredEvent;
+
+export type FlightEventListener = (event: FlightEvent) => void;
+
+/**
+ * Seuils de détection
+ */
+export interface FlightEventThresholds {
+  /** Vitesse d'impact au-delà de laquelle tout contact est un crash (m/s) */
+  crashSpeed: number;
+  /** Nez en premier, au moins cet angle sous l'horizontale (degrés)… */
+  noseDiveAngle: number;
+  /** …et au moins cette vitesse : crash (m/s) */
+  noseDiveSpeed: number;
+  /** Angle d'attaque de décrochage (degrés) */
+  stallAngle: number;
+  /** Durée minimale au-delà de l'angle de décrochage (s) */
+  stallDuration: number;
+  /** Durée minimale d'une ligne molle, une fois les lignes tendues (s) */
+  slackDuration: number;
+  /** Traction de surpuissance (N) */
+  overpoweredTraction: number;
+  /** Durée minimale au-delà de la traction de surpuissance (s) */
+  overpoweredDuration: number;
+}
+
+/**
+ * Que faire quand le kite touche le sol
+ *   - crash : reset automatique après un crash, le kite reste posé après un atterrissage
+ *   - any : reset automatique après tout contact
+ *   - never : le kite reste au sol
+ */
+export type ResetPolicy = "crash" | "any" | "never";
+
+export interface FlightOutcomeSettings {
+  resetOn: ResetPolicy;
+  /** Délai avant le reset, en temps simulé (s) */
+  resetDelay: number;
+}
@@ -0,0 +1,65 @@
+/**
+ * InputTypes.ts - Types des entrées de pilotage
+ *
+ * Rôle :
+ *   - Interface commune des sources d'entrée (clavier, manette, tactile, vol enregistré…)
+ *   - Réglages de la manette (axe utilisé, zone morte, courbe de réponse)
+ *   - Affectation des touches du clavier
+ *
+ * Voir aussi :
+ *   - src/simulation/controllers/InputHandler.ts
+ *   - src/simulation/controllers/GamepadInput.ts
+ *   - src/simulation/controllers/KeyBindings.ts
+ */
+
+/**
+ * Source de commandes du pilote
+ *
+ * Couvre aujourd'hui la rotation de barre. Les commandes à venir (pousser/tirer
+ * la barre, freins) s'ajouteront ici ; une source qui ne les fournit pas
+ * laissera la valeur neutre.
+ */
+export interface InputSource {
+  /** Nom affiché (ex: "Clavier") */
+  readonly name: string;
+  /** Avance la source d'une frame (rampes, lecture de la manette…) */
+  update(deltaTime: number): void;
+  /**
+   * La source demande la main : touche enfoncée, geste en cours, manette branchée,
+   * pilote automatique engagé…
+   */
+  isActive(): boolean;
+  /** Rotation de barre demandée (rad, positif = virage à gauche) */
+  getTargetBarRotation(): number;
+  /**
+   * Appelé quand la source prend la main : elle repart de la rotation
+   * demandée jusque-là, sans à-coup
+   */
+  resumeFrom?(barRotation: number): void;
+}
+
+/** Actions du clavier réaffectables */
+export type KeyAction = "turnLeft" | "turnRight";
+
+/** Touches (KeyboardEvent.key, lettres en minuscules) de chaque action */
+export type KeyBindingMap = Record<KeyAction, string[]>;
+
+/**
+ * Commande de la barre à la manette
+ *   - "stick" : axe horizontal d'un stick analogique
+ *   - "triggers" : gâchette gauche = tourner à gauche, gâchette droite = à droite
+ */
+export type GamepadMapping = "stick" | "triggers";
+
+export interface GamepadSettings {
+  mapping: GamepadMapping;
+  /** Index de l'axe lu en mode "stick" (0 = stick gauche horizontal, 2 = stick droit) */
+  stickAxis: number;
+  /** Fraction de la course ignorée autour du centre (0-1) */
+  deadzone: number;
+  /**
+   * Exposant de la courbe de réponse : 1 = linéaire, > 1 = plus doux au centre
+   * et plus précis pour les petites corrections
+   */
+  curve: number;
+}
@@ -0,0 +1,79 @@
+/**
+ * LearningTypes.ts - Types de l'environnement d'apprentissage par renforcement
+ *
+ * Rôle :
+ *   - Espaces d'observation et d'action (boîtes bornées, à la Gym)
+ *   - Résultat d'un pas : observation, récompense, fin d'épisode, informations
+ *   - Contrat des fonctions de récompense interchangeables
+ *
+ * Relation avec les fichiers adjacents :
+ *   - PhysicsTypes.ts : KiteState et PhysicsFrame lus par les récompenses
+ *
+ * Voir aussi :
+ *   - src/simulation/learning/KiteEnv.ts
+ *   - src/simulation/learning/Rewards.ts
+ */
+import * as THREE from "three";
+import { KiteState, PhysicsFrame } from "./PhysicsTypes";
+
+/**
+ * Espace continu borné (équivalent de gym.spaces.Box à une dimension)
+ */
+export interface BoxSpace {
+  type: "box";
+  shape: [number];
+  /** Bornes par composante (±Infinity si non bornée) */
+  low: number[];
+  high: number[];
+  /** Nom de chaque composante, dans l'ordre du vecteur */
+  labels: string[];
+}
+
+/**
+ * Cause de fin d'épisode
+ *   - ground : le kite est tombé au sol
+ *   - timeLimit : nombre maximal de pas atteint (épisode tronqué)
+ */
+export type EpisodeEndReason = "ground" | "timeLimit";
+
+/**
+ * Informations de diagnostic renvoyées avec chaque pas
+ */
+export interface EnvStepInfo {
+  /** Temps simulé depuis le reset (s) */
+  time: number;
+  /** Nombre d'actions depuis le reset */
+  episodeStep: number;
+  /** Rotation de barre appliquée (rad) */
+  barRotation: number;
+  /** Épisode coupé par la limite de temps plutôt que terminé */
+  truncated: boolean;
+  endReason: EpisodeEndReason | null;
+}
+
+export interface EnvStepResult {
+  observation: number[];
+  reward: number;
+  done: boolean;
+  info: EnvStepInfo;
+}
+
+/**
+ * Données disponibles pour calculer la récompense d'une action
+ */
+export interface RewardContext {
+  /** État du kite après l'action */
+  state: KiteState;
+  /** Dernier pas physique de l'action */
+  frame: PhysicsFrame;
+  /** Position du pilote (poignées de barre) */
+  pilotPosition: THREE.Vector3;
+  /** Action normalisée appliquée, dans [-1, 1] */
+  action: number;
+  /** Action précédente (0 au premier pas) */
+  previousAction: number;
+  /** Le kite est tombé au sol pendant l'action */
+  grounded: boolean;
+}
+
+export type RewardFunction = (context: RewardContext) => number;
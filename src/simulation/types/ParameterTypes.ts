@@ -0,0 +1,48 @@
+/**
+ * ParameterTypes.ts - Métadonnées des paramètres réglables
+ *
+ * Rôle :
+ *   - Décrit un paramètre de CONFIG (ou une longueur de bride) : libellé, unité,
+ *     plage, pas, description et moment où un changement prend effet
+ *
+ * Voir aussi :
+ *   - src/simulation/config/ConfigParameters.ts
+ *   - src/simulation/ui/TuningPanel.ts
+ */
+
+/**
+ * Moment où un changement prend effet
+ *   - "live" : au pas physique suivant
+ *   - "reset" : au prochain reset (ex: lignes recréées par le moteur)
+ *   - "startup" : lu une seule fois au chargement, affiché en lecture seule
+ */
+export type ParameterApplyMode = "live" | "reset" | "startup";
+
+interface ParameterBase {
+  /** Chemin dans CONFIG (ex: "physics.gravity") ou "bridles.<nom>" */
+  path: string;
+  label: string;
+  description: string;
+  apply: ParameterApplyMode;
+}
+
+export interface NumberParameter extends ParameterBase {
+  kind: "number";
+  unit: string;
+  min: number;
+  max: number;
+  step: number;
+}
+
+export interface EnumParameter extends ParameterBase {
+  kind: "enum";
+  options: ReadonlyArray<{ value: string; label: string }>;
+}
+
+export interface BooleanParameter extends ParameterBase {
+  kind: "boolean";
+}
+
+export type ParameterMetadata = NumberParameter | EnumParameter | BooleanParameter;
+
+export type ParameterValue = number | string | boolean;
@@ -3,6 +3,7 @@
  *
  * Rôle :
  *   - Définit les structures de données pour l'état du cerf-volant, les forces, les poignées, etc.
+ *   - Définit PhysicsFrame, l'instantané publié à chaque pas physique
  *   - Sert à typer les échanges entre les modules physiques et de rendu
  *
  * Dépendances principales :
@@ -20,6 +21,8 @@
  *   - src/simulation/types/WindTypes.ts
  */
 import * as THREE from "three";
+import { BridleTensions } from "./BridleTypes";
+import { WindParams } from "./WindTypes";
 
 /**
  * Types et interfaces pour la physique de la simulation
@@ -57,4 +60,108 @@ export interface SurfaceForce {
   normal: THREE.Vector3;
   /** Surface en m² */
   area: number;
-}
\ No newline at end of file
+  /** Vent apparent local au centre de la surface (m/s, repère monde) */
+  apparentWind?: THREE.Vector3;
+}
+
+/**
+ * Cinématique du kite et champ de vent, pour calculer le vent apparent
+ * propre à chaque surface : vent(point) - (v + ω × r)
+ */
+export interface SurfaceFlowContext {
+  /** Position monde de l'origine du kite (point de référence de v) */
+  position: THREE.Vector3;
+  /** Vitesse linéaire de l'origine du kite (m/s, repère monde) */
+  velocity: THREE.Vector3;
+  /** Vitesse angulaire (rad/s, repère monde) */
+  angularVelocity: THREE.Vector3;
+  /** Vent réel en un point du monde */
+  windAt: (worldPoint: THREE.Vector3) => THREE.Vector3;
+}
+/**
+ * Schémas d'intégration disponibles pour le corps rigide du kite
+ */
+export type IntegratorType = "semi-implicit-euler" | "velocity-verlet" | "rk4";
+
+/**
+ * Dérivées de l'état du corps rigide (accélérations) pour un état donné
+ */
+export interface StateDerivative {
+  /** Accélération linéaire (m/s², repère monde) */
+  linearAcceleration: THREE.Vector3;
+  /** Accélération angulaire (rad/s², repère monde) */
+  angularAcceleration: THREE.Vector3;
+}
+
+/**
+ * Fonction qui évalue les accélérations pour un état (éventuellement intermédiaire)
+ */
+export type DerivativeFunction = (state: KiteState) => StateDerivative;
+
+/**
+ * Efforts extérieurs subis par le kite (aérodynamique + gravité)
+ */
+export interface KiteLoads {
+  /** Force totale (N, repère monde) */
+  force: THREE.Vector3;
+  /** Couple total (N·m, repère monde) */
+  torque: THREE.Vector3;
+}
+
+/**
+ * Fonction qui recalcule les efforts extérieurs pour un état (éventuellement
+ * intermédiaire) : position, vitesse, orientation et ω de l'étape
+ */
+export type LoadFunction = (state: KiteState) => KiteLoads;
+
+/**
+ * État d'une ligne de contrôle pour un pas
+ */
+export interface LineSample {
+  /** Tension calculée (N, affichage uniquement) */
+  tension: number;
+  /** Distance point de contrôle du kite → poignée (m) */
+  length: number;
+  /** Ligne considérée tendue (distance ≥ longueur - zone morte) */
+  taut: boolean;
+}
+
+/**
+ * Instantané publié par PhysicsEngine.update à chaque pas physique
+ *
+ * Les forces sont celles réellement appliquées pendant le pas (évaluées
+ * sur l'état de début de pas) ; kiteState est l'état obtenu en fin de pas.
+ * Rendu et UI lisent cet instantané au lieu de recalculer la physique.
+ */
+export interface PhysicsFrame {
+  /** Temps simulé à la fin du pas (s) */
+  time: number;
+  /** Durée du pas (s) */
+  deltaTime: number;
+  /** Rotation de barre appliquée (rad) */
+  barRotation: number;
+  /** État du kite en fin de pas */
+  kiteState: KiteState;
+  /** Paramètres de vent en vigueur */
+  windParams: WindParams;
+  /** Vent réel à l'origine du kite, dans l'état de début de pas (m/s) */
+  wind: THREE.Vector3;
+  /** Vent apparent à l'origine du kite (m/s) */
+  apparentWind: THREE.Vector3;
+  /** Portance globale (N) */
+  lift: THREE.Vector3;
+  /** Traînée globale (N) */
+  drag: THREE.Vector3;
+  /** Somme des forces appliquées : aéro + gravité (N) */
+  totalForce: THREE.Vector3;
+  /** Couple appliqué (N·m) */
+  torque: THREE.Vector3;
+  /** Forces par surface, avec leur vent apparent local */
+  surfaceForces: SurfaceForce[];
+  /** Longueur de ligne au repos (m) */
+  lineLength: number;
+  /** Lignes de contrôle gauche et droite, dans l'état de fin de pas (kiteState) */
+  lines: { left: LineSample; right: LineSample };
+  /** Tensions des 6 brides, dans l'état de fin de pas (N) */
+  bridleTensions: BridleTensions;
+}
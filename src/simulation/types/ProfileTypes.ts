@@ -0,0 +1,45 @@
+/**
+ * ProfileTypes.ts - Types des profils de configuration
+ *
+ * Rôle :
+ *   - Définit un profil : réglages de CONFIG et des brides, plus le contexte de vol
+ *     (longueur de ligne, vent, scénario, graine) nécessaire pour reproduire un réglage
+ *   - Définit une différence entre deux profils
+ *
+ * Relation avec les fichiers adjacents :
+ *   - RecordingTypes.ts : ConfigSnapshotData, partagé avec les enregistrements de vol
+ *   - WindTypes.ts : Paramètres et scénario de vent
+ *
+ * Voir aussi :
+ *   - src/simulation/config/ConfigProfiles.ts
+ */
+import { ConfigSnapshotData } from "./RecordingTypes";
+import { WindParams, WindScenario } from "./WindTypes";
+
+/**
+ * Profil de configuration partageable (fichier, localStorage, URL)
+ */
+export interface ConfigProfile {
+  version: 1;
+  name: string;
+  /** Date de création (ISO 8601) */
+  createdAt: string;
+  config: ConfigSnapshotData;
+  lineLength: number;
+  windParams: WindParams;
+  windScenario: WindScenario | null;
+  /** Graine des turbulences */
+  seed: number;
+}
+
+/**
+ * Valeur différente entre deux profils
+ */
+export interface ConfigDiffEntry {
+  /** Chemin de la valeur (ex: "config.physics.linearDampingRate") */
+  path: string;
+  /** Valeur dans le premier profil (undefined si absente) */
+  before: unknown;
+  /** Valeur dans le second profil (undefined si absente) */
+  after: unknown;
+}
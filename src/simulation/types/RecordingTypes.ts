@@ -0,0 +1,84 @@
+/**
+ * RecordingTypes.ts - Format des enregistrements de vol
+ *
+ * Rôle :
+ *   - Définit le format JSON d'un vol enregistré (en-tête + un enregistrement par pas)
+ *   - Les nombres sont stockés tels quels : JSON restitue exactement les doubles,
+ *     ce qui permet un replay bit à bit
+ *
+ * Relation avec les fichiers adjacents :
+ *   - WindTypes.ts, BridleTypes.ts : Paramètres de vent et longueurs de brides enregistrés
+ *   - TrickTypes.ts : Figures reconnues pendant le vol
+ *
+ * Voir aussi :
+ *   - src/simulation/recording/FlightRecorder.ts
+ *   - src/simulation/recording/FlightReplay.ts
+ *   - src/simulation/config/ConfigSnapshot.ts
+ */
+import { BridleLengths } from "./BridleTypes";
+import { RecognizedTrick } from "./TrickTypes";
+import { WindParams, WindScenario } from "./WindTypes";
+
+export type SerializedVector3 = [number, number, number];
+export type SerializedQuaternion = [number, number, number, number];
+
+/**
+ * KiteState sous forme de tableaux (x, y, z[, w])
+ */
+export interface SerializedKiteState {
+  position: SerializedVector3;
+  velocity: SerializedVector3;
+  angularVelocity: SerializedVector3;
+  orientation: SerializedQuaternion;
+}
+
+/**
+ * Valeurs scalaires réglables de CONFIG et longueurs de brides
+ */
+export interface ConfigSnapshotData {
+  physics: Record<string, number | string>;
+  aero: Record<string, number | string>;
+  wind: Record<string, number | string>;
+  lines: Record<string, number | string>;
+  /** Masse, inertie, hauteur min (absent des copies antérieures) */
+  kite?: Record<string, number | string>;
+  /** Largeur de barre (absent des copies antérieures) */
+  controlBar?: Record<string, number | string>;
+  bridles: BridleLengths;
+}
+
+/**
+ * Un pas enregistré : entrées appliquées et état obtenu
+ */
+export interface RecordedStep {
+  deltaTime: number;
+  barRotation: number;
+  windParams: WindParams;
+  lineLength: number;
+  /** Présent uniquement quand le scénario de vent change à ce pas */
+  windScenario?: WindScenario | null;
+  /** Présent uniquement quand la configuration change à ce pas */
+  config?: ConfigSnapshotData;
+  /** État du kite en fin de pas */
+  state: SerializedKiteState;
+}
+
+/**
+ * Vol enregistré complet
+ */
+export interface FlightRecording {
+  version: 1;
+  /** Date d'enregistrement (ISO 8601) */
+  createdAt: string;
+  /** Graine des turbulences (le vol démarre d'un reset avec cette graine) */
+  seed: number;
+  initial: {
+    lineLength: number;
+    windParams: WindParams;
+    windScenario: WindScenario | null;
+    config: ConfigSnapshotData;
+  };
+  steps: RecordedStep[];
+  /** Figures reconnues pendant le vol (absentes des vols enregistrés avant leur ajout) */
+  tricks?: RecognizedTrick[];
+}
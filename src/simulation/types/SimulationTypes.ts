@@ -0,0 +1,48 @@
+/**
+ * SimulationTypes.ts - Types des pas de simulation
+ *
+ * Rôle :
+ *   - Définit les entrées appliquées à un pas et l'événement émis après chaque pas
+ *   - Sert de contrat entre HeadlessSimulation et ses observateurs (enregistreur, télémétrie…)
+ *
+ * Relation avec les fichiers adjacents :
+ *   - PhysicsTypes.ts : KiteState et PhysicsFrame contenus dans l'événement
+ *   - WindTypes.ts : Paramètres et scénario de vent en entrée
+ *
+ * Voir aussi :
+ *   - src/simulation/HeadlessSimulation.ts
+ */
+import { KiteState, PhysicsFrame } from "./PhysicsTypes";
+import { WindParams, WindScenario } from "./WindTypes";
+
+/**
+ * Entrées en vigueur au début d'un pas
+ */
+export interface StepInputs {
+  /** Rotation de barre demandée (rad) */
+  barRotation: number;
+  /** Paramètres de vent avant le pas */
+  windParams: WindParams;
+  /** Longueur de ligne (m) */
+  lineLength: number;
+  /** Scénario de vent actif (null = curseurs) */
+  windScenario: WindScenario | null;
+}
+
+/**
+ * Événement émis après chaque pas de HeadlessSimulation
+ */
+export interface SimulationStepEvent {
+  /** Indice du pas depuis le dernier reset (0 = premier pas) */
+  stepIndex: number;
+  /** Temps simulé à la fin du pas (s) */
+  time: number;
+  deltaTime: number;
+  inputs: StepInputs;
+  /** État du kite en fin de pas */
+  state: KiteState;
+  /** Instantané publié par PhysicsEngine pour ce pas */
+  frame: PhysicsFrame;
+}
+
+export type StepListener = (event: SimulationStepEvent) => void;
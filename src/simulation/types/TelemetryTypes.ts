@@ -0,0 +1,27 @@
+/**
+ * TelemetryTypes.ts - Types de la télémétrie
+ *
+ * Rôle :
+ *   - Définit un canal de télémétrie (identifiant, unité, lecture depuis un pas)
+ *
+ * Relation avec les fichiers adjacents :
+ *   - SimulationTypes.ts : Les canaux lisent un SimulationStepEvent
+ *
+ * Voir aussi :
+ *   - src/simulation/telemetry/TelemetryChannels.ts
+ *   - src/simulation/telemetry/TelemetrySession.ts
+ */
+import { SimulationStepEvent } from "./SimulationTypes";
+
+/**
+ * Grandeur échantillonnée à chaque pas
+ */
+export interface TelemetryChannel {
+  /** Identifiant (colonne CSV, clé JSONL) */
+  id: string;
+  /** Libellé lisible */
+  label: string;
+  /** Unité SI */
+  unit: string;
+  read: (event: SimulationStepEvent) => number;
+}
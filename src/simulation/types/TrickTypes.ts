@@ -0,0 +1,77 @@
+/**
+ * TrickTypes.ts - Figures de voltige reconnues
+ *
+ * Rôle :
+ *   - Figures reconnues (looping, virage carré, piqué, décrochage, axel)
+ *     et leurs mesures de qualité
+ *   - Seuils de reconnaissance
+ *
+ * Voir aussi :
+ *   - src/simulation/tricks/TrickRecognizer.ts
+ */
+
+export type TrickType = "loop" | "squareTurn" | "dive" | "stall" | "axel";
+
+/**
+ * Sens de rotation vu du pilote (null : sans objet, piqué ou décrochage)
+ */
+export type TrickDirection = "left" | "right" | null;
+
+/**
+ * Figure reconnue
+ */
+export interface RecognizedTrick {
+  type: TrickType;
+  direction: TrickDirection;
+  /** Temps simulé du début et de la fin de la figure (s) */
+  startTime: number;
+  endTime: number;
+  duration: number;
+  /** Angle parcouru : cap pour un virage ou un looping, rotation à plat pour un axel (degrés) */
+  angle: number | null;
+  /** Rayon moyen de la trajectoire (m, null : sans objet) */
+  radius: number | null;
+  /** Hauteur perdue entre le début et le point le plus bas (m) */
+  altitudeLost: number;
+  /** Vitesse maximale pendant la figure (m/s) */
+  peakSpeed: number;
+}
+
+export type TrickListener = (trick: RecognizedTrick) => void;
+
+/**
+ * Seuils de reconnaissance
+ */
+export interface TrickThresholds {
+  /** Vitesse de cap au-delà de laquelle le kite est en virage (rad/s) */
+  turnRate: number;
+  /** Pause tolérée dans un virage avant de le clore (s) */
+  turnGap: number;
+  /** Cap parcouru pour un looping (degrés) */
+  loopAngle: number;
+  /** Rayon minimal d'un looping (m) */
+  loopMinRadius: number;
+  /** Plage de cap d'un virage carré (degrés)… */
+  squareTurnMinAngle: number;
+  squareTurnMaxAngle: number;
+  /** …parcourue en au plus cette durée (s) */
+  squareTurnMaxDuration: number;
+  /** Nez à au moins cet angle du zénith pour un piqué (degrés) */
+  diveHeading: number;
+  /** Vitesse de descente minimale d'un piqué (m/s) */
+  diveSinkRate: number;
+  /** Hauteur perdue minimale d'un piqué (m) */
+  diveAltitude: number;
+  /** Vitesse sous laquelle le kite est arrêté (m/s) */
+  stallSpeed: number;
+  /** Vitesse angulaire sous laquelle le kite est arrêté (rad/s) */
+  stallRate: number;
+  /** Durée minimale d'un décrochage (s) */
+  stallDuration: number;
+  /** Vitesse de rotation à plat d'un axel (rad/s) */
+  axelRate: number;
+  /** Rotation à plat minimale d'un axel (degrés) */
+  axelAngle: number;
+  /** Durée maximale d'un axel (s) */
+  axelMaxDuration: number;
+}
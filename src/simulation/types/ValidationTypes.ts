@@ -0,0 +1,21 @@
+/**
+ * ValidationTypes.ts - Types de la validation de configuration
+ *
+ * Rôle :
+ *   - Définit un problème relevé dans une configuration (chemin, message, gravité)
+ *
+ * Voir aussi :
+ *   - src/simulation/config/ConfigValidator.ts
+ */
+
+/**
+ * Problème de configuration
+ */
+export interface ConfigIssue {
+  /** Chemin de la valeur (ex: "lines.stiffness", "bridles.nez") */
+  path: string;
+  /** Explication lisible */
+  message: string;
+  /** "error" empêche de démarrer la simulation, "warning" est seulement signalé */
+  severity: "error" | "warning";
+}
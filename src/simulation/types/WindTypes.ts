@@ -4,6 +4,9 @@
  *
  * Rôle :
  *   - Définit la structure des paramètres de vent (vitesse, direction, turbulence)
+ *   - Définit les profils de couche limite disponibles
+ *   - Définit le format JSON des scénarios de vent (keyframes et rampes)
+ *   - Définit la position dans la fenêtre de vent (azimut, élévation, zone)
  *   - Sert à typer les échanges entre le simulateur de vent et les autres modules
  *
  * Dépendances principales :
@@ -25,4 +28,54 @@ export interface WindParams {
   speed: number; // km/h
   direction: number; // degrés
   turbulence: number; // pourcentage
-}
\ No newline at end of file
+}
+
+/**
+ * Profil vertical du vent moyen (couche limite)
+ */
+export type WindProfileType = "uniform" | "log" | "power";
+
+/**
+ * Keyframe d'un scénario de vent
+ *
+ * À `time`, chaque canal renseigné part de sa valeur courante et rejoint sa
+ * cible en `ramp` secondes (0 = changement instantané). Les canaux absents
+ * gardent leur valeur.
+ */
+export interface WindKeyframe {
+  /** Instant de début (s, depuis le lancement du scénario) */
+  time: number;
+  /** Durée de la rampe vers les cibles (s, défaut 0) */
+  ramp?: number;
+  speed?: number; // km/h
+  direction?: number; // degrés (la rampe suit le plus court chemin angulaire)
+  turbulence?: number; // pourcentage
+}
+
+/**
+ * Scénario de vent scripté (format JSON)
+ */
+export interface WindScenario {
+  name: string;
+  description?: string;
+  /** Rejoue le scénario en boucle (défaut false : la dernière valeur est conservée) */
+  loop?: boolean;
+  /** Durée d'une boucle (s, défaut : fin de la dernière rampe) */
+  duration?: number;
+  keyframes: WindKeyframe[];
+}
+
+/**
+ * Position vue du pilote, en degrés, relative à la direction du vent
+ *   - azimut : 0 = sous le vent, positif vers la droite du pilote
+ *   - élévation : 0 = horizon, 90 = zénith
+ */
+export interface WindWindowPosition {
+  azimuth: number;
+  elevation: number;
+}
+
+/**
+ * Zones de la fenêtre de vent, du centre vers le bord
+ */
+export type WindWindowZone = "power" | "intermediate" | "edge";
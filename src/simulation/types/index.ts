@@ -9,6 +9,17 @@
  * Dépendances principales :
  *   - PhysicsTypes.ts : Types pour la physique
  *   - WindTypes.ts : Types pour le vent
+ *   - SimulationTypes.ts : Entrées et événements de pas de simulation
+ *   - RecordingTypes.ts : Format des vols enregistrés
+ *   - TelemetryTypes.ts : Canaux de télémétrie
+ *   - ProfileTypes.ts : Profils de configuration
+ *   - ValidationTypes.ts : Problèmes de configuration
+ *   - ParameterTypes.ts : Métadonnées des paramètres réglables
+ *   - InputTypes.ts : Sources d'entrée, manette et touches
+ *   - AutopilotTypes.ts : Trajectoires du pilote automatique
+ *   - LearningTypes.ts : Environnement d'apprentissage par renforcement
+ *   - FlightEventTypes.ts : Crashs et événements de vol
+ *   - TrickTypes.ts : Figures de voltige reconnues
  *
  * Relation avec les fichiers adjacents :
  *   - Sert de point d'entrée pour tous les imports de types dans le projet
@@ -23,4 +34,15 @@
  */
 
 export * from './PhysicsTypes';
-export * from './WindTypes';
\ No newline at end of file
+export * from './WindTypes';
+export * from './SimulationTypes';
+export * from './RecordingTypes';
+export * from './TelemetryTypes';
+export * from './ProfileTypes';
+export * from './ValidationTypes';
+export * from './ParameterTypes';
+export * from './InputTypes';
+export * from './AutopilotTypes';
+export * from './LearningTypes';
+export * from './FlightEventTypes';
+export * from './TrickTypes';
\ No newline at end of file
@@ -0,0 +1,128 @@
+/**
+ * AutopilotPanel.ts - Commande du pilote automatique dans l'interface
+ *
+ * Rôle :
+ *   - Choix de la trajectoire : huit, cercle, sommet de la fenêtre, position fixe
+ *   - Azimut et élévation du centre (cercle, huit) ou de la position tenue
+ *   - Engage / désengage le pilote automatique
+ *   - Affiche la position du kite dans la fenêtre et le point visé
+ *
+ * Relation avec les fichiers adjacents :
+ *   - Autopilot.ts : Reçoit la trajectoire et calcule la rotation de barre
+ *   - SimulationApp.ts : Crée le panneau et appelle update() à chaque frame
+ *
+ * Voir aussi :
+ *   - src/simulation/controllers/InputHandler.ts
+ */
+import { Autopilot } from "../controllers/Autopilot";
+import { AutopilotPath } from "../types";
+
+type PathChoice = "figureEight" | "circle" | "edge" | "hold";
+
+/**
+ * Panneau du pilote automatique
+ */
+export class AutopilotPanel {
+  private readonly autopilot: Autopilot;
+
+  constructor(autopilot: Autopilot) {
+    this.autopilot = autopilot;
+    this.setupControls();
+  }
+
+  private setupControls(): void {
+    const pathSelect = document.getElementById(
+      "autopilot-path"
+    ) as HTMLSelectElement;
+    if (pathSelect) pathSelect.onchange = () => this.applyPath();
+
+    ["autopilot-azimuth", "autopilot-elevation"].forEach((id) => {
+      const slider = document.getElementById(id) as HTMLInputElement;
+      if (slider) slider.oninput = () => this.applyPath();
+    });
+    this.applyPath();
+
+    this.onClick("autopilot-toggle", () => {
+      this.autopilot.setEngaged(!this.autopilot.isEngaged());
+      this.refreshToggle();
+    });
+    this.refreshToggle();
+  }
+
+  /**
+   * Construit la trajectoire à partir des contrôles
+   */
+  private applyPath(): void {
+    const pathSelect = document.getElementById(
+      "autopilot-path"
+    ) as HTMLSelectElement;
+    const choice = (pathSelect?.value ?? "figureEight") as PathChoice;
+    const azimuth = this.readSlider("autopilot-azimuth", "°");
+    const elevation = this.readSlider("autopilot-elevation", "°");
+
+    let path: AutopilotPath;
+    switch (choice) {
+      case "figureEight":
+        path = { ...Autopilot.FIGURE_EIGHT, centerElevation: elevation };
+        break;
+      case "circle":
+        path = {
+          ...Autopilot.CIRCLE,
+          centerAzimuth: azimuth,
+          centerElevation: elevation,
+        };
+        break;
+      case "edge":
+        path = Autopilot.EDGE_HOLD;
+        break;
+      case "hold":
+        path = { type: "hold", azimuth, elevation };
+        break;
+    }
+    this.autopilot.setPath(path);
+  }
+
+  private readSlider(id: string, unit: string): number {
+    const slider = document.getElementById(id) as HTMLInputElement;
+    const value = slider ? parseFloat(slider.value) : 0;
+    const label = document.getElementById(`${id}-value`);
+    if (label) label.textContent = `${value}${unit}`;
+    return value;
+  }
+
+  private refreshToggle(): void {
+    const button = document.getElementById("autopilot-toggle");
+    if (button) {
+      button.textContent = this.autopilot.isEngaged()
+        ? "⏹️ Désengager"
+        : "▶️ Engager";
+    }
+  }
+
+  private onClick(id: string, handler: () => void): void {
+    const element = document.getElementById(id);
+    element?.addEventListener("click", (e) => {
+      e.preventDefault();
+      handler();
+    });
+  }
+
+  /**
+   * Rafraîchit la position du kite et la cible (appelé à chaque frame)
+   */
+  update(): void {
+    const status = document.getElementById("autopilot-status");
+    if (!status) return;
+
+    const kite = this.autopilot.getKitePosition();
+    const position = `kite ${kite.azimuth.toFixed(0)}° / ${kite.elevation.toFixed(0)}°`;
+    if (!this.autopilot.isEngaged()) {
+      status.textContent = `Désengagé · ${position}`;
+      return;
+    }
+    const target = this.autopilot.getTarget();
+    status.textContent = `${position} · cible ${target.azimuth.toFixed(
+      0
+    )}° / ${target.elevation.toFixed(0)}°`;
+  }
+}
@@ -0,0 +1,276 @@
+/**
+ * ChartPanel.ts - Graphiques défilants en direct
+ *
+ * Rôle :
+ *   - Trace les dernières secondes de quelques canaux de télémétrie : altitude,
+ *     vitesse, tensions gauche/droite, angle d'attaque, rotation de barre
+ *   - Alimenté à chaque pas physique (comme le panneau de debug, via le PhysicsFrame),
+ *     pas à chaque frame : les oscillations rapides restent visibles
+ *   - Fenêtre de temps et graphiques affichés réglables
+ *
+ * Les séries sont alimentées même panneau masqué, pour afficher l'historique dès
+ * l'ouverture. Un retour en arrière du temps simulé (reset, seek de replay) les vide.
+ *
+ * Relation avec les fichiers adjacents :
+ *   - TelemetryChannels.ts : Lecture des canaux tracés
+ *   - RollingSeries.ts : Mémoire glissante d'une courbe
+ *   - SimulationApp.ts : Crée le panneau et appelle update() à chaque frame
+ *
+ * Voir aussi :
+ *   - src/simulation/ui/TelemetryPanel.ts (export des mêmes canaux)
+ */
+import { HeadlessSimulation } from "../HeadlessSimulation";
+import { RollingSeries } from "../telemetry/RollingSeries";
+import { TelemetryChannels } from "../telemetry/TelemetryChannels";
+import { SimulationStepEvent, TelemetryChannel } from "../types";
+
+/** Durée maximale conservée (s), borne du sélecteur de fenêtre */
+const MAX_WINDOW_SECONDS = 60;
+const CHART_HEIGHT = 70;
+
+interface ChartDefinition {
+  id: string;
+  title: string;
+  unit: string;
+  curves: { channel: string; color: string }[];
+}
+
+const CHARTS: ChartDefinition[] = [
+  {
+    id: "altitude",
+    title: "Altitude",
+    unit: "m",
+    curves: [{ channel: "pos_y", color: "#4fc3f7" }],
+  },
+  {
+    id: "speed",
+    title: "Vitesse",
+    unit: "m/s",
+    curves: [{ channel: "speed", color: "#00ff88" }],
+  },
+  {
+    id: "tension",
+    title: "Tension G / D",
+    unit: "N",
+    curves: [
+      { channel: "line_tension_left", color: "#ff6b6b" },
+      { channel: "line_tension_right", color: "#51cf66" },
+    ],
+  },
+  {
+    id: "aoa",
+    title: "Angle d'attaque",
+    unit: "°",
+    curves: [{ channel: "aoa", color: "#ff9f43" }],
+  },
+  {
+    id: "bar",
+    title: "Rotation de barre",
+    unit: "rad",
+    curves: [{ channel: "bar_rotation", color: "#cc5de8" }],
+  },
+];
+
+interface Curve {
+  channel: TelemetryChannel;
+  color: string;
+  series: RollingSeries;
+}
+
+interface Chart {
+  definition: ChartDefinition;
+  curves: Curve[];
+  canvas: HTMLCanvasElement;
+  visible: boolean;
+}
+
+/**
+ * Panneau de graphiques défilants
+ */
+export class ChartPanel {
+  private readonly charts: Chart[] = [];
+  private windowSeconds = 10;
+  private visible = false;
+  private lastTime = -Infinity;
+
+  constructor(simulation: HeadlessSimulation) {
+    this.createCharts();
+    this.setupControls();
+    simulation.addStepListener((event) => this.sample(event));
+  }
+
+  private createCharts(): void {
+    const list = document.getElementById("chart-list");
+    const canvases = document.getElementById("chart-canvases");
+
+    CHARTS.forEach((definition) => {
+      const canvas = document.createElement("canvas");
+      canvas.className = "strip-chart";
+      canvases?.appendChild(canvas);
+
+      const chart: Chart = {
+        definition,
+        canvas,
+        visible: true,
+        curves: definition.curves.map(({ channel, color }) => ({
+          channel: TelemetryChannels.get(channel),
+          color,
+          series: new RollingSeries(MAX_WINDOW_SECONDS),
+        })),
+      };
+      this.charts.push(chart);
+
+      if (list) {
+        const label = document.createElement("label");
+        const checkbox = document.createElement("input");
+        checkbox.type = "checkbox";
+        checkbox.checked = true;
+        checkbox.onchange = () => {
+          chart.visible = checkbox.checked;
+          canvas.style.display = chart.visible ? "block" : "none";
+        };
+        label.appendChild(checkbox);
+        label.appendChild(document.createTextNode(` ${definition.title}`));
+        list.appendChild(label);
+      }
+    });
+  }
+
+  private setupControls(): void {
+    const toggle = document.getElementById("charts-toggle");
+    toggle?.addEventListener("click", (e) => {
+      e.preventDefault();
+      this.setVisible(!this.visible);
+    });
+
+    const windowSelect = document.getElementById(
+      "chart-window"
+    ) as HTMLSelectElement;
+    if (windowSelect) {
+      this.windowSeconds = parseFloat(windowSelect.value);
+      windowSelect.onchange = () => {
+        this.windowSeconds = Math.min(
+          MAX_WINDOW_SECONDS,
+          parseFloat(windowSelect.value)
+        );
+      };
+    }
+  }
+
+  setVisible(visible: boolean): void {
+    this.visible = visible;
+    const panel = document.getElementById("chart-panel");
+    if (panel) panel.style.display = visible ? "block" : "none";
+
+    const toggle = document.getElementById("charts-toggle");
+    if (toggle) {
+      toggle.textContent = visible ? "📉 Masquer" : "📉 Afficher";
+      toggle.classList.toggle("active", visible);
+    }
+  }
+
+  /**
+   * Redessine les graphiques visibles (appelé à chaque frame par l'application)
+   */
+  update(): void {
+    if (!this.visible) return;
+    this.charts.forEach((chart) => {
+      if (chart.visible) this.draw(chart);
+    });
+  }
+
+  private sample(event: SimulationStepEvent): void {
+    if (event.time < this.lastTime) {
+      this.charts.forEach((chart) =>
+        chart.curves.forEach((curve) => curve.series.clear())
+      );
+    }
+    this.lastTime = event.time;
+
+    this.charts.forEach((chart) =>
+      chart.curves.forEach((curve) =>
+        curve.series.push(event.time, curve.channel.read(event))
+      )
+    );
+  }
+
+  private draw(chart: Chart): void {
+    const { canvas, curves, definition } = chart;
+    const ctx = canvas.getContext("2d");
+    if (!ctx) return;
+
+    // Taille du canvas calée sur son affichage (net sur écrans haute densité)
+    const ratio = window.devicePixelRatio || 1;
+    const width = canvas.clientWidth;
+    const height = CHART_HEIGHT;
+    if (canvas.width !== width * ratio || canvas.height !== height * ratio) {
+      canvas.width = width * ratio;
+      canvas.height = height * ratio;
+    }
+    ctx.setTransform(ratio, 0, 0, ratio, 0, 0);
+    ctx.clearRect(0, 0, width, height);
+
+    const now = this.lastTime;
+    const from = now - this.windowSeconds;
+
+    let min = Infinity;
+    let max = -Infinity;
+    curves.forEach(({ series }) => {
+      const range = series.getRange(from);
+      if (range) {
+        min = Math.min(min, range.min);
+        max = Math.max(max, range.max);
+      }
+    });
+
+    ctx.font = "10px 'Courier New', monospace";
+    ctx.fillStyle = "rgba(255, 255, 255, 0.8)";
+    ctx.fillText(`${definition.title} (${definition.unit})`, 4, 11);
+    if (min > max) return;
+
+    // Marge verticale, et plage minimale pour un signal constant
+    const span = Math.max(max - min, 1e-3);
+    const top = max + span * 0.1;
+    const bottom = min - span * 0.1;
+    const toX = (time: number) => ((time - from) / this.windowSeconds) * width;
+    const toY = (value: number) =>
+      height - ((value - bottom) / (top - bottom)) * height;
+
+    if (bottom < 0 && top > 0) {
+      ctx.strokeStyle = "rgba(255, 255, 255, 0.2)";
+      ctx.beginPath();
+      ctx.moveTo(0, toY(0));
+      ctx.lineTo(width, toY(0));
+      ctx.stroke();
+    }
+
+    curves.forEach(({ series, color }) => {
+      ctx.strokeStyle = color;
+      ctx.lineWidth = 1.5;
+      ctx.beginPath();
+      let first = true;
+      series.forEach((time, value) => {
+        if (first) {
+          ctx.moveTo(toX(time), toY(value));
+          first = false;
+        } else {
+          ctx.lineTo(toX(time), toY(value));
+        }
+      }, from);
+      ctx.stroke();
+    });
+
+    // Bornes et valeurs courantes
+    ctx.fillStyle = "rgba(255, 255, 255, 0.6)";
+    ctx.textAlign = "right";
+    ctx.fillText(max.toFixed(2), width - 4, 11);
+    ctx.fillText(min.toFixed(2), width - 4, height - 3);
+    ctx.textAlign = "left";
+    curves.forEach(({ series, color }, index) => {
+      const value = series.getLastValue();
+      if (value === null) return;
+      ctx.fillStyle = color;
+      ctx.fillText(value.toFixed(2), 4 + index * 60, height - 3);
+    });
+  }
+}
@@ -0,0 +1,133 @@
+/**
+ * FlightEventsPanel.ts - Crashs et événements de vol dans l'interface
+ *
+ * Rôle :
+ *   - Fil des derniers événements (crash, atterrissage, décrochage, ligne molle,
+ *     surpuissance) avec leurs mesures
+ *   - Choix de la politique après un contact au sol et du délai avant reset
+ *   - Affiche le compte à rebours d'un reset programmé
+ *
+ * Relation avec les fichiers adjacents :
+ *   - FlightEventDetector.ts : Source des événements
+ *   - FlightOutcomePolicy.ts : Reset automatique ou kite laissé au sol
+ *   - SimulationApp.ts : Crée le panneau et appelle update() à chaque frame
+ *
+ * Voir aussi :
+ *   - src/simulation/types/FlightEventTypes.ts
+ */
+import { HeadlessSimulation } from "../HeadlessSimulation";
+import { FlightEventDetector } from "../events/FlightEventDetector";
+import { FlightOutcomePolicy } from "../events/FlightOutcomePolicy";
+import { FlightEvent, KitePart, ResetPolicy } from "../types";
+
+/** Nombre d'événements affichés */
+const FEED_SIZE = 5;
+
+const PART_LABELS: Record<KitePart, string> = {
+  nose: "nez",
+  leftWing: "aile gauche",
+  rightWing: "aile droite",
+  tail: "queue",
+  bridle: "bridage",
+};
+
+/**
+ * Panneau des événements de vol
+ */
+export class FlightEventsPanel {
+  private readonly simulation: HeadlessSimulation;
+  private readonly detector: FlightEventDetector;
+  private readonly policy: FlightOutcomePolicy;
+  private feed: FlightEvent[] = [];
+  private feedChanged = true;
+
+  constructor(
+    simulation: HeadlessSimulation,
+    detector: FlightEventDetector,
+    policy: FlightOutcomePolicy
+  ) {
+    this.simulation = simulation;
+    this.detector = detector;
+    this.policy = policy;
+    this.detector.addListener((event) => {
+      this.feed = [event, ...this.feed].slice(0, FEED_SIZE);
+      this.feedChanged = true;
+    });
+    this.setupControls();
+  }
+
+  private setupControls(): void {
+    const settings = this.policy.getSettings();
+
+    const policySelect = document.getElementById(
+      "flight-reset-policy"
+    ) as HTMLSelectElement;
+    if (policySelect) {
+      policySelect.value = settings.resetOn;
+      policySelect.onchange = () =>
+        this.policy.setSettings({
+          resetOn: policySelect.value as ResetPolicy,
+        });
+    }
+
+    const delaySlider = document.getElementById(
+      "flight-reset-delay"
+    ) as HTMLInputElement;
+    const delayLabel = document.getElementById("flight-reset-delay-value");
+    if (delaySlider) {
+      delaySlider.value = settings.resetDelay.toString();
+      if (delayLabel) delayLabel.textContent = `${settings.resetDelay} s`;
+      delaySlider.oninput = () => {
+        const delay = parseFloat(delaySlider.value);
+        this.policy.setSettings({ resetDelay: delay });
+        if (delayLabel) delayLabel.textContent = `${delay} s`;
+      };
+    }
+  }
+
+  /**
+   * Rafraîchit le fil et l'état du kite (appelé à chaque frame)
+   */
+  update(): void {
+    const status = document.getElementById("flight-status");
+    if (status) {
+      const remaining = this.policy.getRemainingTime(this.simulation.getTime());
+      status.textContent =
+        remaining !== null
+          ? `Reset dans ${remaining.toFixed(1)} s`
+          : this.detector.isGrounded()
+            ? "Au sol"
+            : "En vol";
+    }
+
+    if (!this.feedChanged) return;
+    this.feedChanged = false;
+    const feed = document.getElementById("flight-events-feed");
+    if (feed) {
+      feed.textContent =
+        this.feed.map((event) => FlightEventsPanel.describe(event)).join("\n") ||
+        "Aucun événement";
+    }
+  }
+
+  private static describe(event: FlightEvent): string {
+    const time = `${event.time.toFixed(1)} s`;
+    switch (event.type) {
+      case "crash":
+      case "landed":
+        return `${event.type === "crash" ? "💥 Crash" : "🛬 Posé"} ${time} · ${
+          PART_LABELS[event.part]
+        } · ${event.impactSpeed.toFixed(1)} m/s · nez ${event.noseAngle.toFixed(0)}°`;
+      case "stalled":
+        return `🍂 Décrochage ${time} · incidence ${event.angleOfAttack.toFixed(0)}°`;
+      case "lineSlack": {
+        const side = { left: "gauche", right: "droite", both: "deux lignes" }[
+          event.side
+        ];
+        return `〰️ Ligne molle ${time} · ${side}`;
+      }
+      case "overpowered":
+        return `⚡ Surpuissance ${time} · ${event.traction.toFixed(0)} N`;
+    }
+  }
+}
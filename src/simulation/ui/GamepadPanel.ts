@@ -0,0 +1,101 @@
+/**
+ * GamepadPanel.ts - Réglages de la manette dans l'interface
+ *
+ * Rôle :
+ *   - Choix de la commande (stick gauche, stick droit, gâchettes)
+ *   - Zone morte et courbe de réponse
+ *   - Affiche la manette détectée, l'entrée qui pilote et la position du stick
+ *
+ * Relation avec les fichiers adjacents :
+ *   - InputHandler.ts : Indique la source qui pilote
+ *   - SimulationApp.ts : Crée le panneau et appelle update() à chaque frame
+ *
+ * Voir aussi :
+ *   - src/simulation/controllers/GamepadInput.ts
+ */
+import { GamepadInput } from "../controllers/GamepadInput";
+import { InputHandler } from "../controllers/InputHandler";
+
+/**
+ * Panneau de la manette
+ */
+export class GamepadPanel {
+  private readonly gamepad: GamepadInput;
+  private readonly inputHandler: InputHandler;
+
+  constructor(gamepad: GamepadInput, inputHandler: InputHandler) {
+    this.gamepad = gamepad;
+    this.inputHandler = inputHandler;
+    this.setupControls();
+  }
+
+  private setupControls(): void {
+    const gamepad = this.gamepad;
+    const settings = gamepad.getSettings();
+
+    const mappingSelect = document.getElementById(
+      "gamepad-mapping"
+    ) as HTMLSelectElement;
+    if (mappingSelect) {
+      mappingSelect.value =
+        settings.mapping === "triggers" ? "triggers" : `stick-${settings.stickAxis}`;
+      mappingSelect.onchange = () => {
+        const [mapping, axis] = mappingSelect.value.split("-");
+        gamepad.setSettings(
+          mapping === "triggers"
+            ? { mapping: "triggers" }
+            : { mapping: "stick", stickAxis: parseInt(axis, 10) }
+        );
+      };
+    }
+
+    this.setupSlider("gamepad-deadzone", settings.deadzone, (value) => {
+      gamepad.setSettings({ deadzone: value });
+      return `${Math.round(value * 100)}%`;
+    });
+    this.setupSlider("gamepad-curve", settings.curve, (value) => {
+      gamepad.setSettings({ curve: value });
+      return value.toFixed(1);
+    });
+  }
+
+  /**
+   * Branche un curseur : `apply` applique la valeur et renvoie son libellé
+   */
+  private setupSlider(
+    id: string,
+    initial: number,
+    apply: (value: number) => string
+  ): void {
+    const slider = document.getElementById(id) as HTMLInputElement;
+    const label = document.getElementById(`${id}-value`);
+    if (!slider) return;
+    slider.value = initial.toString();
+    if (label) label.textContent = apply(initial);
+    slider.oninput = () => {
+      const text = apply(parseFloat(slider.value));
+      if (label) label.textContent = text;
+    };
+  }
+
+  /**
+   * Rafraîchit l'état de la manette (appelé à chaque frame par l'application)
+   */
+  update(): void {
+    const status = document.getElementById("gamepad-status");
+    if (!status) return;
+
+    const gamepad = this.gamepad;
+    const id = gamepad.getGamepadId();
+    const active = this.inputHandler.getActiveSource();
+    if (!id) {
+      status.textContent = `Aucune manette · pilotage : ${active?.name ?? "—"}`;
+      return;
+    }
+    const source =
+      active === gamepad ? "🎮" : `${active?.name ?? "—"} prioritaire`;
+    status.textContent = `${id.slice(0, 32)} · ${source} · entrée ${gamepad
+      .getInput()
+      .toFixed(2)}`;
+  }
+}
@@ -0,0 +1,170 @@
+/**
+ * KeyBindingsPanel.ts - Réaffectation des touches depuis l'interface
+ *
+ * Rôle :
+ *   - Affiche les touches de chaque action
+ *   - Ajoute une touche à une action (la prochaine touche pressée) ou vide une action
+ *   - Applique un préréglage AZERTY / QWERTY ou l'affectation par défaut
+ *   - Sauvegarde chaque changement dans le navigateur
+ *
+ * Relation avec les fichiers adjacents :
+ *   - KeyboardInput.ts : Reçoit la nouvelle affectation
+ *   - KeyBindings.ts : Préréglages et sauvegarde
+ *
+ * Voir aussi :
+ *   - src/simulation/controllers/InputHandler.ts
+ */
+import { KeyboardInput } from "../controllers/KeyboardInput";
+import { KeyBindings } from "../controllers/KeyBindings";
+import { KeyAction, KeyBindingMap } from "../types";
+
+const DEFAULT_PRESET_VALUE = "default";
+const CUSTOM_PRESET_VALUE = "custom";
+
+/**
+ * Panneau d'affectation des touches
+ */
+export class KeyBindingsPanel {
+  private readonly keyboard: KeyboardInput;
+  /** Action en attente d'une touche */
+  private capturing: KeyAction | null = null;
+
+  constructor(keyboard: KeyboardInput) {
+    this.keyboard = keyboard;
+    this.createRows();
+    this.setupControls();
+    this.refresh();
+  }
+
+  private createRows(): void {
+    const container = document.getElementById("key-bindings");
+    if (!container) return;
+
+    KeyBindings.ACTIONS.forEach(({ action, label }) => {
+      const row = document.createElement("div");
+      row.className = "slider-container";
+
+      const name = document.createElement("span");
+      name.textContent = label;
+      name.style.flex = "1";
+      row.appendChild(name);
+
+      const keys = document.createElement("span");
+      keys.className = "slider-value";
+      keys.id = `key-binding-${action}`;
+      row.appendChild(keys);
+
+      const add = document.createElement("button");
+      add.className = "ui-button";
+      add.textContent = "➕";
+      add.title = "Ajouter une touche";
+      add.addEventListener("click", (e) => {
+        e.preventDefault();
+        this.startCapture(action);
+      });
+      row.appendChild(add);
+
+      const clear = document.createElement("button");
+      clear.className = "ui-button";
+      clear.textContent = "✖️";
+      clear.title = "Retirer toutes les touches";
+      clear.addEventListener("click", (e) => {
+        e.preventDefault();
+        this.apply({ ...this.keyboard.getBindings(), [action]: [] });
+      });
+      row.appendChild(clear);
+
+      container.appendChild(row);
+    });
+  }
+
+  private setupControls(): void {
+    const presetSelect = document.getElementById(
+      "key-preset"
+    ) as HTMLSelectElement;
+    if (presetSelect) {
+      presetSelect.innerHTML =
+        `<option value="${DEFAULT_PRESET_VALUE}">Par défaut (Q et A)</option>` +
+        `<option value="${CUSTOM_PRESET_VALUE}" disabled>Personnalisée</option>`;
+      Object.entries(KeyBindings.PRESETS).forEach(([value, { label }]) => {
+        const option = document.createElement("option");
+        option.value = value;
+        option.textContent = label;
+        presetSelect.appendChild(option);
+      });
+      presetSelect.onchange = () => {
+        const preset =
+          KeyBindings.PRESETS[presetSelect.value as keyof typeof KeyBindings.PRESETS];
+        this.apply(preset ? preset.bindings : KeyBindings.DEFAULT);
+      };
+    }
+
+    // Phase de capture : la touche choisie ne doit pas aussi piloter la barre
+    window.addEventListener(
+      "keydown",
+      (event) => {
+        if (!this.capturing) return;
+        event.preventDefault();
+        event.stopImmediatePropagation();
+        const action = this.capturing;
+        this.capturing = null;
+        if (event.key === "Escape") {
+          this.setStatus("Affectation annulée");
+          return;
+        }
+        this.apply(KeyBindings.assign(this.keyboard.getBindings(), action, event.key));
+      },
+      { capture: true }
+    );
+  }
+
+  private startCapture(action: KeyAction): void {
+    this.capturing = action;
+    const label = KeyBindings.ACTIONS.find((a) => a.action === action)?.label;
+    this.setStatus(`Appuyez sur une touche pour « ${label} » (Échap pour annuler)`);
+  }
+
+  private apply(bindings: KeyBindingMap): void {
+    this.keyboard.setBindings(bindings);
+    try {
+      KeyBindings.store(bindings);
+      this.setStatus("Touches enregistrées");
+    } catch (error) {
+      this.setStatus((error as Error).message);
+    }
+    this.refresh();
+  }
+
+  private refresh(): void {
+    const bindings = this.keyboard.getBindings();
+    const same = (other: KeyBindingMap) =>
+      JSON.stringify(other) === JSON.stringify(bindings);
+    const presetSelect = document.getElementById(
+      "key-preset"
+    ) as HTMLSelectElement;
+    if (presetSelect) {
+      const preset = Object.entries(KeyBindings.PRESETS).find(([, { bindings: b }]) =>
+        same(b)
+      );
+      presetSelect.value = preset
+        ? preset[0]
+        : same(KeyBindings.DEFAULT)
+          ? DEFAULT_PRESET_VALUE
+          : CUSTOM_PRESET_VALUE;
+    }
+
+    KeyBindings.ACTIONS.forEach(({ action }) => {
+      const keys = document.getElementById(`key-binding-${action}`);
+      if (keys) {
+        keys.textContent =
+          bindings[action].map((key) => KeyBindings.describeKey(key)).join(" ") ||
+          "—";
+      }
+    });
+  }
+
+  private setStatus(text: string): void {
+    const status = document.getElementById("key-status");
+    if (status) status.textContent = text;
+  }
+}
@@ -0,0 +1,201 @@
+/**
+ * ProfilePanel.ts - Gestion des profils de configuration depuis l'interface
+ *
+ * Rôle :
+ *   - Sauvegarde les réglages courants sous un nom (localStorage), les recharge, les supprime
+ *   - Exporte/importe un profil en fichier JSON
+ *   - Génère un lien portant le profil (#profile=...) et le copie dans le presse-papiers
+ *   - Compare un profil sauvegardé aux réglages courants
+ *
+ * Relation avec les fichiers adjacents :
+ *   - SimulationApp.ts : Implémente ProfileControls (capture et application)
+ *   - UIManager.ts : Recale ses curseurs après application d'un profil
+ *
+ * Voir aussi :
+ *   - src/simulation/config/ConfigProfiles.ts
+ */
+import { ConfigProfiles } from "../config/ConfigProfiles";
+import { ConfigProfile } from "../types";
+
+/**
+ * Actions sur les profils fournies par l'application
+ */
+export interface ProfileControls {
+  captureProfile(name: string): ConfigProfile;
+  applyProfile(profile: ConfigProfile): void;
+}
+
+/**
+ * Panneau des profils de configuration
+ */
+export class ProfilePanel {
+  private controls: ProfileControls;
+
+  constructor(controls: ProfileControls) {
+    this.controls = controls;
+    this.setupControls();
+  }
+
+  private setupControls(): void {
+    this.onClick("profile-save", () => {
+      const name = this.getName();
+      try {
+        ConfigProfiles.store(this.controls.captureProfile(name));
+        this.refreshList(name);
+        this.setStatus(`Profil « ${name} » sauvegardé`);
+      } catch (error) {
+        this.reportError("Sauvegarde impossible", error);
+      }
+    });
+
+    this.onClick("profile-load", () => {
+      const name = this.getSelected();
+      if (!name) return;
+      try {
+        const profile = ConfigProfiles.loadStored(name);
+        if (profile) this.apply(profile);
+      } catch (error) {
+        this.reportError("Profil illisible", error);
+      }
+    });
+
+    this.onClick("profile-delete", () => {
+      const name = this.getSelected();
+      if (!name) return;
+      ConfigProfiles.removeStored(name);
+      this.refreshList();
+      this.setStatus(`Profil « ${name} » supprimé`);
+    });
+
+    this.onClick("profile-export", () => {
+      const profile = this.controls.captureProfile(this.getName());
+      const blob = new Blob([ConfigProfiles.serialize(profile)], {
+        type: "application/json",
+      });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `profil-${profile.name.replace(/[^\w-]+/g, "_")}.json`;
+      link.click();
+      URL.revokeObjectURL(url);
+    });
+
+    const fileInput = document.getElementById("profile-file") as HTMLInputElement;
+    this.onClick("profile-import", () => fileInput?.click());
+    if (fileInput) {
+      fileInput.onchange = async () => {
+        const file = fileInput.files?.[0];
+        fileInput.value = "";
+        if (!file) return;
+        try {
+          this.apply(ConfigProfiles.parse(await file.text()));
+        } catch (error) {
+          this.reportError("Fichier invalide", error);
+        }
+      };
+    }
+
+    this.onClick("profile-link", async () => {
+      const link = ConfigProfiles.toURL(
+        this.controls.captureProfile(this.getName()),
+        window.location.href
+      );
+      history.replaceState(null, "", link);
+      try {
+        await navigator.clipboard.writeText(link);
+        this.setStatus("🔗 Lien copié dans le presse-papiers");
+      } catch {
+        this.setStatus("🔗 Lien placé dans la barre d'adresse");
+      }
+    });
+
+    this.onClick("profile-diff", () => {
+      const name = this.getSelected();
+      if (!name) return;
+      try {
+        const stored = ConfigProfiles.loadStored(name);
+        if (stored) this.showDiff(stored, this.controls.captureProfile("actuel"));
+      } catch (error) {
+        this.reportError("Profil illisible", error);
+      }
+    });
+
+    this.refreshList();
+  }
+
+  private apply(profile: ConfigProfile): void {
+    this.controls.applyProfile(profile);
+    const nameInput = document.getElementById("profile-name") as HTMLInputElement;
+    if (nameInput) nameInput.value = profile.name;
+    this.hideDiff();
+    this.setStatus(`Profil « ${profile.name} » appliqué`);
+  }
+
+  private showDiff(before: ConfigProfile, after: ConfigProfile): void {
+    const output = document.getElementById("profile-diff-output");
+    if (!output) return;
+
+    const entries = ConfigProfiles.diff(before, after);
+    const format = (value: unknown) =>
+      value === undefined ? "—" : JSON.stringify(value);
+    output.textContent =
+      entries.length === 0
+        ? `Aucune différence avec « ${before.name} »`
+        : [
+            `« ${before.name} » → réglages actuels :`,
+            ...entries.map(
+              ({ path, before: a, after: b }) =>
+                `${path}: ${format(a)} → ${format(b)}`
+            ),
+          ].join("\n");
+    output.style.display = "block";
+  }
+
+  private hideDiff(): void {
+    const output = document.getElementById("profile-diff-output");
+    if (output) output.style.display = "none";
+  }
+
+  private refreshList(selected?: string): void {
+    const list = document.getElementById("profile-list") as HTMLSelectElement;
+    if (!list) return;
+    const names = ConfigProfiles.listStored();
+    list.innerHTML = names.length
+      ? names.map(() => `<option></option>`).join("")
+      : `<option value="">Aucun profil sauvegardé</option>`;
+    // Noms saisis par l'utilisateur : affectés en texte, jamais en HTML
+    names.forEach((name, index) => {
+      list.options[index].value = name;
+      list.options[index].textContent = name;
+    });
+    if (selected) list.value = selected;
+  }
+
+  private getName(): string {
+    const nameInput = document.getElementById("profile-name") as HTMLInputElement;
+    return nameInput?.value.trim() || "sans-nom";
+  }
+
+  private getSelected(): string {
+    const list = document.getElementById("profile-list") as HTMLSelectElement;
+    return list?.value ?? "";
+  }
+
+  private reportError(context: string, error: unknown): void {
+    console.error(`❌ ${context}:`, error);
+    this.setStatus(`${context} : ${(error as Error).message}`);
+  }
+
+  private onClick(id: string, handler: () => void): void {
+    const element = document.getElementById(id);
+    element?.addEventListener("click", (e) => {
+      e.preventDefault();
+      handler();
+    });
+  }
+
+  private setStatus(text: string): void {
+    const status = document.getElementById("profile-status");
+    if (status) status.textContent = text;
+  }
+}
@@ -0,0 +1,222 @@
+/**
+ * RecorderPanel.ts - Contrôles d'enregistrement et de replay des vols
+ *
+ * Rôle :
+ *   - Démarre/arrête l'enregistrement, exporte le vol en JSON, charge un vol
+ *   - Pilote le replay : lecture/pause, déplacement (scrub), vitesse, sortie
+ *   - Affiche l'état courant (durée enregistrée, position du replay, divergence)
+ *
+ * Relation avec les fichiers adjacents :
+ *   - SimulationApp.ts : Possède l'enregistreur et le replay, implémente RecordingControls
+ *   - UIManager.ts : Autres contrôles du panneau principal
+ *
+ * Voir aussi :
+ *   - src/simulation/recording/FlightRecorder.ts
+ *   - src/simulation/recording/FlightReplay.ts
+ */
+import { FlightRecorder } from "../recording/FlightRecorder";
+import { FlightReplay } from "../recording/FlightReplay";
+import { FlightRecording } from "../types";
+
+/**
+ * Actions d'enregistrement/replay fournies par l'application
+ */
+export interface RecordingControls {
+  startRecording(): void;
+  stopRecording(): FlightRecording | null;
+  isRecording(): boolean;
+  getRecordedDuration(): number;
+  startReplay(recording: FlightRecording): FlightReplay;
+  /** Déplace le replay (l'application remet la pose physique en place autour du seek) */
+  seekReplay(stepIndex: number): void;
+  stopReplay(): void;
+  getReplay(): FlightReplay | null;
+}
+
+/**
+ * Panneau de l'enregistreur de vol
+ */
+export class RecorderPanel {
+  private controls: RecordingControls;
+  private lastRecording: FlightRecording | null = null;
+  private isScrubbing = false;
+
+  constructor(controls: RecordingControls) {
+    this.controls = controls;
+    this.setupControls();
+  }
+
+  private setupControls(): void {
+    this.onClick("record-toggle", () => {
+      if (this.controls.isRecording()) {
+        this.lastRecording = this.controls.stopRecording();
+      } else {
+        this.controls.startRecording();
+      }
+      this.refreshButtons();
+    });
+
+    this.onClick("recording-replay", () => {
+      if (this.lastRecording) this.startReplay(this.lastRecording);
+    });
+
+    this.onClick("recording-export", () => {
+      if (this.lastRecording) this.download(this.lastRecording);
+    });
+
+    const fileInput = document.getElementById(
+      "recording-file"
+    ) as HTMLInputElement;
+    this.onClick("recording-load", () => fileInput?.click());
+    if (fileInput) {
+      fileInput.onchange = async () => {
+        const file = fileInput.files?.[0];
+        fileInput.value = "";
+        if (!file) return;
+        try {
+          this.lastRecording = FlightRecorder.parse(await file.text());
+          this.startReplay(this.lastRecording);
+        } catch (error) {
+          console.error("❌ Chargement du vol impossible:", error);
+          this.setStatus(`Fichier invalide : ${(error as Error).message}`);
+        }
+      };
+    }
+
+    this.onClick("replay-play", () => {
+      const replay = this.controls.getReplay();
+      if (!replay) return;
+      if (replay.isPlaying()) {
+        replay.pause();
+      } else {
+        replay.play();
+      }
+    });
+
+    this.onClick("replay-exit", () => {
+      this.controls.stopReplay();
+      this.refreshButtons();
+    });
+
+    const scrub = document.getElementById("replay-scrub") as HTMLInputElement;
+    if (scrub) {
+      scrub.oninput = () => {
+        this.isScrubbing = true;
+        this.controls.seekReplay(parseInt(scrub.value));
+      };
+      scrub.onchange = () => {
+        this.isScrubbing = false;
+      };
+    }
+
+    const speed = document.getElementById("replay-speed") as HTMLSelectElement;
+    if (speed) {
+      speed.onchange = () => {
+        this.controls.getReplay()?.setSpeed(parseFloat(speed.value));
+      };
+    }
+
+    this.refreshButtons();
+  }
+
+  /**
+   * Rafraîchit l'affichage (appelé à chaque frame par l'application)
+   */
+  update(): void {
+    const replay = this.controls.getReplay();
+
+    if (replay) {
+      const scrub = document.getElementById("replay-scrub") as HTMLInputElement;
+      if (scrub && !this.isScrubbing) {
+        scrub.value = replay.getCurrentStep().toString();
+      }
+      const playBtn = document.getElementById("replay-play");
+      if (playBtn) playBtn.textContent = replay.isPlaying() ? "⏸️" : "▶️";
+
+      const divergence = replay.getDivergenceStep();
+      this.setStatus(
+        `Replay ${replay.getTime().toFixed(1)} / ${replay
+          .getDuration()
+          .toFixed(1)} s` +
+          (divergence === null
+            ? " — identique"
+            : ` — ⚠️ diverge au pas ${divergence}`)
+      );
+    } else if (this.controls.isRecording()) {
+      this.setStatus(
+        `⏺️ Enregistrement ${this.controls.getRecordedDuration().toFixed(1)} s`
+      );
+    } else if (this.lastRecording) {
+      const tricks = this.lastRecording.tricks;
+      this.setStatus(
+        `Vol prêt : ${this.lastRecording.steps.length} pas` +
+          (tricks ? ` · ${tricks.length} figure(s)` : "")
+      );
+    } else {
+      this.setStatus("");
+    }
+  }
+
+  private startReplay(recording: FlightRecording): void {
+    const replay = this.controls.startReplay(recording);
+
+    const scrub = document.getElementById("replay-scrub") as HTMLInputElement;
+    if (scrub) {
+      scrub.max = replay.getStepCount().toString();
+      scrub.value = "0";
+    }
+    const speed = document.getElementById("replay-speed") as HTMLSelectElement;
+    if (speed) replay.setSpeed(parseFloat(speed.value));
+
+    replay.play();
+    this.refreshButtons();
+  }
+
+  private refreshButtons(): void {
+    const replaying = this.controls.getReplay() !== null;
+    const recording = this.controls.isRecording();
+
+    const recordBtn = document.getElementById("record-toggle") as HTMLButtonElement;
+    if (recordBtn) {
+      recordBtn.textContent = recording ? "⏹️ Arrêter" : "⏺️ Enregistrer";
+      recordBtn.classList.toggle("active", recording);
+      recordBtn.disabled = replaying;
+    }
+
+    const hasRecording = this.lastRecording !== null && !recording;
+    (["recording-replay", "recording-export"] as const).forEach((id) => {
+      const button = document.getElementById(id) as HTMLButtonElement;
+      if (button) button.disabled = !hasRecording || replaying;
+    });
+
+    const replayControls = document.getElementById("replay-controls");
+    if (replayControls) {
+      replayControls.style.display = replaying ? "block" : "none";
+    }
+  }
+
+  private download(recording: FlightRecording): void {
+    const blob = new Blob([FlightRecorder.serialize(recording)], {
+      type: "application/json",
+    });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `vol-${recording.createdAt.replace(/[:.]/g, "-")}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+
+  private onClick(id: string, handler: () => void): void {
+    const element = document.getElementById(id);
+    element?.addEventListener("click", (e) => {
+      e.preventDefault();
+      handler();
+    });
+  }
+
+  private setStatus(text: string): void {
+    const status = document.getElementById("recording-status");
+    if (status && status.textContent !== text) status.textContent = text;
+  }
+}
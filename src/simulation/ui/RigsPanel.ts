@@ -0,0 +1,279 @@
+/**
+ * RigsPanel.ts - Plusieurs kites dans l'interface
+ *
+ * Rôle :
+ *   - Ajoute et retire des kites à côté du premier, chacun piloté dès sa création
+ *     par la source choisie : barre du premier kite, second pilote (clavier ou
+ *     manette) ou pilote automatique
+ *   - Pour le kite choisi : source d'entrée, longueurs de brides et masse propre
+ *   - Compare les kites : élévation et traction de chacun
+ *
+ * Relation avec les fichiers adjacents :
+ *   - MultiKiteSimulation.ts : Ensembles pilote + kite
+ *   - ConfigParameters.ts : Modifie les brides en revalidant la configuration
+ *   - SimulationApp.ts : Crée le panneau, ajoute les vues des kites dans la scène
+ *
+ * Voir aussi :
+ *   - src/simulation/controllers/MirrorInput.ts
+ */
+import { HeadlessSimulation } from "../HeadlessSimulation";
+import { KiteRig, MultiKiteSimulation } from "../MultiKiteSimulation";
+import { Autopilot } from "../controllers/Autopilot";
+import { MirrorInput } from "../controllers/MirrorInput";
+import { ConfigParameters } from "../config/ConfigParameters";
+import { CONFIG } from "../config/SimulationConfig";
+import { WindWindow } from "../physics/WindWindow";
+import { AutopilotPath, InputSource } from "../types";
+import { BridleLengths } from "../types/BridleTypes";
+
+type RigInputChoice =
+  | "mirror"
+  | "keyboard"
+  | "gamepad"
+  | "figureEight"
+  | "circle"
+  | "edge";
+
+const AUTOPILOT_PATHS: Record<
+  Exclude<RigInputChoice, "mirror" | "keyboard" | "gamepad">,
+  AutopilotPath
+> = {
+  figureEight: Autopilot.FIGURE_EIGHT,
+  circle: Autopilot.CIRCLE,
+  edge: Autopilot.EDGE_HOLD,
+};
+
+const BRIDLES: (keyof BridleLengths)[] = ["nez", "inter", "centre"];
+
+/**
+ * Actions de l'application déclenchées depuis le panneau
+ */
+export interface RigsPanelControls {
+  /** Ajoute un kite dans la scène, piloté par la source créée (null : plus de place) */
+  addRig(createInput: (simulation: HeadlessSimulation) => InputSource): KiteRig | null;
+  removeRig(rig: KiteRig): void;
+  /** Clavier du second pilote (touches distinctes de celles du premier) */
+  secondKeyboard: InputSource;
+  /** Deuxième manette branchée */
+  secondGamepad: InputSource;
+}
+
+/**
+ * Panneau des kites
+ */
+export class RigsPanel {
+  private readonly rigs: MultiKiteSimulation;
+  private readonly controls: RigsPanelControls;
+  private selected: KiteRig | null = null;
+  private message = "";
+
+  constructor(rigs: MultiKiteSimulation, controls: RigsPanelControls) {
+    this.rigs = rigs;
+    this.controls = controls;
+    this.setupControls();
+  }
+
+  private setupControls(): void {
+    this.onClick("rig-add", () => {
+      const choiceSelect = document.getElementById(
+        "rig-add-input"
+      ) as HTMLSelectElement;
+      const choice = (choiceSelect?.value ?? "mirror") as RigInputChoice;
+      const rig = this.controls.addRig((simulation) =>
+        this.createInput(simulation, choice)
+      );
+      this.message = rig ? "" : "Plus de place pour un autre kite";
+      if (rig) this.selected = rig;
+      this.refresh();
+    });
+
+    this.onClick("rig-remove", () => {
+      if (!this.selected) return;
+      this.controls.removeRig(this.selected);
+      this.selected = null;
+      this.refresh();
+    });
+
+    const select = document.getElementById("rig-select") as HTMLSelectElement;
+    if (select) {
+      select.onchange = () => {
+        this.selected =
+          this.rigs.getRigs().find((rig) => rig.name === select.value) ?? null;
+        this.refresh();
+      };
+    }
+
+    const input = document.getElementById("rig-input") as HTMLSelectElement;
+    if (input) {
+      input.onchange = () => {
+        if (this.selected) {
+          this.selected.input = this.createInput(
+            this.selected.simulation,
+            input.value as RigInputChoice
+          );
+        }
+      };
+    }
+
+    BRIDLES.forEach((key) => {
+      const slider = document.getElementById(
+        `rig-bridle-${key}`
+      ) as HTMLInputElement;
+      if (slider) slider.oninput = () => this.applyBridle(key, slider);
+    });
+
+    const mass = document.getElementById("rig-mass") as HTMLInputElement;
+    if (mass) {
+      mass.oninput = () => {
+        if (!this.selected) return;
+        this.selected.config.kite = {
+          ...this.selected.config.kite,
+          mass: parseFloat(mass.value),
+        };
+        this.refreshMass();
+      };
+    }
+
+    this.refresh();
+  }
+
+  private createInput(
+    simulation: HeadlessSimulation,
+    choice: RigInputChoice
+  ): InputSource {
+    switch (choice) {
+      case "mirror":
+        return new MirrorInput(this.rigs.getLead());
+      case "keyboard":
+        return this.controls.secondKeyboard;
+      case "gamepad":
+        return this.controls.secondGamepad;
+      default: {
+        const autopilot = new Autopilot(simulation, AUTOPILOT_PATHS[choice]);
+        autopilot.setEngaged(true);
+        return autopilot;
+      }
+    }
+  }
+
+  private inputChoiceOf(rig: KiteRig): RigInputChoice {
+    if (rig.input instanceof Autopilot) {
+      const path = rig.input.getPath();
+      return path.type === "hold" ? "edge" : path.type;
+    }
+    if (rig.input === this.controls.secondKeyboard) return "keyboard";
+    if (rig.input === this.controls.secondGamepad) return "gamepad";
+    return "mirror";
+  }
+
+  /**
+   * Modifie une bride du kite choisi ; une longueur refusée par la validation
+   * est signalée et le curseur revient à la longueur en vigueur
+   */
+  private applyBridle(key: keyof BridleLengths, slider: HTMLInputElement): void {
+    if (!this.selected) return;
+    const kite = this.selected.simulation.getKite();
+    const issues = ConfigParameters.set(
+      `bridles.${key}`,
+      parseFloat(slider.value),
+      kite
+    );
+    this.message = issues.map((issue) => `⚠️ ${issue.message}`).join("\n");
+    this.refreshBridles();
+  }
+
+  /**
+   * Reconstruit la liste des kites et les réglages du kite choisi
+   */
+  private refresh(): void {
+    const others = this.rigs.getRigs().slice(1);
+    if (!this.selected || !others.includes(this.selected)) {
+      this.selected = others[others.length - 1] ?? null;
+    }
+
+    const settings = document.getElementById("rig-settings");
+    if (settings) settings.style.display = this.selected ? "block" : "none";
+
+    const select = document.getElementById("rig-select") as HTMLSelectElement;
+    if (select) {
+      select.innerHTML = "";
+      others.forEach((rig) => {
+        const option = document.createElement("option");
+        option.value = rig.name;
+        option.textContent = rig.name;
+        select.appendChild(option);
+      });
+      if (this.selected) select.value = this.selected.name;
+    }
+
+    const input = document.getElementById("rig-input") as HTMLSelectElement;
+    if (input && this.selected) input.value = this.inputChoiceOf(this.selected);
+
+    this.refreshBridles();
+    this.refreshMass();
+  }
+
+  private refreshMass(): void {
+    if (!this.selected) return;
+    const mass = this.selected.config.kite?.mass ?? CONFIG.kite.mass;
+    const slider = document.getElementById("rig-mass") as HTMLInputElement;
+    const label = document.getElementById("rig-mass-value");
+    if (slider) slider.value = mass.toString();
+    if (label) label.textContent = `${mass.toFixed(3)}kg`;
+  }
+
+  private refreshBridles(): void {
+    if (!this.selected) return;
+    const lengths = this.selected.simulation.getKite().getBridleLengths();
+    BRIDLES.forEach((key) => {
+      const slider = document.getElementById(
+        `rig-bridle-${key}`
+      ) as HTMLInputElement;
+      const label = document.getElementById(`rig-bridle-${key}-value`);
+      if (slider) slider.value = lengths[key].toString();
+      if (label) label.textContent = `${lengths[key].toFixed(2)}m`;
+    });
+  }
+
+  private onClick(id: string, handler: () => void): void {
+    const element = document.getElementById(id);
+    element?.addEventListener("click", (e) => {
+      e.preventDefault();
+      handler();
+    });
+  }
+
+  /**
+   * Compare les kites en vol (appelé à chaque frame)
+   */
+  update(): void {
+    const status = document.getElementById("rig-status");
+    if (!status) return;
+
+    // Un seul kite : rien à comparer
+    const lines =
+      this.rigs.getRigCount() > 1
+        ? this.rigs.getRigs().map((rig) => RigsPanel.describe(rig))
+        : [];
+    if (this.message) lines.push(this.message);
+    const text = lines.join("\n");
+    if (status.textContent !== text) status.textContent = text;
+  }
+
+  private static describe(rig: KiteRig): string {
+    const simulation = rig.simulation;
+    const state = simulation.getState();
+    const pilotPosition = simulation.getPilotPosition();
+    const { elevation } = WindWindow.locate(
+      state.position,
+      pilotPosition,
+      simulation.getInputs().windParams.direction
+    );
+    const frame = simulation.getLastFrame();
+    const radial = state.position.clone().sub(pilotPosition).normalize();
+    const traction = frame
+      ? frame.lift.clone().add(frame.drag).dot(radial)
+      : 0;
+    return `${rig.name} · élévation ${elevation.toFixed(0)}° · traction ${traction.toFixed(1)} N`;
+  }
+}
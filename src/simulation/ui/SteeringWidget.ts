@@ -0,0 +1,107 @@
+/**
+ * SteeringWidget.ts - Barre de pilotage à l'écran
+ *
+ * Rôle :
+ *   - Dessine, dans la zone de pilotage tactile, la barre commandée (contour)
+ *     et la barre réellement appliquée par la physique (pleine)
+ *   - Rappelle le geste possible tant que la zone n'est pas utilisée
+ *
+ * Relation avec les fichiers adjacents :
+ *   - PointerSteeringInput.ts : Lit les gestes sur la même zone
+ *   - SimulationApp.ts : Fournit les deux rotations à chaque frame via update()
+ */
+
+/**
+ * Widget de la barre de pilotage
+ */
+export class SteeringWidget {
+  private readonly canvas: HTMLCanvasElement;
+  private readonly maxRotation: number;
+
+  /**
+   * @param container - Zone de pilotage (le canvas y est ajouté)
+   * @param maxRotation - Rotation de barre à fond de course (rad)
+   */
+  constructor(container: HTMLElement, maxRotation: number) {
+    this.maxRotation = maxRotation;
+    this.canvas = document.createElement("canvas");
+    container.appendChild(this.canvas);
+  }
+
+  /**
+   * Redessine le widget (appelé à chaque frame par l'application)
+   * @param commanded - Rotation demandée par l'entrée active (rad)
+   * @param applied - Rotation appliquée au dernier pas physique (rad)
+   * @param dragging - Un geste est en cours sur la zone
+   */
+  update(commanded: number, applied: number, dragging: boolean): void {
+    const ctx = this.canvas.getContext("2d");
+    if (!ctx) return;
+
+    const ratio = window.devicePixelRatio || 1;
+    const width = this.canvas.clientWidth;
+    const height = this.canvas.clientHeight;
+    if (
+      this.canvas.width !== width * ratio ||
+      this.canvas.height !== height * ratio
+    ) {
+      this.canvas.width = width * ratio;
+      this.canvas.height = height * ratio;
+    }
+    ctx.setTransform(ratio, 0, 0, ratio, 0, 0);
+    ctx.clearRect(0, 0, width, height);
+
+    const centerX = width / 2;
+    const centerY = height / 2;
+    const halfLength = width * 0.35;
+
+    // Repères : centre et fins de course
+    ctx.strokeStyle = "rgba(255, 255, 255, 0.2)";
+    ctx.lineWidth = 1;
+    [-this.maxRotation, 0, this.maxRotation].forEach((rotation) =>
+      this.drawBar(ctx, centerX, centerY, halfLength, rotation)
+    );
+
+    ctx.lineCap = "round";
+    ctx.strokeStyle = "rgba(255, 152, 0, 0.8)";
+    ctx.lineWidth = 2;
+    ctx.setLineDash([4, 4]);
+    this.drawBar(ctx, centerX, centerY, halfLength, commanded);
+    ctx.setLineDash([]);
+
+    ctx.strokeStyle = "#4fc3f7";
+    ctx.lineWidth = 6;
+    this.drawBar(ctx, centerX, centerY, halfLength, applied);
+
+    ctx.font = "10px Arial, sans-serif";
+    ctx.fillStyle = "rgba(255, 255, 255, 0.6)";
+    ctx.textAlign = "center";
+    ctx.fillText(
+      dragging
+        ? `${((commanded * 180) / Math.PI).toFixed(0)}°`
+        : "Glisser ou tourner à deux doigts",
+      centerX,
+      height - 6
+    );
+  }
+
+  /**
+   * Barre centrée : une rotation positive (virage à gauche) relève la main droite,
+   * comme la barre vue depuis le pilote
+   */
+  private drawBar(
+    ctx: CanvasRenderingContext2D,
+    centerX: number,
+    centerY: number,
+    halfLength: number,
+    rotation: number
+  ): void {
+    // Axe y de l'écran vers le bas : angle opposé pour relever la main droite
+    const dx = Math.cos(-rotation) * halfLength;
+    const dy = Math.sin(-rotation) * halfLength;
+    ctx.beginPath();
+    ctx.moveTo(centerX - dx, centerY - dy);
+    ctx.lineTo(centerX + dx, centerY + dy);
+    ctx.stroke();
+  }
+}
@@ -0,0 +1,107 @@
+/**
+ * TelemetryPanel.ts - Capture et export de la télémétrie depuis l'interface
+ *
+ * Rôle :
+ *   - Démarre/arrête une session de télémétrie sur la simulation affichée
+ *   - Exporte les échantillons en CSV ou en JSON Lines (téléchargement)
+ *
+ * La capture suit les pas physiques, y compris pendant un replay : rejouer un
+ * vol enregistré permet d'en extraire la télémétrie a posteriori.
+ *
+ * Relation avec les fichiers adjacents :
+ *   - SimulationApp.ts : Crée le panneau et appelle update() à chaque frame
+ *   - RecorderPanel.ts : Panneau voisin (enregistrement des entrées)
+ *
+ * Voir aussi :
+ *   - src/simulation/telemetry/TelemetrySession.ts
+ */
+import { HeadlessSimulation } from "../HeadlessSimulation";
+import { TelemetrySession } from "../telemetry/TelemetrySession";
+
+/**
+ * Panneau de télémétrie
+ */
+export class TelemetryPanel {
+  private readonly simulation: HeadlessSimulation;
+  private readonly session = new TelemetrySession();
+
+  constructor(simulation: HeadlessSimulation) {
+    this.simulation = simulation;
+    this.setupControls();
+  }
+
+  getSession(): TelemetrySession {
+    return this.session;
+  }
+
+  private setupControls(): void {
+    this.onClick("telemetry-toggle", () => {
+      if (this.session.isCapturing()) {
+        this.session.stop();
+      } else {
+        this.session.start(this.simulation);
+      }
+      this.refreshButtons();
+    });
+
+    this.onClick("telemetry-csv", () =>
+      this.download(this.session.toCSV(), "csv", "text/csv")
+    );
+    this.onClick("telemetry-jsonl", () =>
+      this.download(this.session.toJSONL(), "jsonl", "application/jsonl")
+    );
+
+    this.refreshButtons();
+  }
+
+  /**
+   * Rafraîchit l'affichage (appelé à chaque frame par l'application)
+   */
+  update(): void {
+    const count = this.session.getSampleCount();
+    const text = this.session.isCapturing()
+      ? `📈 Capture : ${count} échantillons`
+      : count > 0
+      ? `${count} échantillons prêts à exporter`
+      : "";
+    const status = document.getElementById("telemetry-status");
+    if (status && status.textContent !== text) status.textContent = text;
+  }
+
+  private refreshButtons(): void {
+    const capturing = this.session.isCapturing();
+
+    const toggle = document.getElementById(
+      "telemetry-toggle"
+    ) as HTMLButtonElement;
+    if (toggle) {
+      toggle.textContent = capturing ? "⏹️ Arrêter" : "📈 Capturer";
+      toggle.classList.toggle("active", capturing);
+    }
+
+    (["telemetry-csv", "telemetry-jsonl"] as const).forEach((id) => {
+      const button = document.getElementById(id) as HTMLButtonElement;
+      if (button) button.disabled = capturing;
+    });
+  }
+
+  private download(content: string, extension: string, type: string): void {
+    const blob = new Blob([content], { type });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `telemetrie-${new Date()
+      .toISOString()
+      .replace(/[:.]/g, "-")}.${extension}`;
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+
+  private onClick(id: string, handler: () => void): void {
+    const element = document.getElementById(id);
+    element?.addEventListener("click", (e) => {
+      e.preventDefault();
+      handler();
+    });
+  }
+}
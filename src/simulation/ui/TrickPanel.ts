@@ -0,0 +1,70 @@
+/**
+ * TrickPanel.ts - Fil des figures de voltige au-dessus de la scène
+ *
+ * Rôle :
+ *   - Affiche les dernières figures reconnues avec leurs mesures (durée,
+ *     angle, rayon, hauteur perdue)
+ *   - Reste masqué tant qu'aucune figure n'a été reconnue
+ *
+ * Relation avec les fichiers adjacents :
+ *   - TrickRecognizer.ts : Source des figures
+ *   - SimulationApp.ts : Crée le panneau et appelle update() à chaque frame
+ *
+ * Voir aussi :
+ *   - src/simulation/types/TrickTypes.ts
+ */
+import { TrickRecognizer } from "../tricks/TrickRecognizer";
+import { RecognizedTrick, TrickType } from "../types";
+
+/** Nombre de figures affichées */
+const FEED_SIZE = 4;
+
+const TRICK_LABELS: Record<TrickType, string> = {
+  loop: "🔁 Looping",
+  squareTurn: "📐 Virage carré",
+  dive: "⬇️ Piqué",
+  stall: "🪂 Décrochage",
+  axel: "🌀 Axel",
+};
+
+/**
+ * Fil des figures
+ */
+export class TrickPanel {
+  private feed: RecognizedTrick[] = [];
+  private feedChanged = false;
+
+  constructor(recognizer: TrickRecognizer) {
+    recognizer.addListener((trick) => {
+      this.feed = [trick, ...this.feed].slice(0, FEED_SIZE);
+      this.feedChanged = true;
+    });
+  }
+
+  /**
+   * Rafraîchit le fil (appelé à chaque frame)
+   */
+  update(): void {
+    if (!this.feedChanged) return;
+    this.feedChanged = false;
+
+    const panel = document.getElementById("trick-feed");
+    if (!panel) return;
+    panel.style.display = this.feed.length > 0 ? "block" : "none";
+    panel.textContent = this.feed
+      .map((trick) => TrickPanel.describe(trick))
+      .join("\n");
+  }
+
+  private static describe(trick: RecognizedTrick): string {
+    const parts = [TRICK_LABELS[trick.type]];
+    if (trick.direction) {
+      parts[0] += trick.direction === "left" ? " à gauche" : " à droite";
+    }
+    parts.push(`${trick.duration.toFixed(1)} s`);
+    if (trick.angle !== null) parts.push(`${trick.angle.toFixed(0)}°`);
+    if (trick.radius !== null) parts.push(`rayon ${trick.radius.toFixed(1)} m`);
+    parts.push(`−${trick.altitudeLost.toFixed(1)} m`);
+    return parts.join(" · ");
+  }
+}
@@ -0,0 +1,274 @@
+/**
+ * TuningPanel.ts - Panneau de réglage généré depuis les métadonnées des paramètres
+ *
+ * Rôle :
+ *   - Crée un contrôle par paramètre de ConfigParameters (curseur, liste ou case),
+ *     regroupés par section de CONFIG, avec unité et description en infobulle
+ *   - Applique chaque changement tout de suite ; un changement qui rendrait la
+ *     configuration invalide est refusé et signalé
+ *   - Remet un paramètre (ou tous) à sa valeur par défaut
+ *   - Indique les paramètres pris en compte au prochain reset et ceux fixés au chargement
+ *
+ * Relation avec les fichiers adjacents :
+ *   - ConfigParameters.ts : Métadonnées, lecture/écriture et valeurs par défaut
+ *   - UIManager.ts : Ses curseurs sont recalés après chaque changement (onChange)
+ *   - SimulationApp.ts : Crée le panneau et appelle update() à chaque frame
+ *
+ * Voir aussi :
+ *   - src/simulation/types/ParameterTypes.ts
+ */
+import { HeadlessSimulation } from "../HeadlessSimulation";
+import { ConfigParameters } from "../config/ConfigParameters";
+import { ParameterMetadata, ParameterValue } from "../types";
+
+/** Titre des sections, par premier segment du chemin */
+const SECTION_TITLES: Record<string, string> = {
+  physics: "⚙️ Physique",
+  aero: "🪂 Aérodynamique",
+  kite: "🪁 Kite",
+  lines: "🧵 Lignes",
+  wind: "💨 Vent",
+  controlBar: "🎮 Barre",
+  bridles: "🔗 Brides",
+  rendering: "🖥️ Rendu",
+  debugVectors: "🖥️ Rendu",
+};
+
+const APPLY_BADGES: Record<ParameterMetadata["apply"], string> = {
+  live: "",
+  reset: " ⟳",
+  startup: " 🔒",
+};
+
+interface ParameterRow {
+  parameter: ParameterMetadata;
+  row: HTMLElement;
+  input: HTMLInputElement | HTMLSelectElement;
+  valueLabel: HTMLElement | null;
+}
+
+/**
+ * Panneau de réglage de tous les paramètres
+ */
+export class TuningPanel {
+  private readonly simulation: HeadlessSimulation;
+  private readonly onChange: () => void;
+  private readonly rows: ParameterRow[] = [];
+  private visible = false;
+
+  /**
+   * @param onChange - Appelé après chaque changement accepté (recalage des autres contrôles)
+   */
+  constructor(simulation: HeadlessSimulation, onChange: () => void) {
+    this.simulation = simulation;
+    this.onChange = onChange;
+    this.createRows();
+    this.setupControls();
+  }
+
+  private createRows(): void {
+    const container = document.getElementById("tuning-sections");
+    if (!container) return;
+
+    const sections = new Map<string, HTMLElement>();
+    ConfigParameters.ALL.forEach((parameter) => {
+      const title =
+        SECTION_TITLES[parameter.path.split(".")[0]] ?? parameter.path;
+      let section = sections.get(title);
+      if (!section) {
+        const details = document.createElement("details");
+        const summary = document.createElement("summary");
+        summary.textContent = title;
+        details.appendChild(summary);
+        container.appendChild(details);
+        sections.set(title, details);
+        section = details;
+      }
+      section.appendChild(this.createRow(parameter));
+    });
+  }
+
+  private createRow(parameter: ParameterMetadata): HTMLElement {
+    const row = document.createElement("div");
+    row.className = "tuning-row";
+    row.title = this.describe(parameter);
+
+    const label = document.createElement("div");
+    label.className = "tuning-label";
+    const unit =
+      parameter.kind === "number" && parameter.unit ? ` (${parameter.unit})` : "";
+    label.textContent = `${parameter.label}${unit}${APPLY_BADGES[parameter.apply]}`;
+    row.appendChild(label);
+
+    const controls = document.createElement("div");
+    controls.className = "slider-container";
+    row.appendChild(controls);
+
+    let input: HTMLInputElement | HTMLSelectElement;
+    let valueLabel: HTMLElement | null = null;
+    if (parameter.kind === "enum") {
+      const select = document.createElement("select");
+      select.className = "ui-select";
+      parameter.options.forEach(({ value, label: text }) => {
+        const option = document.createElement("option");
+        option.value = value;
+        option.textContent = text;
+        select.appendChild(option);
+      });
+      select.onchange = () => this.change(parameter, select.value);
+      input = select;
+    } else if (parameter.kind === "boolean") {
+      const checkbox = document.createElement("input");
+      checkbox.type = "checkbox";
+      checkbox.onchange = () => this.change(parameter, checkbox.checked);
+      input = checkbox;
+    } else {
+      const slider = document.createElement("input");
+      slider.type = "range";
+      slider.min = parameter.min.toString();
+      slider.max = parameter.max.toString();
+      slider.step = parameter.step.toString();
+      slider.oninput = () => this.change(parameter, parseFloat(slider.value));
+      input = slider;
+      valueLabel = document.createElement("span");
+      valueLabel.className = "slider-value";
+    }
+    input.disabled = parameter.apply === "startup";
+    controls.appendChild(input);
+    if (valueLabel) controls.appendChild(valueLabel);
+
+    const resetButton = document.createElement("button");
+    resetButton.className = "ui-button tuning-reset";
+    resetButton.textContent = "↺";
+    resetButton.title = "Valeur par défaut";
+    resetButton.disabled = parameter.apply === "startup";
+    resetButton.addEventListener("click", (e) => {
+      e.preventDefault();
+      this.change(parameter, ConfigParameters.getDefault(parameter.path));
+    });
+    controls.appendChild(resetButton);
+
+    const entry = { parameter, row, input, valueLabel };
+    this.rows.push(entry);
+    this.refreshRow(entry);
+    return row;
+  }
+
+  private setupControls(): void {
+    this.onClick("tuning-toggle", () => this.setVisible(!this.visible));
+    this.onClick("tuning-reset-all", () => {
+      const kite = this.simulation.getKite();
+      const refused = this.rows.filter(
+        ({ parameter }) =>
+          parameter.apply !== "startup" &&
+          ConfigParameters.reset(parameter.path, kite).length > 0
+      );
+      this.afterChange();
+      this.setStatus(
+        refused.length === 0
+          ? "Valeurs par défaut rétablies"
+          : `Non rétablis : ${refused.map(({ parameter }) => parameter.label).join(", ")}`
+      );
+    });
+  }
+
+  setVisible(visible: boolean): void {
+    this.visible = visible;
+    const panel = document.getElementById("tuning-panel");
+    if (panel) panel.style.display = visible ? "block" : "none";
+
+    const toggle = document.getElementById("tuning-toggle");
+    if (toggle) {
+      toggle.textContent = visible ? "🎛️ Masquer" : "🎛️ Afficher";
+      toggle.classList.toggle("active", visible);
+    }
+    if (visible) this.refresh();
+  }
+
+  /**
+   * Recale les contrôles sur les valeurs courantes (appelé à chaque frame par
+   * l'application : CONFIG peut changer via UIManager, un profil ou un replay)
+   */
+  update(): void {
+    if (this.visible) this.refresh();
+  }
+
+  private refresh(): void {
+    this.rows.forEach((entry) => {
+      // Ne pas déplacer un curseur en cours de manipulation
+      if (document.activeElement !== entry.input) this.refreshRow(entry);
+    });
+  }
+
+  private change(parameter: ParameterMetadata, value: ParameterValue): void {
+    const issues = ConfigParameters.set(
+      parameter.path,
+      value,
+      this.simulation.getKite()
+    );
+    if (issues.length > 0) {
+      this.setStatus(
+        `❌ ${parameter.label} refusé : ${issues.map(({ message }) => message).join(" ; ")}`
+      );
+    } else if (parameter.apply === "reset") {
+      this.setStatus(`⟳ ${parameter.label} : pris en compte au prochain reset`);
+    } else {
+      this.setStatus("");
+    }
+    this.afterChange();
+  }
+
+  private afterChange(): void {
+    this.rows.forEach((entry) => this.refreshRow(entry));
+    this.onChange();
+  }
+
+  private refreshRow({ parameter, row, input, valueLabel }: ParameterRow): void {
+    const kite = this.simulation.getKite();
+    const value = ConfigParameters.read(parameter.path, kite);
+
+    if (input instanceof HTMLInputElement && input.type === "checkbox") {
+      input.checked = value === true;
+    } else {
+      input.value = String(value);
+    }
+    if (valueLabel && parameter.kind === "number") {
+      valueLabel.textContent = this.format(value as number, parameter.step);
+    }
+    row.classList.toggle(
+      "modified",
+      !ConfigParameters.isDefault(parameter.path, kite)
+    );
+  }
+
+  private describe(parameter: ParameterMetadata): string {
+    const lines = [parameter.description, parameter.path];
+    if (parameter.kind === "number") {
+      lines.push(`${parameter.min} … ${parameter.max} ${parameter.unit}`.trim());
+    }
+    if (parameter.apply === "reset") lines.push("⟳ Pris en compte au prochain reset");
+    if (parameter.apply === "startup") lines.push("🔒 Fixé au chargement");
+    return lines.join("\n");
+  }
+
+  /**
+   * Autant de décimales que le pas du curseur
+   */
+  private format(value: number, step: number): string {
+    const decimals = Math.max(0, Math.ceil(-Math.log10(step) - 1e-9));
+    return value.toFixed(decimals);
+  }
+
+  private onClick(id: string, handler: () => void): void {
+    const element = document.getElementById(id);
+    element?.addEventListener("click", (e) => {
+      e.preventDefault();
+      handler();
+    });
+  }
+
+  private setStatus(text: string): void {
+    const status = document.getElementById("tuning-status");
+    if (status) status.textContent = text;
+  }
+}
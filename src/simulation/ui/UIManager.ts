@@ -1,6 +1,14 @@
 import { PhysicsEngine } from "../physics/PhysicsEngine";
 import { CONFIG } from "../config/SimulationConfig";
 import { DebugRenderer } from "../rendering/DebugRenderer";
+import { DampingModel } from "../physics/DampingModel";
+import { IntegratorFactory } from "../physics/integrators/IntegratorFactory";
+import { WIND_SCENARIOS } from "../config/WindScenarios";
+import { ConfigValidator } from "../config/ConfigValidator";
+import { IntegratorType, WindScenario } from "../types";
+
+/** Valeur du sélecteur de scénario pour un scénario hors catalogue */
+const CUSTOM_SCENARIO_VALUE = "custom";
 
 /**
  * Gestionnaire de l'interface utilisateur
@@ -8,18 +16,20 @@ import { DebugRenderer } from "../rendering/DebugRenderer";
  * Gère les contrôles et interactions utilisateur
  */
 export class UIManager {
-  private physicsEngine: PhysicsEngine;
+  private getPhysicsEngine: () => PhysicsEngine;
   private debugRenderer: DebugRenderer;
   private resetCallback: () => void;
   private togglePlayCallback: () => void;
+  private customScenario: WindScenario | null = null;
 
   constructor(
-    physicsEngine: PhysicsEngine,
+    getPhysicsEngine: () => PhysicsEngine,
     debugRenderer: DebugRenderer,
     resetCallback: () => void,
     togglePlayCallback: () => void
   ) {
-    this.physicsEngine = physicsEngine;
+    // Accès via getter : le moteur est recréé à chaque reset
+    this.getPhysicsEngine = getPhysicsEngine;
     this.debugRenderer = debugRenderer;
     this.resetCallback = resetCallback;
     this.togglePlayCallback = togglePlayCallback;
@@ -74,13 +84,15 @@ export class UIManager {
       "wind-speed"
     ) as HTMLInputElement;
     const speedValue = document.getElementById("wind-speed-value");
+    const speedLabel = document.getElementById("wind-speed-label");
+    if (speedLabel) {
+      // La vitesse réglée est celle mesurée à la hauteur de référence (voir WindField)
+      speedLabel.textContent = `💨 Vitesse du vent (à ${CONFIG.wind.referenceHeight} m)`;
+    }
     if (speedSlider && speedValue) {
-      speedSlider.value = CONFIG.wind.defaultSpeed.toString();
-      speedValue.textContent = `${CONFIG.wind.defaultSpeed} km/h`;
-
       speedSlider.oninput = () => {
         const speed = parseFloat(speedSlider.value);
-        this.physicsEngine.setWindParams({ speed });
+        this.getPhysicsEngine().setWindParams({ speed });
         speedValue.textContent = `${speed} km/h`;
       };
     }
@@ -90,12 +102,9 @@ export class UIManager {
     ) as HTMLInputElement;
     const dirValue = document.getElementById("wind-direction-value");
     if (dirSlider && dirValue) {
-      dirSlider.value = CONFIG.wind.defaultDirection.toString();
-      dirValue.textContent = `${CONFIG.wind.defaultDirection}°`;
-
       dirSlider.oninput = () => {
         const direction = parseFloat(dirSlider.value);
-        this.physicsEngine.setWindParams({ direction });
+        this.getPhysicsEngine().setWindParams({ direction });
         dirValue.textContent = `${direction}°`;
       };
     }
@@ -105,12 +114,9 @@ export class UIManager {
     ) as HTMLInputElement;
     const turbValue = document.getElementById("wind-turbulence-value");
     if (turbSlider && turbValue) {
-      turbSlider.value = CONFIG.wind.defaultTurbulence.toString();
-      turbValue.textContent = `${CONFIG.wind.defaultTurbulence}%`;
-
       turbSlider.oninput = () => {
         const turbulence = parseFloat(turbSlider.value);
-        this.physicsEngine.setWindParams({ turbulence });
+        this.getPhysicsEngine().setWindParams({ turbulence });
         turbValue.textContent = `${turbulence}%`;
       };
     }
@@ -120,12 +126,9 @@ export class UIManager {
     ) as HTMLInputElement;
     const lengthValue = document.getElementById("line-length-value");
     if (lengthSlider && lengthValue) {
-      lengthSlider.value = CONFIG.lines.defaultLength.toString();
-      lengthValue.textContent = `${CONFIG.lines.defaultLength}m`;
-
       lengthSlider.oninput = () => {
         const length = parseFloat(lengthSlider.value);
-        this.physicsEngine.setLineLength(length);
+        this.getPhysicsEngine().setLineLength(length);
         lengthValue.textContent = `${length}m`;
       };
     }
@@ -134,55 +137,46 @@ export class UIManager {
     const bridleNezSlider = document.getElementById("bridle-nez") as HTMLInputElement;
     const bridleNezValue = document.getElementById("bridle-nez-value");
     if (bridleNezSlider && bridleNezValue) {
-      bridleNezSlider.value = "0.68";
-      bridleNezValue.textContent = "0.68m";
-
       bridleNezSlider.oninput = () => {
         const length = parseFloat(bridleNezSlider.value);
-        this.physicsEngine.setBridleLength('nez', length);
+        this.getPhysicsEngine().setBridleLength('nez', length);
         bridleNezValue.textContent = `${length.toFixed(2)}m`;
+        this.refreshBridleStatus();
       };
     }
 
     const bridleInterSlider = document.getElementById("bridle-inter") as HTMLInputElement;
     const bridleInterValue = document.getElementById("bridle-inter-value");
     if (bridleInterSlider && bridleInterValue) {
-      bridleInterSlider.value = "0.5";
-      bridleInterValue.textContent = "0.50m";
-
       bridleInterSlider.oninput = () => {
         const length = parseFloat(bridleInterSlider.value);
-        this.physicsEngine.setBridleLength('inter', length);
+        this.getPhysicsEngine().setBridleLength('inter', length);
         bridleInterValue.textContent = `${length.toFixed(2)}m`;
+        this.refreshBridleStatus();
       };
     }
 
     const bridleCentreSlider = document.getElementById("bridle-centre") as HTMLInputElement;
     const bridleCentreValue = document.getElementById("bridle-centre-value");
     if (bridleCentreSlider && bridleCentreValue) {
-      bridleCentreSlider.value = "0.5";
-      bridleCentreValue.textContent = "0.50m";
-
       bridleCentreSlider.oninput = () => {
         const length = parseFloat(bridleCentreSlider.value);
-        this.physicsEngine.setBridleLength('centre', length);
+        this.getPhysicsEngine().setBridleLength('centre', length);
         bridleCentreValue.textContent = `${length.toFixed(2)}m`;
+        this.refreshBridleStatus();
       };
     }
 
-    // Contrôles de damping physique
+    // Contrôles de damping physique (taux en s⁻¹, équivalent par pas affiché)
     const linearDampingSlider = document.getElementById(
       "linear-damping"
     ) as HTMLInputElement;
     const linearDampingValue = document.getElementById("linear-damping-value");
     if (linearDampingSlider && linearDampingValue) {
-      linearDampingSlider.value = CONFIG.physics.linearDamping.toString();
-      linearDampingValue.textContent = CONFIG.physics.linearDamping.toFixed(2);
-
       linearDampingSlider.oninput = () => {
-        const damping = parseFloat(linearDampingSlider.value);
-        CONFIG.physics.linearDamping = damping;
-        linearDampingValue.textContent = damping.toFixed(2);
+        const rate = parseFloat(linearDampingSlider.value);
+        CONFIG.physics.linearDampingRate = rate;
+        linearDampingValue.textContent = this.formatDampingRate(rate);
       };
     }
 
@@ -191,13 +185,35 @@ export class UIManager {
     ) as HTMLInputElement;
     const angularDampingValue = document.getElementById("angular-damping-value");
     if (angularDampingSlider && angularDampingValue) {
-      angularDampingSlider.value = CONFIG.physics.angularDamping.toString();
-      angularDampingValue.textContent = CONFIG.physics.angularDamping.toFixed(2);
-
       angularDampingSlider.oninput = () => {
-        const damping = parseFloat(angularDampingSlider.value);
-        CONFIG.physics.angularDamping = damping;
-        angularDampingValue.textContent = damping.toFixed(2);
+        const rate = parseFloat(angularDampingSlider.value);
+        CONFIG.physics.angularDampingRate = rate;
+        angularDampingValue.textContent = this.formatDampingRate(rate);
+      };
+    }
+
+    const smoothingSlider = document.getElementById(
+      "force-smoothing"
+    ) as HTMLInputElement;
+    const smoothingValue = document.getElementById("force-smoothing-value");
+    if (smoothingSlider && smoothingValue) {
+      smoothingSlider.oninput = () => {
+        const timeConstant = parseFloat(smoothingSlider.value);
+        CONFIG.physics.forceSmoothingTime = timeConstant;
+        smoothingValue.textContent = this.formatSmoothingTime(timeConstant);
+      };
+    }
+
+    const integratorSelect = document.getElementById(
+      "integrator"
+    ) as HTMLSelectElement;
+    if (integratorSelect) {
+      integratorSelect.innerHTML = IntegratorFactory.AVAILABLE.map(
+        ({ type, label }) => `<option value="${type}">${label}</option>`
+      ).join("");
+
+      integratorSelect.onchange = () => {
+        CONFIG.physics.integrator = integratorSelect.value as IntegratorType;
       };
     }
 
@@ -207,9 +223,6 @@ export class UIManager {
     ) as HTMLInputElement;
     const liftScaleValue = document.getElementById("lift-scale-value");
     if (liftScaleSlider && liftScaleValue) {
-      liftScaleSlider.value = CONFIG.aero.liftScale.toString();
-      liftScaleValue.textContent = CONFIG.aero.liftScale.toFixed(2);
-
       liftScaleSlider.oninput = () => {
         const scale = parseFloat(liftScaleSlider.value);
         CONFIG.aero.liftScale = scale;
@@ -222,15 +235,176 @@ export class UIManager {
     ) as HTMLInputElement;
     const dragScaleValue = document.getElementById("drag-scale-value");
     if (dragScaleSlider && dragScaleValue) {
-      dragScaleSlider.value = CONFIG.aero.dragScale.toString();
-      dragScaleValue.textContent = CONFIG.aero.dragScale.toFixed(2);
-
       dragScaleSlider.oninput = () => {
         const scale = parseFloat(dragScaleSlider.value);
         CONFIG.aero.dragScale = scale;
         dragScaleValue.textContent = scale.toFixed(2);
       };
     }
+
+    // Scénario de vent : remplace les curseurs tant qu'il est actif
+    const scenarioSelect = document.getElementById(
+      "wind-scenario"
+    ) as HTMLSelectElement;
+    if (scenarioSelect) {
+      scenarioSelect.innerHTML = [
+        `<option value="">Aucun (curseurs)</option>`,
+        ...WIND_SCENARIOS.map(
+          (scenario, index) =>
+            `<option value="${index}" title="${scenario.description ?? ""}">${scenario.name}</option>`
+        ),
+      ].join("");
+
+      scenarioSelect.onchange = () => {
+        const scenario =
+          scenarioSelect.value === ""
+            ? null
+            : scenarioSelect.value === CUSTOM_SCENARIO_VALUE
+            ? this.customScenario
+            : WIND_SCENARIOS[parseInt(scenarioSelect.value)];
+        this.getPhysicsEngine().setWindScenario(scenario);
+        this.setWindSlidersEnabled(scenario === null);
+
+        if (!scenario && speedSlider && dirSlider && turbSlider) {
+          // Revenir aux valeurs affichées par les curseurs
+          this.getPhysicsEngine().setWindParams({
+            speed: parseFloat(speedSlider.value),
+            direction: parseFloat(dirSlider.value),
+            turbulence: parseFloat(turbSlider.value),
+          });
+        }
+      };
+    }
+
+    this.refreshControls();
+  }
+
+  /**
+   * Recale tous les contrôles sur l'état courant (CONFIG, moteur, brides),
+   * par exemple après l'application d'un profil
+   */
+  refreshControls(): void {
+    const engine = this.getPhysicsEngine();
+    const windSimulator = engine.getWindSimulator();
+    const scenario = windSimulator.getScenario();
+    const wind = windSimulator.getParams();
+    const bridles = engine.getKiteController().getKite().getBridleLengths();
+
+    // Avec un scénario actif, les curseurs de vent gardent leurs valeurs
+    if (!scenario) {
+      this.setControl("wind-speed", wind.speed, `${wind.speed} km/h`);
+      this.setControl("wind-direction", wind.direction, `${wind.direction}°`);
+      this.setControl("wind-turbulence", wind.turbulence, `${wind.turbulence}%`);
+    }
+    this.setWindSlidersEnabled(scenario === null);
+
+    const scenarioSelect = document.getElementById(
+      "wind-scenario"
+    ) as HTMLSelectElement;
+    if (scenarioSelect) {
+      const index = scenario
+        ? WIND_SCENARIOS.findIndex((s) => s.name === scenario.name)
+        : -1;
+      if (scenario && index < 0) {
+        // Scénario venu d'un profil ou d'un vol : proposé tant qu'il reste le dernier chargé
+        this.customScenario = scenario;
+        let option = scenarioSelect.querySelector(
+          `option[value="${CUSTOM_SCENARIO_VALUE}"]`
+        ) as HTMLOptionElement | null;
+        if (!option) {
+          option = document.createElement("option");
+          option.value = CUSTOM_SCENARIO_VALUE;
+          scenarioSelect.appendChild(option);
+        }
+        option.textContent = `${scenario.name} (chargé)`;
+        scenarioSelect.value = CUSTOM_SCENARIO_VALUE;
+      } else {
+        scenarioSelect.value = index >= 0 ? index.toString() : "";
+      }
+    }
+
+    const lineLength = engine.getLineSystem().lineLength;
+    this.setControl("line-length", lineLength, `${lineLength}m`);
+
+    this.setControl("bridle-nez", bridles.nez, `${bridles.nez.toFixed(2)}m`);
+    this.setControl("bridle-inter", bridles.inter, `${bridles.inter.toFixed(2)}m`);
+    this.setControl("bridle-centre", bridles.centre, `${bridles.centre.toFixed(2)}m`);
+    this.refreshBridleStatus();
+
+    const { linearDampingRate, angularDampingRate, forceSmoothingTime } =
+      CONFIG.physics;
+    this.setControl(
+      "linear-damping",
+      linearDampingRate,
+      this.formatDampingRate(linearDampingRate)
+    );
+    this.setControl(
+      "angular-damping",
+      angularDampingRate,
+      this.formatDampingRate(angularDampingRate)
+    );
+    this.setControl(
+      "force-smoothing",
+      forceSmoothingTime,
+      this.formatSmoothingTime(forceSmoothingTime)
+    );
+
+    const integratorSelect = document.getElementById(
+      "integrator"
+    ) as HTMLSelectElement;
+    if (integratorSelect) integratorSelect.value = CONFIG.physics.integrator;
+
+    this.setControl("lift-scale", CONFIG.aero.liftScale, CONFIG.aero.liftScale.toFixed(2));
+    this.setControl("drag-scale", CONFIG.aero.dragScale, CONFIG.aero.dragScale.toFixed(2));
+  }
+
+  /**
+   * Signale tout de suite des brides invalides (la simulation refusera le prochain reset)
+   */
+  private refreshBridleStatus(): void {
+    const status = document.getElementById("bridle-status");
+    if (!status) return;
+    const kite = this.getPhysicsEngine().getKiteController().getKite();
+    const issues = ConfigValidator.validate(kite).filter(({ path }) =>
+      path.startsWith("bridles")
+    );
+    status.textContent = issues.map(({ message }) => `⚠️ ${message}`).join("\n");
+  }
+
+  /**
+   * Place un curseur et son libellé de valeur (`<id>-value`)
+   */
+  private setControl(id: string, value: number, text: string): void {
+    const slider = document.getElementById(id) as HTMLInputElement;
+    const label = document.getElementById(`${id}-value`);
+    if (slider) slider.value = value.toString();
+    if (label) label.textContent = text;
+  }
+
+  private setWindSlidersEnabled(enabled: boolean): void {
+    ["wind-speed", "wind-direction", "wind-turbulence"].forEach((id) => {
+      const slider = document.getElementById(id) as HTMLInputElement;
+      if (slider) slider.disabled = !enabled;
+    });
+  }
+
+  /**
+   * Affiche un taux d'amortissement et son facteur équivalent par pas physique
+   */
+  private formatDampingRate(rate: number): string {
+    const factor = DampingModel.decayFactor(rate, CONFIG.physics.fixedTimeStep);
+    return `${rate.toFixed(1)} s⁻¹ (×${factor.toFixed(3)}/pas)`;
+  }
+
+  /**
+   * Affiche une constante de temps et le poids équivalent de la nouvelle valeur par pas
+   */
+  private formatSmoothingTime(timeConstant: number): string {
+    const blend = DampingModel.filterBlend(
+      timeConstant,
+      CONFIG.physics.fixedTimeStep
+    );
+    return `${(timeConstant * 1000).toFixed(0)} ms (${(blend * 100).toFixed(0)}%/pas)`;
   }
 
   updatePlayButton(isPlaying: boolean): void {
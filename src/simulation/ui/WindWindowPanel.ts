@@ -0,0 +1,91 @@
+/**
+ * WindWindowPanel.ts - Position du kite dans la fenêtre de vent
+ *
+ * Rôle :
+ *   - Affiche l'azimut, l'élévation et la zone du kite
+ *   - Affiche / masque la fenêtre de vent dans la scène et la tient à jour
+ *
+ * Relation avec les fichiers adjacents :
+ *   - WindWindow.ts : Calcule la position et la zone
+ *   - WindWindowOverlay.ts : Fenêtre dessinée dans la scène
+ *   - SimulationApp.ts : Crée le panneau et appelle update() à chaque frame
+ *
+ * Voir aussi :
+ *   - src/simulation/HeadlessSimulation.ts
+ */
+import { HeadlessSimulation } from "../HeadlessSimulation";
+import { WindWindow } from "../physics/WindWindow";
+import { WindWindowOverlay } from "../rendering/WindWindowOverlay";
+import { WindWindowZone } from "../types";
+
+const ZONE_LABELS: Record<WindWindowZone, string> = {
+  power: "zone de puissance",
+  intermediate: "zone intermédiaire",
+  edge: "bord de fenêtre",
+};
+
+/**
+ * Panneau de la fenêtre de vent
+ */
+export class WindWindowPanel {
+  private readonly simulation: HeadlessSimulation;
+  private readonly overlay: WindWindowOverlay;
+
+  constructor(simulation: HeadlessSimulation, overlay: WindWindowOverlay) {
+    this.simulation = simulation;
+    this.overlay = overlay;
+    this.setupControls();
+  }
+
+  private setupControls(): void {
+    this.onClick("wind-window-toggle", () => {
+      this.overlay.setVisible(!this.overlay.isVisible());
+      this.refreshToggle();
+    });
+    this.refreshToggle();
+  }
+
+  private refreshToggle(): void {
+    const button = document.getElementById("wind-window-toggle");
+    if (button) {
+      button.textContent = this.overlay.isVisible()
+        ? "🙈 Masquer la fenêtre"
+        : "👁️ Afficher la fenêtre";
+      button.classList.toggle("active", this.overlay.isVisible());
+    }
+  }
+
+  private onClick(id: string, handler: () => void): void {
+    const element = document.getElementById(id);
+    element?.addEventListener("click", (e) => {
+      e.preventDefault();
+      handler();
+    });
+  }
+
+  /**
+   * Situe le kite et replace la fenêtre (appelé à chaque frame)
+   */
+  update(): void {
+    const simulation = this.simulation;
+    const { windParams, lineLength } = simulation.getInputs();
+    const pilotPosition = simulation.getPilotPosition();
+    const position = WindWindow.locate(
+      simulation.getState().position,
+      pilotPosition,
+      windParams.direction
+    );
+    const zone = WindWindow.zoneOf(position);
+
+    if (this.overlay.isVisible()) {
+      this.overlay.update(pilotPosition, lineLength, windParams.direction, zone);
+    }
+
+    const status = document.getElementById("wind-window-status");
+    if (status) {
+      status.textContent = `Azimut ${position.azimuth.toFixed(
+        0
+      )}° · élévation ${position.elevation.toFixed(0)}° · ${ZONE_LABELS[zone]}`;
+    }
+  }
+}
@@ -0,0 +1,112 @@
+/**
+ * Tests du pilote automatique : chaque trajectoire fournie est parcourue au vent par défaut
+ */
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { HeadlessSimulation } from "../../src/simulation/HeadlessSimulation";
+import { Autopilot } from "../../src/simulation/controllers/Autopilot";
+
+const DEG = Math.PI / 180;
+const SEED = 3;
+
+test("FIGURE_EIGHT alterne entre les deux lobes sans toucher le sol", () => {
+  const path = Autopilot.FIGURE_EIGHT;
+  const autopilot = new Autopilot(new HeadlessSimulation({ seed: SEED }), path);
+  let side = 0;
+  let switches = 0;
+  let minElevation = 90;
+  let maxAzimuth = 0;
+
+  autopilot.fly(90, undefined, (state) => {
+    const kite = autopilot.getKitePosition(state);
+    minElevation = Math.min(minElevation, kite.elevation);
+    maxAzimuth = Math.max(maxAzimuth, Math.abs(kite.azimuth));
+    const lobe =
+      kite.azimuth > path.width / 4 ? 1 : kite.azimuth < -path.width / 4 ? -1 : 0;
+    if (lobe !== 0 && lobe !== side) {
+      if (side !== 0) switches++;
+      side = lobe;
+    }
+  });
+
+  assert.ok(switches >= 3, `${switches} changements de lobe`);
+  assert.ok(minElevation > 5, `élévation minimale ${minElevation.toFixed(1)}°`);
+  assert.ok(maxAzimuth < path.width / 2 + 5, `azimut maximal ${maxAzimuth.toFixed(1)}°`);
+});
+
+test("CIRCLE tourne autour de son centre, dans le même sens", () => {
+  const path = Autopilot.CIRCLE;
+  const simulation = new HeadlessSimulation({ seed: SEED });
+  const autopilot = new Autopilot(simulation, path);
+  let previous: number | null = null;
+  let turns = 0;
+  let radiusSum = 0;
+  let samples = 0;
+
+  autopilot.fly(90, undefined, (state, time) => {
+    if (time < 10) return;
+    const kite = autopilot.getKitePosition(state);
+    const dx = (kite.azimuth - path.centerAzimuth) * Math.cos(kite.elevation * DEG);
+    const dy = kite.elevation - path.centerElevation;
+    const angle = Math.atan2(dx, dy);
+    if (previous !== null) {
+      turns += Math.atan2(Math.sin(angle - previous), Math.cos(angle - previous)) / (2 * Math.PI);
+    }
+    previous = angle;
+    radiusSum += Math.hypot(dx, dy);
+    samples++;
+  });
+
+  const radius = radiusSum / samples;
+  assert.ok(turns >= 1.5, `${turns.toFixed(2)} tours`);
+  assert.ok(
+    radius > path.radius * 0.6 && radius < path.radius * 1.3,
+    `rayon moyen ${radius.toFixed(1)}°`
+  );
+});
+
+test("EDGE_HOLD garde le kite centré, au sommet de la fenêtre", () => {
+  const autopilot = new Autopilot(new HeadlessSimulation({ seed: SEED }), Autopilot.EDGE_HOLD);
+  const reference = new HeadlessSimulation({ seed: SEED });
+  const average = (fly: (onStep: (elevation: number, azimuth: number, time: number) => void) => void) => {
+    let elevation = 0;
+    let azimuth = 0;
+    let samples = 0;
+    fly((e, a, time) => {
+      if (time < 40) return;
+      elevation += e;
+      azimuth = Math.max(azimuth, Math.abs(a));
+      samples++;
+    });
+    return { elevation: elevation / samples, azimuth };
+  };
+
+  const held = average((onStep) =>
+    autopilot.fly(60, undefined, (state, time) => {
+      const kite = autopilot.getKitePosition(state);
+      onStep(kite.elevation, kite.azimuth, time);
+    })
+  );
+  // Équilibre barre au neutre : l'élévation la plus haute atteignable à ce vent
+  const neutral = average((onStep) =>
+    reference.run(60, undefined, (state, time) => {
+      const kite = new Autopilot(reference).getKitePosition(state);
+      onStep(kite.elevation, kite.azimuth, time);
+    })
+  );
+
+  assert.ok(held.azimuth < 3, `azimut maximal ${held.azimuth.toFixed(1)}°`);
+  assert.ok(
+    held.elevation > neutral.elevation - 1,
+    `élévation ${held.elevation.toFixed(1)}° pour ${neutral.elevation.toFixed(1)}° au neutre`
+  );
+});
+
+test("même graine, même vol", () => {
+  const fly = () => {
+    const simulation = new HeadlessSimulation({ seed: SEED });
+    new Autopilot(simulation, Autopilot.FIGURE_EIGHT).fly(20);
+    return simulation.getState().position.toArray();
+  };
+  assert.deepEqual(fly(), fly());
+});
@@ -0,0 +1,82 @@
+/**
+ * Tests des profils de configuration : aller-retour fichier et lien, comparaison,
+ * refus des profils malformés sans rien modifier
+ */
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { HeadlessSimulation } from "../../src/simulation/HeadlessSimulation";
+import { CONFIG } from "../../src/simulation/config/SimulationConfig";
+import { ConfigProfiles } from "../../src/simulation/config/ConfigProfiles";
+import { ConfigProfile } from "../../src/simulation/types";
+
+const capture = () =>
+  ConfigProfiles.capture(
+    new HeadlessSimulation({ seed: 9, windParams: { speed: 22 } }),
+    "rafales"
+  );
+
+/** Copie JSON modifiable d'un profil */
+const rawProfile = (): Record<string, any> => JSON.parse(ConfigProfiles.serialize(capture()));
+
+test("un profil sérialisé se relit à l'identique", () => {
+  const profile = capture();
+  assert.deepEqual(ConfigProfiles.parse(ConfigProfiles.serialize(profile)), profile);
+});
+
+test("un profil passe dans un lien #profile= et en revient", () => {
+  const profile = { ...capture(), name: "réglage « été » ✓" };
+  const link = ConfigProfiles.toURL(profile, "https://example.org/kite/?mode=1");
+
+  const hash = new URL(link).hash;
+  assert.match(hash, /^#profile=[A-Za-z0-9_-]+$/);
+  assert.deepEqual(ConfigProfiles.fromURL(link), profile);
+  assert.deepEqual(ConfigProfiles.fromURL(hash), profile);
+  assert.equal(ConfigProfiles.fromURL("https://example.org/kite/#autre=1"), null);
+});
+
+test("diff ne liste que les valeurs qui changent", () => {
+  const a = capture();
+  const b: ConfigProfile = JSON.parse(ConfigProfiles.serialize(a));
+  b.name = "autre nom";
+  b.seed = 10;
+  b.config.physics.gravity = 5;
+
+  assert.deepEqual(ConfigProfiles.diff(a, b), [
+    { path: "config.physics.gravity", before: CONFIG.physics.gravity, after: 5 },
+    { path: "seed", before: 9, after: 10 },
+  ]);
+  assert.deepEqual(ConfigProfiles.diff(a, a), []);
+});
+
+test("un profil malformé est refusé à la lecture avec « Profil invalide »", () => {
+  const withoutBridles = rawProfile();
+  delete withoutBridles.config.bridles;
+  const withoutSection = rawProfile();
+  delete withoutSection.config.physics;
+  const objectValue = rawProfile();
+  objectValue.config.aero.liftScale = { valeur: 1 };
+  const badScenario = rawProfile();
+  badScenario.windScenario = { name: "cassé", keyframes: 3 };
+
+  [withoutBridles, withoutSection, objectValue, badScenario].forEach((data) => {
+    assert.throws(() => ConfigProfiles.parse(JSON.stringify(data)), /^Error: Profil invalide : /);
+  });
+});
+
+test("un profil refusé par apply() ne modifie rien", () => {
+  const simulation = new HeadlessSimulation({ seed: 1 });
+  const gravity = CONFIG.physics.gravity;
+  const profile = capture();
+  profile.config.physics.gravity = 5;
+
+  const badScenario = {
+    ...profile,
+    windScenario: { name: "cassé", keyframes: 3 },
+  } as unknown as ConfigProfile;
+  assert.throws(() => ConfigProfiles.apply(badScenario, simulation));
+  assert.equal(CONFIG.physics.gravity, gravity);
+
+  const badLine = { ...profile, lineLength: -5 };
+  assert.throws(() => ConfigProfiles.apply(badLine, simulation));
+  assert.equal(CONFIG.physics.gravity, gravity);
+});
@@ -0,0 +1,117 @@
+/**
+ * Tests de la validation de configuration : chaque incohérence est refusée avec son chemin
+ */
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import * as THREE from "three";
+import { Kite } from "../../src/objects/organic/Kite";
+import { HeadlessSimulation } from "../../src/simulation/HeadlessSimulation";
+import { CONFIG } from "../../src/simulation/config/SimulationConfig";
+import { ConfigSnapshot } from "../../src/simulation/config/ConfigSnapshot";
+import {
+  ConfigValidationError,
+  ConfigValidator,
+  SimulationConfigValues,
+} from "../../src/simulation/config/ConfigValidator";
+import { ConfigIssue } from "../../src/simulation/types";
+
+const kite = new Kite();
+
+const errorPaths = (issues: ConfigIssue[]) =>
+  issues.filter((issue) => issue.severity === "error").map((issue) => issue.path);
+
+/** CONFIG avec une section modifiée, sans toucher CONFIG */
+const withSection = <K extends keyof SimulationConfigValues>(
+  section: K,
+  values: Partial<SimulationConfigValues[K]>
+): SimulationConfigValues => ({
+  ...CONFIG,
+  [section]: { ...CONFIG[section], ...values },
+});
+
+test("la configuration par défaut est valide", () => {
+  assert.deepEqual(errorPaths(ConfigValidator.validate(kite)), []);
+});
+
+test("une raideur de ligne négative est refusée", () => {
+  const config = withSection("lines", { stiffness: -1 });
+  assert.deepEqual(errorPaths(ConfigValidator.validate(kite, config)), ["lines.stiffness"]);
+});
+
+test("une pré-tension au moins égale à la tension max est refusée", () => {
+  const config = withSection("lines", { preTension: CONFIG.lines.maxTension });
+  assert.ok(errorPaths(ConfigValidator.validate(kite, config)).includes("lines.preTension"));
+});
+
+test("un pas fixe plus long que le pas max du moteur est refusé", () => {
+  const config = withSection("physics", {
+    fixedTimeStep: CONFIG.physics.deltaTimeMax * 2,
+  });
+  assert.ok(
+    errorPaths(ConfigValidator.validate(kite, config)).includes("physics.fixedTimeStep")
+  );
+});
+
+test("un tenseur d'inertie asymétrique ou impossible est refusé", () => {
+  const asymmetric = CONFIG.kite.inertiaTensor.clone();
+  asymmetric.elements[1] += 0.01;
+  const impossible = new THREE.Matrix3().set(1, 0, 0, 0, 0.1, 0, 0, 0, 0.1);
+  [asymmetric, impossible].forEach((inertiaTensor) => {
+    const config = withSection("kite", { inertiaTensor });
+    assert.ok(
+      errorPaths(ConfigValidator.validate(kite, config)).includes("kite.inertiaTensor")
+    );
+  });
+});
+
+test("des brides hors limites ou qui ne se rejoignent pas sont refusées", () => {
+  const snapshot = ConfigSnapshot.capture(kite);
+  assert.deepEqual(
+    errorPaths(
+      ConfigValidator.validateSnapshot(
+        { ...snapshot, bridles: { nez: 5, inter: 0.5, centre: 0.5 } },
+        kite
+      )
+    ),
+    ["bridles.nez"]
+  );
+  assert.deepEqual(
+    errorPaths(
+      ConfigValidator.validateSnapshot(
+        { ...snapshot, bridles: { nez: 0.8, inter: 0.2, centre: 0.2 } },
+        kite
+      )
+    ),
+    ["bridles"]
+  );
+});
+
+test("validateSnapshot refuse une masse de kite invalide sans modifier CONFIG", () => {
+  const mass = CONFIG.kite.mass;
+  const snapshot = ConfigSnapshot.capture(kite);
+  const issues = ConfigValidator.validateSnapshot(
+    { ...snapshot, kite: { ...snapshot.kite, mass: 0 } },
+    kite
+  );
+  assert.deepEqual(errorPaths(issues), ["kite.mass"]);
+  assert.equal(CONFIG.kite.mass, mass);
+  assert.throws(() => ConfigValidator.assertValid(issues), ConfigValidationError);
+});
+
+test("une simulation refuse de démarrer avec une ligne ou un vent impossibles", () => {
+  const cases: [ConstructorParameters<typeof HeadlessSimulation>[0], string][] = [
+    [{ lineLength: NaN }, "lineLength"],
+    [{ lineLength: -5 }, "lineLength"],
+    [{ windParams: { speed: -10 } }, "windParams.speed"],
+    [{ windParams: { speed: NaN } }, "windParams.speed"],
+    [{ windParams: { turbulence: 150 } }, "windParams.turbulence"],
+  ];
+  cases.forEach(([options, path]) => {
+    assert.throws(
+      () => new HeadlessSimulation(options),
+      (error: unknown) =>
+        error instanceof ConfigValidationError &&
+        error.issues.some((issue) => issue.path === path)
+    );
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * Tests des contacts au sol (crash ou atterrissage) et du reset qui les suit
+ */
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import * as THREE from "three";
+import { HeadlessSimulation } from "../../src/simulation/HeadlessSimulation";
+import { FlightEventDetector } from "../../src/simulation/events/FlightEventDetector";
+import { FlightOutcomePolicy } from "../../src/simulation/events/FlightOutcomePolicy";
+import { FlightEvent, SimulationStepEvent, StepListener } from "../../src/simulation/types";
+
+/**
+ * Détecteur branché sur une suite de pas écrite à la main : le kite part à 10 m,
+ * puis se pose à la vitesse et dans l'attitude données
+ */
+function touchDown(speed: number, orientation: THREE.Quaternion): FlightEvent[] {
+  const simulation = new HeadlessSimulation({ seed: 1 });
+  let listener: StepListener = () => {};
+  const steps: SimulationStepEvent[] = [];
+  simulation.addStepListener((event) => steps.push(event));
+  simulation.step(1 / 60);
+
+  const source = {
+    addStepListener: (l: StepListener) => {
+      listener = l;
+      return () => {};
+    },
+    getKite: () => simulation.getKite(),
+    getPilotPosition: () => simulation.getPilotPosition(),
+  } as unknown as HeadlessSimulation;
+
+  const detector = new FlightEventDetector();
+  const events: FlightEvent[] = [];
+  detector.addListener((event) => events.push(event));
+  detector.start(source);
+
+  const velocity = new THREE.Vector3(0, -speed, 0);
+  [10, 0.5].forEach((height, stepIndex) =>
+    listener({
+      ...steps[0],
+      stepIndex,
+      time: (stepIndex + 1) / 60,
+      state: {
+        position: new THREE.Vector3(0, height, -10),
+        velocity,
+        angularVelocity: new THREE.Vector3(),
+        orientation,
+      },
+    })
+  );
+  return events.filter((event) => event.type === "crash" || event.type === "landed");
+}
+
+const noseUp = new THREE.Quaternion();
+const noseDown = new THREE.Quaternion().setFromAxisAngle(new THREE.Vector3(1, 0, 0), Math.PI);
+
+test("un contact lent, nez en haut, est un atterrissage", () => {
+  const events = touchDown(1, noseUp);
+  assert.equal(events.length, 1);
+  assert.equal(events[0].type, "landed");
+  assert.equal(events[0].type === "landed" && events[0].impactSpeed, 1);
+});
+
+test("un impact rapide ou un nez planté dans le sol est un crash", () => {
+  const fast = touchDown(4, noseUp);
+  assert.deepEqual(fast.map((event) => event.type), ["crash"]);
+
+  const dive = touchDown(1, noseDown);
+  assert.deepEqual(dive.map((event) => event.type), ["crash"]);
+  assert.equal(dive[0].type === "crash" && dive[0].part, "nose");
+});
+
+const contact = (type: "crash" | "landed", time: number): FlightEvent => ({
+  type,
+  time,
+  position: new THREE.Vector3(),
+  impactSpeed: 3,
+  part: "tail",
+  noseAngle: 0,
+});
+
+test("le reset tombe après le délai en temps simulé, une seule fois", () => {
+  let resets = 0;
+  const policy = new FlightOutcomePolicy(() => resets++, { resetDelay: 2 });
+
+  policy.handle(contact("landed", 1));
+  assert.equal(policy.getRemainingTime(1), null);
+
+  policy.handle(contact("crash", 1));
+  policy.handle(contact("crash", 1.5));
+  assert.equal(policy.getRemainingTime(1.5), 1.5);
+  policy.update(2.9);
+  assert.equal(resets, 0);
+  policy.update(3);
+  assert.equal(resets, 1);
+  policy.update(10);
+  assert.equal(resets, 1);
+});
+
+test("un reset programmé s'annule si le temps recule ou si le réglage change", () => {
+  let resets = 0;
+  const policy = new FlightOutcomePolicy(() => resets++, { resetOn: "any" });
+
+  policy.handle(contact("landed", 5));
+  policy.update(0.2); // simulation réinitialisée par ailleurs
+  assert.equal(policy.getRemainingTime(0.2), null);
+
+  policy.handle(contact("landed", 1));
+  policy.setSettings({ resetOn: "crash" });
+  assert.equal(policy.getRemainingTime(1), null);
+
+  policy.handle(contact("crash", 1));
+  policy.cancel();
+  policy.update(10);
+  assert.equal(resets, 0);
+});
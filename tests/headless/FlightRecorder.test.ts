@@ -0,0 +1,50 @@
+/**
+ * Tests de l'enregistrement de vol : aller-retour JSON et refus des fichiers abîmés
+ */
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { HeadlessSimulation } from "../../src/simulation/HeadlessSimulation";
+import { FlightRecorder } from "../../src/simulation/recording/FlightRecorder";
+import { FlightReplay } from "../../src/simulation/recording/FlightReplay";
+
+/** Vol de 2 s enregistré, relu depuis son JSON */
+function recordFlight() {
+  const sim = new HeadlessSimulation({ windParams: { turbulence: 20 } });
+  const recorder = new FlightRecorder();
+  recorder.start(sim, 3);
+  for (let i = 0; i < 120; i++) {
+    sim.setBarRotation(0.3 * Math.sin(i / 20));
+    sim.step(1 / 60);
+  }
+  return recorder.stop()!;
+}
+
+test("un vol exporté se relit et se rejoue à l'identique", () => {
+  const text = FlightRecorder.serialize(recordFlight());
+  const recording = FlightRecorder.parse(text);
+  assert.equal(FlightRecorder.serialize(recording), text);
+  assert.equal(new FlightReplay(recording).runToEnd(), true);
+});
+
+test("un fichier aux réglages ou scénarios abîmés est refusé à la lecture", () => {
+  const corruptions: ((data: Record<string, any>) => void)[] = [
+    (data) => delete data.initial.config,
+    (data) => delete data.initial.config.bridles,
+    (data) => delete data.initial.config.lines,
+    (data) => (data.initial.config.bridles.nez = "long"),
+    (data) => (data.initial.windScenario = { name: "cassé", keyframes: 3 }),
+    (data) => (data.steps[10].windScenario = { name: "cassé", keyframes: [null] }),
+    (data) => (data.steps[20].config = { bridles: {} }),
+    (data) => (data.steps[30] = null),
+  ];
+  const text = FlightRecorder.serialize(recordFlight());
+
+  corruptions.forEach((corrupt) => {
+    const data = JSON.parse(text);
+    corrupt(data);
+    assert.throws(
+      () => FlightRecorder.parse(JSON.stringify(data)),
+      /^Error: Enregistrement de vol invalide : /
+    );
+  });
+});
@@ -0,0 +1,71 @@
+/**
+ * Tests du replay : un vol enregistré se rejoue bit à bit
+ */
+import { test, beforeEach, after } from "node:test";
+import assert from "node:assert/strict";
+import { HeadlessSimulation } from "../../src/simulation/HeadlessSimulation";
+import { FlightRecorder } from "../../src/simulation/recording/FlightRecorder";
+import { FlightReplay } from "../../src/simulation/recording/FlightReplay";
+import { ConfigParameters } from "../../src/simulation/config/ConfigParameters";
+
+const TUNED = ["kite.mass", "kite.inertia", "kite.minHeight", "controlBar.width", "aero.liftScale"];
+
+function resetTuned(): void {
+  const kite = new HeadlessSimulation().getKite();
+  TUNED.forEach((path) => ConfigParameters.reset(path, kite));
+}
+
+beforeEach(resetTuned);
+after(resetTuned);
+
+/**
+ * Vol de 8 s avec commandes variées et réglages modifiés en plein vol
+ */
+function recordFlight() {
+  const sim = new HeadlessSimulation({ windParams: { speed: 22, turbulence: 25 } });
+  const kite = sim.getKite();
+  const changes: Record<number, [string, number]> = {
+    120: ["aero.liftScale", 1.2],
+    200: ["kite.mass", 0.25],
+    260: ["kite.inertia", 0.03],
+    320: ["controlBar.width", 0.8],
+    380: ["kite.minHeight", 1],
+  };
+
+  const recorder = new FlightRecorder();
+  recorder.start(sim, 42);
+  for (let i = 0; i < 480; i++) {
+    const change = changes[i];
+    if (change) {
+      assert.deepEqual(ConfigParameters.set(change[0], change[1], kite), []);
+    }
+    sim.setBarRotation(0.4 * Math.sin(i / 40));
+    sim.step(1 / 60);
+  }
+  return recorder.stop()!;
+}
+
+test("le replay est identique bit à bit, réglages modifiés en vol compris", () => {
+  const recording = recordFlight();
+  resetTuned();
+
+  const replay = new FlightReplay(recording);
+  assert.equal(replay.runToEnd(), true, `divergence au pas ${replay.getDivergenceStep()}`);
+});
+
+test("chaque réglage modifié est noté au pas où il change", () => {
+  const recording = recordFlight();
+  const changed = recording.steps
+    .map((step, index) => (step.config ? index : -1))
+    .filter((index) => index >= 0);
+  assert.deepEqual(changed, [120, 200, 260, 320, 380]);
+  assert.equal(recording.steps[200].config?.kite?.mass, 0.25);
+  assert.equal(recording.steps[320].config?.controlBar?.width, 0.8);
+});
+
+test("un vol exporté en JSON se rejoue à l'identique", () => {
+  const text = FlightRecorder.serialize(recordFlight());
+  resetTuned();
+  const replay = new FlightReplay(FlightRecorder.parse(text));
+  assert.equal(replay.runToEnd(), true);
+});
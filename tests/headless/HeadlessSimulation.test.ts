@@ -0,0 +1,57 @@
+/**
+ * Tests headless du cœur de simulation (HeadlessSimulation)
+ * Lancés sous Node par `npm test`, sans DOM ni WebGL
+ */
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import * as THREE from "three";
+import { HeadlessSimulation } from "../../src/simulation/HeadlessSimulation";
+import { CONFIG } from "../../src/simulation/config/SimulationConfig";
+import { ControlBarManager } from "../../src/simulation/controllers/ControlBarManager";
+
+test("run() avance du temps demandé au pas fixe", () => {
+  const sim = new HeadlessSimulation({ seed: 1 });
+  sim.run(2);
+  assert.equal(sim.getStepCount(), 120);
+  assert.ok(Math.abs(sim.getTime() - 2) < 1e-9);
+});
+
+test("un pas trop long est ramené à deltaTimeMax et le temps suit le pas appliqué", () => {
+  const sim = new HeadlessSimulation({ seed: 1 });
+  const events: { time: number; deltaTime: number }[] = [];
+  sim.addStepListener(({ time, deltaTime }) => events.push({ time, deltaTime }));
+
+  sim.step(1 / 30);
+  assert.equal(events[0].deltaTime, CONFIG.physics.deltaTimeMax);
+  assert.equal(sim.getTime(), CONFIG.physics.deltaTimeMax);
+  assert.equal(sim.getLastFrame()?.deltaTime, CONFIG.physics.deltaTimeMax);
+
+  sim.reset();
+  sim.run(10, 1 / 30);
+  assert.ok(Math.abs(sim.getTime() - 10) < 1e-9);
+});
+
+test("même graine, mêmes commandes : trajectoires identiques", () => {
+  const fly = () => {
+    const sim = new HeadlessSimulation({ seed: 7, windParams: { turbulence: 30 } });
+    sim.run(5, undefined, (_state, time) => sim.setBarRotation(Math.sin(time)));
+    return sim.getState().position.toArray();
+  };
+  assert.deepEqual(fly(), fly());
+});
+
+test("les lignes de l'instantané correspondent à l'état de fin de pas", () => {
+  const sim = new HeadlessSimulation({ seed: 3 });
+  sim.run(2, undefined, (_state, time) => sim.setBarRotation(0.4 * Math.sin(time)));
+  const frame = sim.getLastFrame()!;
+  const { position, orientation } = frame.kiteState;
+
+  const bar = new ControlBarManager(sim.getPilotPosition());
+  bar.setRotation(frame.barRotation);
+  const handles = bar.getHandlePositions(position);
+  const lineLength = (point: string, handle: THREE.Vector3) =>
+    sim.getKite().getPoint(point)!.clone().applyQuaternion(orientation).add(position).distanceTo(handle);
+
+  assert.ok(Math.abs(frame.lines.left.length - lineLength("CTRL_GAUCHE", handles.left)) < 1e-9);
+  assert.ok(Math.abs(frame.lines.right.length - lineLength("CTRL_DROIT", handles.right)) < 1e-9);
+});
@@ -0,0 +1,48 @@
+/**
+ * Tests de l'environnement d'apprentissage : épisodes reproductibles par graine
+ */
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { KiteEnv } from "../../src/simulation/learning/KiteEnv";
+
+/** Épisode de 150 actions (10 s) avec une commande fixe en sinus */
+const episode = (env: KiteEnv, seed: number) => {
+  const observations = [env.reset(seed)];
+  const rewards: number[] = [];
+  for (let i = 0; i < 150; i++) {
+    const result = env.step(0.6 * Math.sin(i / 10));
+    observations.push(result.observation);
+    rewards.push(result.reward);
+    if (result.done) break;
+  }
+  return { observations, rewards };
+};
+
+const turbulentEnv = () =>
+  new KiteEnv({ simulation: { windParams: { turbulence: 30 } } });
+
+test("même graine, mêmes actions : observations et récompenses identiques", () => {
+  const env = turbulentEnv();
+  const first = episode(env, 7);
+  // Même instance réinitialisée, puis instance neuve
+  assert.deepEqual(episode(env, 7), first);
+  assert.deepEqual(episode(turbulentEnv(), 7), first);
+});
+
+test("des graines différentes donnent des rafales différentes", () => {
+  const a = episode(turbulentEnv(), 7);
+  const b = episode(turbulentEnv(), 8);
+  assert.deepEqual(a.observations[0], b.observations[0]);
+  assert.notDeepEqual(a.observations, b.observations);
+});
+
+test("l'observation a la taille annoncée et step() refuse un épisode terminé", () => {
+  const env = new KiteEnv({ maxEpisodeSteps: 3 });
+  const observation = env.reset(1);
+  assert.equal(observation.length, env.observationSpace.shape[0]);
+
+  let result = env.step(0);
+  while (!result.done) result = env.step(0);
+  assert.equal(result.info.truncated, true);
+  assert.throws(() => env.step(0));
+});
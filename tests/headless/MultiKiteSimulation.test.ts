@@ -0,0 +1,76 @@
+/**
+ * Tests de la scène à plusieurs kites : réglages propres à un kite et sources partagées
+ */
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { HeadlessSimulation } from "../../src/simulation/HeadlessSimulation";
+import { MultiKiteSimulation } from "../../src/simulation/MultiKiteSimulation";
+import { CONFIG } from "../../src/simulation/config/SimulationConfig";
+import { ConfigValidationError } from "../../src/simulation/config/ConfigValidator";
+import { InputSource } from "../../src/simulation/types";
+
+const SEED = 5;
+
+test("un kite vole avec ses réglages propres, CONFIG garde les valeurs communes", () => {
+  const mass = CONFIG.kite.mass;
+  const rigs = new MultiKiteSimulation({
+    seed: SEED,
+    rigs: [{}, { config: { kite: { mass: 0.3 }, aero: { liftScale: 1.2 } } }],
+  });
+  rigs.reset();
+  const pilotPosition = rigs.getRig(1).simulation.getPilotPosition();
+  rigs.run(5);
+
+  assert.equal(CONFIG.kite.mass, mass);
+
+  // Même vol qu'un kite seul avec ces réglages dans CONFIG
+  const liftScale = CONFIG.aero.liftScale;
+  CONFIG.kite.mass = 0.3;
+  CONFIG.aero.liftScale = 1.2;
+  try {
+    const alone = new HeadlessSimulation({ seed: SEED, pilotPosition });
+    alone.run(5);
+    assert.deepEqual(
+      rigs.getRig(1).simulation.getState().position.toArray(),
+      alone.getState().position.toArray()
+    );
+  } finally {
+    CONFIG.kite.mass = mass;
+    CONFIG.aero.liftScale = liftScale;
+  }
+});
+
+test("le premier kite ignore les réglages propres", () => {
+  const rigs = new MultiKiteSimulation({
+    seed: SEED,
+    rigs: [{ config: { kite: { mass: 0.3 } } }],
+  });
+  assert.deepEqual(rigs.getRig(0).config, {});
+});
+
+test("des réglages propres invalides sont refusés sans toucher CONFIG", () => {
+  const mass = CONFIG.kite.mass;
+  const rigs = new MultiKiteSimulation({ seed: SEED });
+  assert.throws(
+    () => rigs.addRig({ config: { kite: { mass: -1 } } }),
+    ConfigValidationError
+  );
+  assert.equal(CONFIG.kite.mass, mass);
+});
+
+test("une source partagée par plusieurs kites n'est mise à jour qu'une fois par frame", () => {
+  let updates = 0;
+  const shared: InputSource = {
+    name: "Partagée",
+    update: () => updates++,
+    isActive: () => true,
+    getTargetBarRotation: () => 0.1,
+  };
+  const rigs = new MultiKiteSimulation({
+    seed: SEED,
+    rigs: [{}, { input: shared }, { input: shared }],
+  });
+  rigs.applyInputs(1 / 60);
+  assert.equal(updates, 1);
+  assert.equal(rigs.getRig(2).simulation.getBarRotation(), 0.1);
+});
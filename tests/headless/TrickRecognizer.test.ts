@@ -0,0 +1,104 @@
+/**
+ * Tests de la reconnaissance des figures sur un vol écrit à la main
+ */
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import * as THREE from "three";
+import { HeadlessSimulation } from "../../src/simulation/HeadlessSimulation";
+import { CONFIG } from "../../src/simulation/config/SimulationConfig";
+import { WindWindow } from "../../src/simulation/physics/WindWindow";
+import { FlightRecorder } from "../../src/simulation/recording/FlightRecorder";
+import { TrickRecognizer } from "../../src/simulation/tricks/TrickRecognizer";
+import { FlightRecording, RecordedStep } from "../../src/simulation/types";
+
+const DT = 1 / 60;
+const pilot = CONFIG.controlBar.position;
+/** Kite face au pilote, au centre de la fenêtre (vent 0°) */
+const position = pilot.clone().add(new THREE.Vector3(0, 10, -17));
+const radial = position.clone().sub(pilot).normalize();
+const east = WindWindow.axes(0).right;
+const north = new THREE.Vector3().crossVectors(east, radial);
+
+/** Pas dont le nez suit le cap donné, vitesse le long du nez */
+function stepAt(heading: number, speed: number): RecordedStep {
+  const nose = north.clone().multiplyScalar(Math.cos(heading)).addScaledVector(east, Math.sin(heading));
+  const side = new THREE.Vector3().crossVectors(nose, radial);
+  const orientation = new THREE.Quaternion().setFromRotationMatrix(
+    new THREE.Matrix4().makeBasis(side, nose, radial)
+  );
+  return {
+    deltaTime: DT,
+    barRotation: 0,
+    windParams: { speed: 18, direction: 0, turbulence: 0 },
+    lineLength: CONFIG.lines.defaultLength,
+    state: FlightRecorder.serializeState({
+      position,
+      velocity: nose.clone().multiplyScalar(speed),
+      angularVelocity: new THREE.Vector3(),
+      orientation,
+    }),
+  };
+}
+
+/** Phases successives : le cap tourne à `rate` rad/s pendant `duration` s */
+function script(phases: { duration: number; rate: number }[]): RecordedStep[] {
+  const steps: RecordedStep[] = [];
+  let heading = 0;
+  phases.forEach(({ duration, rate }) => {
+    for (let i = 0; i < Math.round(duration / DT); i++) {
+      heading += rate * DT;
+      steps.push(stepAt(heading, 5));
+    }
+  });
+  return steps;
+}
+
+/** Enregistrement complet dont seuls les pas sont remplacés */
+function recordingOf(steps: RecordedStep[]): FlightRecording {
+  const sim = new HeadlessSimulation({ seed: 1 });
+  const recorder = new FlightRecorder();
+  recorder.start(sim);
+  sim.step(DT);
+  return { ...recorder.stop()!, steps };
+}
+
+test("analyze() reconnaît un looping à droite puis un virage carré à gauche", () => {
+  const tricks = TrickRecognizer.analyze(
+    recordingOf(
+      script([
+        { duration: 1, rate: 0 },
+        { duration: 2.6, rate: 2.5 }, // 372° à 5 m/s : rayon de 2 m
+        { duration: 1, rate: 0 },
+        { duration: 0.4, rate: -Math.PI / 2 / 0.4 },
+        { duration: 1, rate: 0 },
+      ])
+    )
+  );
+
+  assert.deepEqual(
+    tricks.map(({ type, direction }) => [type, direction]),
+    [
+      ["loop", "right"],
+      ["squareTurn", "left"],
+    ]
+  );
+  const [loop, squareTurn] = tricks;
+  assert.ok(Math.abs(loop.angle! - 372) < 1, `angle ${loop.angle}`);
+  assert.ok(Math.abs(loop.radius! - 2) < 0.01, `rayon ${loop.radius}`);
+  assert.ok(Math.abs(loop.startTime - 1) < 0.05, `début ${loop.startTime}`);
+  assert.ok(Math.abs(squareTurn.angle! - 90) < 1, `angle ${squareTurn.angle}`);
+});
+
+test("un tour incomplet n'est pas un looping, un virage trop lent pas un virage carré", () => {
+  const tricks = TrickRecognizer.analyze(
+    recordingOf(
+      script([
+        { duration: 2, rate: 2.5 }, // 286°
+        { duration: 1, rate: 0 },
+        { duration: 2, rate: -Math.PI / 2 / 2 },
+        { duration: 1, rate: 0 },
+      ])
+    )
+  );
+  assert.deepEqual(tricks, []);
+});
@@ -0,0 +1,74 @@
+/**
+ * Tests des rafales à graine : SeededRandom, TurbulenceGenerator et WindSimulator
+ */
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import * as THREE from "three";
+import { SeededRandom } from "../../src/simulation/physics/SeededRandom";
+import { TurbulenceGenerator } from "../../src/simulation/physics/TurbulenceGenerator";
+import { WindSimulator } from "../../src/simulation/physics/WindSimulator";
+
+/** 5 s de rafales à 60 Hz, vent moyen de 5 m/s */
+const gusts = (generator: TurbulenceGenerator) => {
+  const samples: number[][] = [];
+  for (let i = 0; i < 300; i++) {
+    generator.update(1 / 60, 5);
+    samples.push(generator.getGust(1, 0.5).toArray());
+  }
+  return samples;
+};
+
+/** 5 s de vent turbulent vu depuis un point fixe */
+const windAt = (simulator: WindSimulator) => {
+  simulator.setParams({ turbulence: 40 });
+  const position = new THREE.Vector3(0, 10, -20);
+  const samples: number[][] = [];
+  for (let i = 0; i < 300; i++) {
+    simulator.update(1 / 60);
+    samples.push(simulator.getWindAt(position).toArray());
+  }
+  return samples;
+};
+
+test("reset() rejoue la séquence, tirage gaussien en réserve compris", () => {
+  const random = new SeededRandom(42);
+  // Nombre impair de tirages gaussiens : le second tirage de Box-Muller reste en réserve
+  const draw = () => [random.next(), random.nextGaussian(), random.nextGaussian(), random.nextGaussian()];
+  const first = [...draw(), ...draw()];
+
+  random.reset();
+  assert.deepEqual([...draw(), ...draw()], first);
+  random.reset(42);
+  assert.deepEqual([...draw(), ...draw()], first);
+  // La graine est ramenée sur 32 bits
+  assert.equal(new SeededRandom(42 + 2 ** 32).next(), new SeededRandom(42).next());
+});
+
+test("la réserve gaussienne est vidée au reset au lieu d'être resservie", () => {
+  const random = new SeededRandom(3);
+  const firstGaussian = random.nextGaussian();
+  random.reset();
+  assert.equal(random.nextGaussian(), firstGaussian);
+});
+
+test("même graine, mêmes rafales ; autre graine, rafales différentes", () => {
+  const first = gusts(new TurbulenceGenerator(11));
+  assert.deepEqual(gusts(new TurbulenceGenerator(11)), first);
+  assert.notDeepEqual(gusts(new TurbulenceGenerator(12)), first);
+
+  const generator = new TurbulenceGenerator(12);
+  gusts(generator);
+  generator.reset(11);
+  assert.deepEqual(gusts(generator), first);
+});
+
+test("deux WindSimulator de même graine soufflent le même vent", () => {
+  const first = windAt(new WindSimulator(5));
+  assert.deepEqual(windAt(new WindSimulator(5)), first);
+  assert.notDeepEqual(windAt(new WindSimulator(6)), first);
+
+  const simulator = new WindSimulator(6);
+  simulator.setSeed(5);
+  assert.equal(simulator.getSeed(), 5);
+  assert.deepEqual(windAt(simulator), first);
+});
@@ -0,0 +1,45 @@
+/**
+ * Tests de lecture des scénarios de vent
+ */
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { WindScenarioPlayer } from "../../src/simulation/physics/WindScenarioPlayer";
+
+const invalid = (message: RegExp) => (error: unknown) =>
+  error instanceof Error &&
+  !(error instanceof TypeError) &&
+  message.test(error.message);
+
+test("un scénario bien formé est accepté", () => {
+  const scenario = WindScenarioPlayer.parse(
+    JSON.stringify({
+      name: "Rafale",
+      keyframes: [
+        { time: 0, speed: 15 },
+        { time: 5, speed: 30, ramp: 1 },
+      ],
+    })
+  );
+  assert.equal(new WindScenarioPlayer(scenario).sample(10).speed, 30);
+});
+
+test("une keyframe qui n'est pas un objet est refusée avec un message descriptif", () => {
+  [null, 3, "vent", [0, 15]].forEach((keyframe) => {
+    assert.throws(
+      () => WindScenarioPlayer.parse({ name: "Cassé", keyframes: [keyframe] }),
+      invalid(/keyframe 0 : objet attendu/)
+    );
+  });
+});
+
+test("les champs hors limites sont refusés", () => {
+  assert.throws(
+    () => WindScenarioPlayer.parse({ name: "A", keyframes: [{ time: -1 }] }),
+    invalid(/'time'/)
+  );
+  assert.throws(
+    () => WindScenarioPlayer.parse({ name: "B", keyframes: [{ time: 0, turbulence: 150 }] }),
+    invalid(/'turbulence'/)
+  );
+  assert.throws(() => WindScenarioPlayer.parse({ keyframes: [] }), invalid(/'name'/));
+});
@@ -0,0 +1,63 @@
+/**
+ * Tests de la géométrie de la fenêtre de vent : position, zones et cap du nez
+ */
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import * as THREE from "three";
+import { WindWindow } from "../../src/simulation/physics/WindWindow";
+
+const pilot = new THREE.Vector3(0, 0, 0);
+
+const assertClose = (actual: number, expected: number) =>
+  assert.ok(Math.abs(actual - expected) < 1e-9, `${actual} ≠ ${expected}`);
+
+test("locate() donne azimut et élévation relatifs à la direction du vent", () => {
+  // Vent 0° : sous le vent vers -Z, droite du pilote vers +X
+  const center = WindWindow.locate(new THREE.Vector3(0, 0, -20), pilot, 0);
+  assertClose(center.azimuth, 0);
+  assertClose(center.elevation, 0);
+
+  const high = WindWindow.locate(new THREE.Vector3(0, 10, -10), pilot, 0);
+  assertClose(high.azimuth, 0);
+  assertClose(high.elevation, 45);
+
+  assertClose(WindWindow.locate(new THREE.Vector3(20, 0, 0), pilot, 0).azimuth, 90);
+
+  // Vent 90° : sous le vent vers +X, droite du pilote vers +Z
+  assertClose(WindWindow.locate(new THREE.Vector3(20, 0, 0), pilot, 90).azimuth, 0);
+  assertClose(WindWindow.locate(new THREE.Vector3(0, 0, 20), pilot, 90).azimuth, 90);
+
+  // Position relative au pilote, pas à l'origine
+  const offset = new THREE.Vector3(3, 1, 2);
+  assertClose(
+    WindWindow.locate(new THREE.Vector3(3, 11, -8), offset, 0).elevation,
+    45
+  );
+});
+
+test("zoneOf() classe du centre vers le bord, derrière le bord compris", () => {
+  assert.equal(WindWindow.zoneOf({ azimuth: 0, elevation: 20 }), "power");
+  assert.equal(WindWindow.zoneOf({ azimuth: -30, elevation: 30 }), "power");
+  assert.equal(WindWindow.zoneOf({ azimuth: 0, elevation: 50 }), "intermediate");
+  assert.equal(WindWindow.zoneOf({ azimuth: 60, elevation: 10 }), "intermediate");
+  assert.equal(WindWindow.zoneOf({ azimuth: 0, elevation: 80 }), "edge");
+  assert.equal(WindWindow.zoneOf({ azimuth: -85, elevation: 5 }), "edge");
+  assert.equal(WindWindow.zoneOf({ azimuth: 150, elevation: 10 }), "edge");
+});
+
+test("heading() vaut 0 nez au zénith, +π/2 nez à droite, ±π nez au sol", () => {
+  const position = new THREE.Vector3(0, 0, -20);
+  const radial = new THREE.Vector3(0, 0, -1);
+  const headingFor = (roll: number) =>
+    WindWindow.heading(
+      position,
+      new THREE.Quaternion().setFromAxisAngle(radial, roll),
+      pilot,
+      0
+    );
+
+  assertClose(headingFor(0), 0);
+  assertClose(headingFor(Math.PI / 2), Math.PI / 2);
+  assertClose(headingFor(-Math.PI / 2), -Math.PI / 2);
+  assertClose(Math.abs(headingFor(Math.PI)), Math.PI);
+});
@@ -0,0 +1,69 @@
+/**
+ * Tests des intégrateurs du corps rigide (sélection et réévaluation des efforts)
+ */
+import { test, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import * as THREE from "three";
+import { Kite } from "../../src/objects/organic/Kite";
+import { HeadlessSimulation } from "../../src/simulation/HeadlessSimulation";
+import { KiteController } from "../../src/simulation/controllers/KiteController";
+import { CONFIG } from "../../src/simulation/config/SimulationConfig";
+import { IntegratorFactory } from "../../src/simulation/physics/integrators/IntegratorFactory";
+import { IntegratorType } from "../../src/simulation/types";
+
+const defaultIntegrator = CONFIG.physics.integrator;
+afterEach(() => {
+  CONFIG.physics.integrator = defaultIntegrator;
+});
+
+test("IntegratorFactory crée chaque schéma disponible", () => {
+  IntegratorFactory.AVAILABLE.forEach(({ type }) => {
+    assert.equal(IntegratorFactory.create(type).type, type);
+  });
+  assert.throws(() => IntegratorFactory.create("leapfrog" as IntegratorType));
+});
+
+test("chaque étape intermédiaire recalcule les efforts dans son propre état", () => {
+  const expected: Record<IntegratorType, number> = {
+    "semi-implicit-euler": 0,
+    "velocity-verlet": 1,
+    rk4: 3,
+  };
+  IntegratorFactory.AVAILABLE.forEach(({ type }) => {
+    CONFIG.physics.integrator = type;
+    const kite = new Kite();
+    kite.position.set(0, 10, -10);
+    const controller = new KiteController(kite);
+    const handles = {
+      left: new THREE.Vector3(-0.3, 1.2, 8),
+      right: new THREE.Vector3(0.3, 1.2, 8),
+    };
+
+    const stages: THREE.Vector3[] = [];
+    const loads = { force: new THREE.Vector3(0, 5, 0), torque: new THREE.Vector3() };
+    controller.update(
+      loads,
+      (stage) => {
+        stages.push(stage.position.clone());
+        return loads;
+      },
+      handles,
+      1 / 60
+    );
+    assert.equal(stages.length, expected[type], type);
+  });
+});
+
+test("le schéma choisi change la trajectoire, chacun restant déterministe", () => {
+  const fly = (type: IntegratorType) => {
+    CONFIG.physics.integrator = type;
+    const sim = new HeadlessSimulation({ seed: 3, windParams: { turbulence: 20 } });
+    sim.run(10, undefined, (_state, time) => sim.setBarRotation(0.3 * Math.sin(time)));
+    return sim.getState().position.toArray();
+  };
+  const euler = fly("semi-implicit-euler");
+  const rk4 = fly("rk4");
+  assert.notDeepEqual(euler, rk4);
+  assert.deepEqual(fly("rk4"), rk4);
+  rk4.forEach((value) => assert.ok(Number.isFinite(value)));
+});